@@ -0,0 +1,55 @@
+// Replay check - sends one request through /api/generate against the recorded provider fixture in
+// fixtures/providers and checks the route's post-processing (title trimming, keyword normalization).
+// Start the app with PROVIDER_FIXTURES=replay first; BASE_URL overrides http://localhost:3000.
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+// 1x1 PNG: the fixture's provider (Mistral) reads only the prompt, but image rows need image data
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+// Must match the recorded request exactly: any change here (or to the prompt) needs a new recording
+const request = {
+  platform: 'adobe',
+  titleLen: 70,
+  descLen: 150,
+  keywordMode: 'fixed',
+  keywordCount: 15,
+  assetType: 'photo',
+  model: { provider: 'mistral' },
+  mistralModel: 'mistral-small-latest',
+  files: [{ name: 'IMG_2041.png', type: 'image/png', url: '/uploads/IMG_2041.png', ext: 'png', imageData: PIXEL }],
+  singleMode: true,
+  forceRegenerate: true
+};
+
+const failures = [];
+const check = (ok, message) => { if (!ok) failures.push(message); };
+
+const res = await fetch(`${BASE_URL}/api/generate`, {
+  method: 'POST',
+  // Replay ignores the key, but the provider still requires one
+  headers: { 'Content-Type': 'application/json', Authorization: 'Bearer replay' },
+  body: JSON.stringify(request)
+});
+const data = await res.json().catch(() => ({}));
+const row = data?.rows?.[0];
+
+check(res.ok, `HTTP ${res.status}`);
+check(row && !row.error, `row error: ${row?.error ?? 'no row returned'}`);
+if (row && !row.error) {
+  const keywords = row.keywords ?? [];
+  check(row.title.length <= request.titleLen, `title is ${row.title.length} characters (max ${request.titleLen}): ${row.title}`);
+  check(keywords.length > 0 && keywords.length <= request.keywordCount, `${keywords.length} keywords (max ${request.keywordCount})`);
+  check(keywords.every(k => k === k.toLowerCase().trim()), 'keywords are not lowercased and trimmed');
+  check(new Set(keywords).size === keywords.length, 'duplicate keywords');
+  // The recorded reply repeats "flower"/"Flowers" and "leaf"/"leaves" and includes the stopword "the"
+  check(!(keywords.includes('flower') && keywords.includes('flowers')), 'singular and plural of "flower" both kept');
+  check(!(keywords.includes('leaf') && keywords.includes('leaves')), 'singular and plural of "leaf" both kept');
+  check(!keywords.includes('the'), 'stopword "the" kept as a keyword');
+}
+
+if (failures.length > 0) {
+  console.error(`Replay check failed:\n- ${failures.join('\n- ')}`);
+  process.exit(1);
+}
+console.log(`Replay check passed: "${row.title}" with ${row.keywords.length} keywords`);
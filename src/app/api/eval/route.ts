@@ -0,0 +1,180 @@
+// src/app/api/eval/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { z } from 'zod';
+import { PROMPT_VERSION, PROMPT_BUILDERS } from '@/lib/models';
+import { logger } from '@/lib/logger';
+import { PlatformEnum, ProviderEnum, GeminiModelEnum, MistralModelEnum, GroqModelEnum } from '@/lib/types';
+import { readImageAsBase64 } from '@/lib/server-util';
+import {
+  DEFAULT_DATASET_DIR,
+  loadGoldenDataset,
+  scoreItem,
+  summarize,
+  compareReports,
+  saveReport,
+  loadReport,
+  listReports,
+  type EvalReport,
+  type EvalSettings,
+  type GeneratedMetadata,
+  type ItemScore
+} from '@/lib/eval';
+import { POST as generate } from '../generate/route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const MIME_BY_EXT: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+const Body = z.object({
+  dataset: z.string().optional(),          // folder with golden.json + images (default eval/golden)
+  promptVersion: z.string().optional(),    // key of PROMPT_BUILDERS to generate with; defaults to PROMPT_VERSION
+  compareWith: z.string().optional(),      // saved report to compare the new run against
+  model: z.object({ provider: ProviderEnum }),
+  geminiModel: GeminiModelEnum.optional(),
+  mistralModel: MistralModelEnum.optional(),
+  groqModel: GroqModelEnum.optional(),
+  openaiBaseUrl: z.string().optional(),
+  openaiModel: z.string().optional(),
+  platform: PlatformEnum.optional(),
+  titleLen: z.number().min(20).max(200).optional(),
+  keywordCount: z.number().min(5).max(49).optional(),
+  keywordMode: z.enum(['auto','fixed']).optional()
+});
+
+// Reads arbitrary server folders, so only available in development unless explicitly enabled
+const evalEnabled = () => process.env.NODE_ENV !== 'production' || process.env.ENABLE_EVAL === 'true';
+
+/**
+ * POST /api/eval
+ *
+ * Runs every golden item through the /api/generate handler in-process (one file per request, so
+ * the route's post-processing is included) with the chosen prompt version and the generation cache
+ * bypassed, scores the output and saves a report under eval/reports.
+ */
+export async function POST(req: NextRequest) {
+  if (!evalEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const parsed = Body.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request', details: parsed.error.flatten() }, { status: 400 });
+  }
+  const b = parsed.data;
+  const promptVersion = b.promptVersion || PROMPT_VERSION;
+  if (!PROMPT_BUILDERS[promptVersion]) {
+    return NextResponse.json(
+      { error: `Unknown prompt version "${promptVersion}"; available: ${Object.keys(PROMPT_BUILDERS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const datasetDir = path.resolve(b.dataset || DEFAULT_DATASET_DIR);
+
+  try {
+    const dataset = await loadGoldenDataset(datasetDir);
+    const settings: EvalSettings = {
+      platform: b.platform || dataset.platform || 'adobe',
+      titleLen: b.titleLen || dataset.titleLen || 70,
+      keywordCount: b.keywordCount || dataset.keywordCount || 25,
+      keywordMode: b.keywordMode || dataset.keywordMode || 'fixed'
+    };
+    const authorization = req.headers.get('authorization');
+    const log = logger.child({ route: '/api/eval', promptVersion });
+
+    log.info('Evaluating golden dataset', { items: dataset.items.length, dataset: datasetDir, provider: b.model.provider });
+
+    const items: ItemScore[] = [];
+    for (const golden of dataset.items) {
+      const ext = path.extname(golden.file).slice(1).toLowerCase();
+      let generated: GeneratedMetadata;
+      try {
+        const imageData = await readImageAsBase64(path.join(datasetDir, golden.file));
+        // In-process call: the request's Host header never decides where the key goes
+        const res = await generate(new NextRequest('http://localhost/api/generate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+          body: JSON.stringify({
+            ...settings,
+            descLen: 150,
+            assetType: 'auto',
+            singleMode: true,
+            forceRegenerate: true, // Cached rows may come from an unbumped prompt change
+            promptVersion,
+            model: b.model,
+            geminiModel: b.geminiModel,
+            mistralModel: b.mistralModel,
+            groqModel: b.groqModel,
+            openaiBaseUrl: b.openaiBaseUrl,
+            openaiModel: b.openaiModel,
+            files: [{ name: golden.file, type: MIME_BY_EXT[ext] || 'image/jpeg', url: '', ext, imageData }]
+          })
+        }));
+        const data = await res.json().catch(() => ({}));
+        const row = data?.rows?.[0];
+        generated = row
+          ? { title: row.title || '', description: row.description || '', keywords: row.keywords || [], error: row.error }
+          : { title: '', description: '', keywords: [], error: data?.message || `Generate request failed (${res.status})` };
+      } catch (error: any) {
+        generated = { title: '', description: '', keywords: [], error: error?.message || 'Unknown error' };
+      }
+
+      const score = scoreItem(golden, generated, settings);
+      log.info('Scored golden item', {
+        file: golden.file,
+        titleScore: score.titleScore,
+        keywordScore: score.keywordScore,
+        keywordF1: score.keywordF1,
+        ...(score.error ? { error: score.error } : {})
+      });
+      items.push(score);
+    }
+
+    const report: EvalReport = {
+      promptVersion,
+      provider: b.model.provider,
+      model: b.geminiModel || b.mistralModel || b.groqModel || b.openaiModel,
+      dataset: path.relative(process.cwd(), datasetDir) || '.',
+      createdAt: new Date().toISOString(),
+      settings,
+      summary: summarize(items),
+      items
+    };
+    const saved = await saveReport(report);
+    const comparison = b.compareWith ? compareReports(await loadReport(b.compareWith), report) : undefined;
+
+    return NextResponse.json({ report: saved, summary: report.summary, items, comparison });
+  } catch (error: any) {
+    logger.error('Evaluation failed', { route: '/api/eval', error });
+    return NextResponse.json({ error: error?.message || 'Evaluation failed' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/eval                              - list saved reports
+ * GET /api/eval?base=a.json&candidate=b.json - compare two reports (add &format=md for Markdown)
+ */
+export async function GET(req: NextRequest) {
+  if (!evalEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const base = params.get('base');
+  const candidate = params.get('candidate');
+  if (!base || !candidate) {
+    return NextResponse.json({ reports: await listReports() });
+  }
+
+  try {
+    const comparison = compareReports(await loadReport(base), await loadReport(candidate));
+    if (params.get('format') === 'md') {
+      return new NextResponse(comparison.markdown, { headers: { 'Content-Type': 'text/markdown; charset=utf-8' } });
+    }
+    return NextResponse.json(comparison);
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || 'Failed to load reports' }, { status: 400 });
+  }
+}
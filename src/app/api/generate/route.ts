@@ -1,12 +1,23 @@
 // src/app/api/generate/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-import { generateWithGemini, generateWithMistral, generateWithGroq, type ModelArgs } from '@/lib/models';
-import { filenameHints, truncateByChars, isFilenameBased, scoreTitleQuality, filterFilenameBasedKeywords } from '@/lib/util';
+import { PROMPT_BUILDERS, type ModelArgs } from '@/lib/models';
+import { getProvider } from '@/lib/providers';
+import { filenameHints, truncateByChars, isFilenameBased, scoreTitleQuality, filterFilenameBasedKeywords, strictTrimTitleToMax, dedupe } from '@/lib/util';
 import { enrichKeywords, addScientificNames, extractTechnicalKeywords, generateLongTailKeywords } from '@/lib/keyword-enrichment';
-import { GeminiModelEnum, MistralModelEnum, GroqModelEnum } from '@/lib/types';
+import { GenerateRequestSchema, type Language, type Platform, type ValidationIssue } from '@/lib/types';
+import { PLATFORMS, platformLabel, applyPlatformLimits } from '@/lib/platforms';
+import { validateMetadata, STYLE_REF_PATTERNS } from '@/lib/validation-rules';
+import { TermDictionary } from '@/lib/dictionaries';
+import { LANGUAGES, splitWords, keywordKey } from '@/lib/languages';
+import { rankKeywords } from '@/lib/keyword-ranking';
+import type { RowTranslation } from '@/lib/csv';
 import path from 'path';
 import { convertVectorToPng } from '@/lib/vector-convert';
+import { modelIdFor, costOf, estimateFileCost, formatUsd, sumUsage } from '@/lib/pricing';
+import { generationCacheKey, getCachedGeneration, cacheGeneration } from '@/lib/generation-cache';
+import { logger, type Logger } from '@/lib/logger';
+import { retryTracker } from '@/lib/retry-tracker';
+import { nanoid } from 'nanoid';
 
 // Infer by extension when assetType='auto'
 const inferAsset = (ext: string) =>
@@ -14,321 +25,36 @@ const inferAsset = (ext: string) =>
   ['eps','ai','svg'].includes(ext) ? 'vector' :
   ['png','jpg','jpeg','webp'].includes(ext) ? 'photo' : 'illustration';
 
-const Body = z.object({
-  platform: z.enum(['general','adobe','shutterstock']),
-  titleLen: z.number().min(20).max(200),
-  descLen: z.literal(150),
-  keywordMode: z.enum(['auto','fixed']).optional().default('fixed'),
-  keywordCount: z.number().min(5).max(49),
-  assetType: z.enum(['auto','photo','illustration','vector','3d','icon','video']),
-  prefix: z.string().optional(),
-  suffix: z.string().optional(),
-  negativeTitle: z.array(z.string()).optional().default([]),
-  negativeKeywords: z.array(z.string()).optional().default([]),
-  model: z.object({ provider: z.enum(['gemini','mistral','groq']), preview: z.boolean().optional() }),
-  geminiModel: GeminiModelEnum.optional(),
-  mistralModel: MistralModelEnum.optional(),
-  groqModel: GroqModelEnum.optional(),
-  files: z.array(z.object({ 
-    name: z.string(), 
-    type: z.string(), 
-    url: z.string(), 
-    ext: z.string().optional(),
-    imageData: z.string().optional() // Base64 image data from client
-  })),
-  videoHints: z.object({ style: z.array(z.string()).optional(), tech: z.array(z.string()).optional() }).optional(),
-  singleMode: z.boolean().optional(),
-  isolatedOnTransparentBackground: z.boolean().optional().default(false),
-  isolatedOnWhiteBackground: z.boolean().optional().default(false),
-  isVector: z.boolean().optional().default(false),
-  isIllustration: z.boolean().optional().default(false),
-  userId: z.string().optional(), // Firebase user ID for tracking
-  userDisplayName: z.string().optional(), // User display name
-  userEmail: z.string().optional(), // User email
-  userPhotoURL: z.string().optional() // User photo URL
-});
-
-// Minimal banned words - only AI model names that shouldn't appear in content
-const BAN = new Set([
-  'gemini','mistral' // AI model names that shouldn't appear in generated content
-]);
 const MIN_LEN = 3;
-const stemLite = (s: string) => s.replace(/(ing|ers|es|s)$/,'');
 const AUTO_KEYWORD_CAP = 35;
-const STOPWORDS = new Set([
-  'a','an','and','are','as','at','be','by','for','from','in','into','is','it','of','on','or','out','the','to','with'
-]);
-
-// Common brand/IP names to detect
-const COMMON_BRANDS = new Set([
-  'apple', 'google', 'microsoft', 'amazon', 'facebook', 'meta', 'twitter', 'x', 'instagram',
-  'youtube', 'netflix', 'disney', 'nike', 'adidas', 'coca-cola', 'pepsi', 'starbucks',
-  'mcdonalds', 'burger king', 'toyota', 'honda', 'ford', 'tesla', 'bmw', 'mercedes',
-  'samsung', 'sony', 'nintendo', 'playstation', 'xbox', 'iphone', 'ipad', 'android',
-  'windows', 'macos', 'linux', 'adobe', 'photoshop', 'illustrator'
-]);
-
-// Style reference patterns
-const STYLE_REF_PATTERNS = [
-  /in the style of/i,
-  /inspired by/i,
-  /influenced by/i,
-  /similar to/i,
-  /like\s+(?:the\s+)?(?:movie|film|comic|book|game|franchise)/i,
-  /drawing on/i,
-  /in the tradition of/i
-];
-
-// Generic keywords that shouldn't dominate first 10
-const GENERIC_KEYWORDS = new Set([
-  'design', 'graphic', 'element', 'item', 'object', 'thing', 'image', 'photo', 'picture',
-  'illustration', 'vector', 'icon', 'symbol', 'pattern', 'background', 'texture'
-]);
 
 // Helper to safely escape user-provided strings for use in RegExp
 const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-// Strict title cap that tries to keep a clean ending within the max length.
-function strictTrimTitleToMax(input: string, max: number): string {
-  let t = String(input || '').trim().replace(/\s+/g, ' ');
-  if (t.length <= max) return t;
-
-  const slice = t.slice(0, max).trimEnd();
-
-  // Prefer ending at a sentence boundary within the limit.
-  for (let i = slice.length; i >= Math.max(0, Math.floor(max * 0.7)); i--) {
-    const c = slice[i - 1];
-    if (c === '.' || c === '!' || c === '?') {
-      return slice.slice(0, i).trimEnd();
-    }
-  }
-
-  // Otherwise, end at the last word boundary.
-  const lastSpace = slice.lastIndexOf(' ');
-  t = (lastSpace > Math.floor(max * 0.6) ? slice.slice(0, lastSpace) : slice).trimEnd();
-
-  // Cleanup: remove trailing punctuation and dangling connector words.
-  for (let i = 0; i < 5; i++) {
-    const before = t;
-    t = t.replace(/[,\-–—:;]+$/g, '').trimEnd();
-    t = t.replace(/\b(by|with|and|or|of|to|for|from|in|on|at|into|as)$/i, '').trimEnd();
-    if (t === before) break;
-  }
-
-  // Final safety: ensure we don't exceed max after trimming (shouldn't happen, but keep safe).
-  if (t.length > max) t = t.slice(0, max).trimEnd();
-  return t;
-}
-
-// Adobe Stock title validation
-function validateAdobeTitle(title: string, expectedLen: number): { warnings: string[]; errors: string[] } {
-  const warnings: string[] = [];
-  const errors: string[] = [];
-  const titleLower = title.toLowerCase();
-  
-  // 1. Length warning for Adobe (recommend ≤70, but allow up to 200)
-  if (title.length > 70) {
-    warnings.push(`Title exceeds Adobe's recommended 70 characters (${title.length} chars). Adobe recommends ≤70 for optimal performance.`);
-  }
-  
-  // 2. Check for keyword list format (too many commas/semicolons)
-  const commaCount = (title.match(/,/g) || []).length;
-  const semicolonCount = (title.match(/;/g) || []).length;
-  if (commaCount > 3 || semicolonCount > 1) {
-    // Downgraded to a warning so it never blocks generation
-    warnings.push(
-      'Title appears to be a keyword list (too many commas/semicolons). Adobe requires descriptive phrases, not tag dumps. Use no more than 3 commas and at most 1 semicolon.'
-    );
-  }
-  
-  // 3. Detect style references
-  for (const pattern of STYLE_REF_PATTERNS) {
-    if (pattern.test(title)) {
-      errors.push('Title contains style reference (e.g., "in the style of", "inspired by"). Adobe prohibits referencing other creative works.');
-      break;
-    }
-  }
-  
-  // 4. Detect third-party IP (brand names)
-  const titleWords = titleLower.split(/\W+/).filter(w => w.length > 2);
-  const foundBrands = titleWords.filter(w => COMMON_BRANDS.has(w));
-  if (foundBrands.length > 0) {
-    errors.push(`Title contains third-party IP/brand names: ${foundBrands.join(', ')}. Adobe prohibits brand/product names.`);
-  }
-  
-  // 5. Detect person/artist names (basic pattern - capitalized words that look like names)
-  // This is a simple heuristic - could be improved
-  const words = title.split(/\s+/);
-  const capitalizedWords = words.filter(w => /^[A-Z][a-z]+$/.test(w) && w.length > 3);
-  if (capitalizedWords.length > 2 && !title.match(/^[A-Z]/)) {
-    // Multiple capitalized words in middle of sentence might be names
-    warnings.push('Title may contain person/artist names. Adobe prohibits names of real people, artists, or fictional characters.');
-  }
-  
-  return { warnings, errors };
-}
-
-// Adobe Stock keyword validation
-function validateAdobeKeywords(keywords: string[], title: string): { warnings: string[]; errors: string[] } {
-  const warnings: string[] = [];
-  const errors: string[] = [];
-  
-  if (!Array.isArray(keywords) || keywords.length === 0) {
-    return { warnings, errors };
-  }
-  
-  // 1. Check for combined phrases (keywords with multiple descriptors)
-  const combinedPhrases: string[] = [];
-  keywords.forEach(kw => {
-    const words = kw.toLowerCase().split(/\s+/);
-    // If keyword has 3+ words and contains adjectives, it's likely a combined phrase
-    if (words.length >= 3) {
-      combinedPhrases.push(kw);
-    }
-  });
-  if (combinedPhrases.length > 0) {
-    warnings.push(`Found combined phrases in keywords (should be split): ${combinedPhrases.slice(0, 3).join(', ')}. Adobe requires individual words, not combined descriptors.`);
-  }
-  
-  // 2. Check first 10 keywords for too many generic terms
-  const first10 = keywords.slice(0, 10);
-  const genericCount = first10.filter(k => GENERIC_KEYWORDS.has(k.toLowerCase())).length;
-  if (genericCount > 3) {
-    warnings.push(`First 10 keywords contain too many generic terms (${genericCount}). Adobe emphasizes first keywords are most important - use specific, descriptive terms.`);
-  }
-  
-  // 3. Detect third-party IP in keywords
-  const lowerKeywords = keywords.map(k => k.toLowerCase());
-  const foundBrands = lowerKeywords.filter(k => {
-    const words = k.split(/\W+/);
-    return words.some(w => COMMON_BRANDS.has(w));
-  });
-  if (foundBrands.length > 0) {
-    errors.push(`Keywords contain third-party IP/brand names: ${foundBrands.join(', ')}. Adobe prohibits brand/product names.`);
-  }
-  
-  // 4. Basic person name detection (simple heuristic)
-  const namePattern = /^[A-Z][a-z]+\s+[A-Z][a-z]+$/;
-  const possibleNames = keywords.filter(k => namePattern.test(k));
-  if (possibleNames.length > 0) {
-    errors.push(`Keywords may contain person names: ${possibleNames.join(', ')}. Adobe prohibits personal names.`);
-  }
-  
-  // 5. Language consistency (basic check - look for mixed character sets)
-  // This is a simple heuristic - could be improved with a proper language detection library
-  const hasNonLatin = keywords.some(k => /[^\x00-\x7F]/.test(k));
-  const allLatin = keywords.every(k => /^[\x00-\x7F]+$/.test(k));
-  if (hasNonLatin && !allLatin) {
-    warnings.push('Keywords appear to contain mixed languages. Adobe requires all metadata in one language.');
-  }
-  
-  return { warnings, errors };
-}
-
-// Response validation
-function validateResponse(
-  title: string,
-  description: string,
-  keywords: string[],
-  expectedTitleLen: number,
-  expectedKeywordCount: number | undefined,
-  filename: string,
-  hasImage: boolean,
-  platform: 'general' | 'adobe' | 'shutterstock'
-): { valid: boolean; issues: string[]; warnings?: string[] } {
-  const issues: string[] = [];
-  const warnings: string[] = [];
-  
-  // Title validation
-  if (!title || title.trim().length === 0) {
-    issues.push('Title is empty');
-  } else {
-    const hardMax = 200;
-    
-    // Check against hard 200 limit only
-    if (title.length > hardMax) {
-      issues.push(`Title too long: ${title.length} chars (max ${hardMax})`);
-    }
-    
-    if (title.length < 5) {
-      issues.push(`Title too short: ${title.length} chars (min 5)`);
-    }
-    
-    // Check for banned words in title (whole word matching only) - only gemini/mistral
-    const titleLower = title.toLowerCase();
-    const titleWords = titleLower.split(/\W+/).filter(w => w.length > 0);
-    const titleWordsSet = new Set(titleWords);
-    for (const banned of BAN) {
-      if (titleWordsSet.has(banned)) {
-        issues.push(`Title contains banned word: "${banned}"`);
-      }
-    }
-    
-    // Adobe-specific title validation
-    if (platform === 'adobe') {
-      const adobeValidation = validateAdobeTitle(title, expectedTitleLen);
-      warnings.push(...adobeValidation.warnings);
-      issues.push(...adobeValidation.errors);
-    }
-  }
-  
-  // Description validation
-  if (!description || description.trim().length === 0) {
-    issues.push('Description is empty');
-  } else if (description.length > 150) {
-    issues.push(`Description too long: ${description.length} chars (max 150)`);
-  }
-  
-  // Keywords validation
-  if (!Array.isArray(keywords)) {
-    issues.push('Keywords is not an array');
-  } else {
-    if (typeof expectedKeywordCount === 'number' && keywords.length !== expectedKeywordCount) {
-      issues.push(`Keyword count mismatch: ${keywords.length} (expected ${expectedKeywordCount})`);
-    }
-    // Check for banned keywords (only gemini/mistral)
-    const bannedKeywords = keywords.filter(k => BAN.has(k.toLowerCase()));
-    if (bannedKeywords.length > 0) {
-      issues.push(`Keywords contain banned words: ${bannedKeywords.join(', ')}`);
-    }
-    // Check for duplicates
-    const lowerKeywords = keywords.map(k => k.toLowerCase());
-    const duplicates = lowerKeywords.filter((k, i) => lowerKeywords.indexOf(k) !== i);
-    if (duplicates.length > 0) {
-      issues.push(`Duplicate keywords found: ${[...new Set(duplicates)].join(', ')}`);
-    }
-    
-    // Adobe-specific keyword validation
-    if (platform === 'adobe') {
-      const adobeKeywordValidation = validateAdobeKeywords(keywords, title);
-      warnings.push(...adobeKeywordValidation.warnings);
-      issues.push(...adobeKeywordValidation.errors);
-    }
-  }
-  
-  // Quality check: filename-based title when image is provided
-  if (hasImage && title && isFilenameBased(title, filename)) {
-    issues.push('Title appears filename-based despite image being provided');
-  }
-  
-  return { valid: issues.length === 0, issues, warnings: warnings.length > 0 ? warnings : undefined };
-}
-
-function normalizeKeywords(input: any, needed: number | undefined, seeds: string[], extraBlock: string[] = []) {
+function normalizeKeywords(
+  input: any,
+  needed: number | undefined,
+  seeds: string[],
+  dictionary: TermDictionary,
+  extraBlock: string[] = [],
+  language: Language = 'en',
+  allowPluralVariants = false
+) {
   const arr = Array.isArray(input) ? input : [];
-  const block = new Set([...BAN, ...extraBlock.map(s => s.toLowerCase())]);
+  const block = new Set(extraBlock.map(s => s.toLowerCase()));
+  const { minKeywordLength, stopwords } = LANGUAGES[language];
   const seen = new Set<string>();
   const out: string[] = [];
   
   const push = (raw: string) => {
     let k = String(raw).toLowerCase().trim();
-    if (!k || k.length < MIN_LEN) return;
-    if (block.has(k)) return;
-    if (!/[a-z]/.test(k)) return;
-    if (STOPWORDS.has(k)) return;
-    const stem = stemLite(k);
-    if (seen.has(stem)) return;
-    seen.add(stem);
+    if (!k || k.length < minKeywordLength) return;
+    if (block.has(k) || dictionary.has('banned', k)) return;
+    if (!/\p{L}/u.test(k)) return;
+    if (stopwords.has(k)) return;
+    const key = keywordKey(k, language, allowPluralVariants);
+    if (seen.has(key)) return;
+    seen.add(key);
     out.push(k);
   };
   
@@ -338,7 +64,95 @@ function normalizeKeywords(input: any, needed: number | undefined, seeds: string
   return typeof needed === 'number' ? out.slice(0, needed) : out;
 }
 
+type StreamFormat = 'ndjson' | 'sse';
+
+// Streaming is opt-in: ?stream=ndjson|sse, or an Accept header of application/x-ndjson / text/event-stream
+function streamFormat(req: NextRequest): StreamFormat | null {
+  const param = req.nextUrl.searchParams.get('stream');
+  if (param === 'ndjson' || param === 'sse') return param;
+  const accept = req.headers.get('accept') || '';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  if (accept.includes('text/event-stream')) return 'sse';
+  return null;
+}
+
+/**
+ * Stream each row as it finishes instead of one JSON body at the end.
+ * Events: row {index, row} per file, then done {total, completed}; error {message} if the batch fails.
+ * Rows already sent survive a timeout or dropped connection.
+ */
+function streamRows(
+  req: NextRequest,
+  format: StreamFormat,
+  total: number,
+  run: () => Promise<void>,
+  subscribe: (listener: (index: number, row: any) => void) => void,
+  log: Logger,
+  correlationId: string
+): Response {
+  const encoder = new TextEncoder();
+  let completed = 0;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (type: 'row' | 'done' | 'error', data: Record<string, any>) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(
+            format === 'sse'
+              ? `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+              : `${JSON.stringify({ type, ...data })}\n`
+          ));
+        } catch {
+          // Client went away; remaining files are cancelled through req.signal
+          closed = true;
+        }
+      };
+
+      // SSE comments keep proxies from closing an idle connection during slow generations
+      const heartbeat = format === 'sse'
+        ? setInterval(() => {
+            if (closed) return;
+            try { controller.enqueue(encoder.encode(': heartbeat\n\n')); } catch { closed = true; }
+          }, 15000)
+        : undefined;
+      req.signal.addEventListener('abort', () => { closed = true; });
+
+      subscribe((index, row) => {
+        completed++;
+        send('row', { index, row });
+      });
+
+      try {
+        await run();
+        send('done', { total, completed });
+      } catch (error: any) {
+        log.error('Generate stream failed', { error });
+        send('error', { message: error?.message || 'Failed to generate metadata' });
+      } finally {
+        if (heartbeat) clearInterval(heartbeat);
+        if (!closed) {
+          try { controller.close(); } catch { /* already closed */ }
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Request-Id': correlationId
+    }
+  });
+}
+
 export async function POST(req: NextRequest) {
+  // Correlation ID for every log line of this request (echoed back as X-Request-Id)
+  const correlationId = req.headers.get('x-request-id')?.slice(0, 64) || nanoid(12);
+  const log = logger.child({ correlationId, route: '/api/generate' });
   try {
     // Extract bearer token, but only use it if it's not empty
     const authHeader = req.headers.get('authorization');
@@ -349,27 +163,108 @@ export async function POST(req: NextRequest) {
     // Server-side Firestore requires Firebase Admin SDK, which we'll skip for now
     // Client can call a separate tracking endpoint if needed
     
-    // Debug logging (always log in development, also log key issues in production)
-    console.log(`🔍 API Request - Bearer token provided: ${bearerToken ? 'YES' : 'NO'}`);
-    if (bearerToken) {
-      console.log(`🔍 API Request - Bearer token length: ${bearerToken.length}`);
-      console.log(`🔍 API Request - Bearer token preview: ${bearerToken.length > 8 ? `${bearerToken.substring(0, 4)}...${bearerToken.substring(bearerToken.length - 4)}` : '***'}`);
+    const parse = GenerateRequestSchema.safeParse(await req.json());
+    if (!parse.success) {
+      log.warn('Invalid generate request', { issues: parse.error.issues.map(i => `${i.path.join('.')}: ${i.message}`) });
+      return NextResponse.json({ message: 'bad_request' }, { status: 400, headers: { 'X-Request-Id': correlationId } });
     }
-    console.log(`🔍 API Request - Env var GEMINI_API_KEY exists: ${!!process.env.GEMINI_API_KEY}`);
-    if (process.env.GEMINI_API_KEY) {
-      const envKeyLen = process.env.GEMINI_API_KEY.length;
-      console.log(`🔍 API Request - Env var GEMINI_API_KEY length: ${envKeyLen}`);
-      console.log(`🔍 API Request - Env var preview: ${envKeyLen > 8 ? `${process.env.GEMINI_API_KEY.substring(0, 4)}...${process.env.GEMINI_API_KEY.substring(envKeyLen - 4)}` : '***'}`);
+
+    if (parse.data.promptVersion && !PROMPT_BUILDERS[parse.data.promptVersion]) {
+      log.warn('Unknown prompt version', { promptVersion: parse.data.promptVersion });
+      return NextResponse.json({ message: 'unknown_prompt_version' }, { status: 400, headers: { 'X-Request-Id': correlationId } });
     }
-    const parse = Body.safeParse(await req.json());
-    if (!parse.success) return NextResponse.json({ message: 'bad_request' }, { status: 400 });
 
-    const a = parse.data;
+    // Clamp lengths to the selected agency's limits before anything else uses them
+    const a = applyPlatformLimits(parse.data);
+    const descMax = Math.min(a.descLen, PLATFORMS[a.platform].limits.descMax);
+    const dictionary = new TermDictionary(a.dictionary); // built-in + the user's custom term lists
+    const targetCount = a.keywordMode === 'fixed' ? a.keywordCount : AUTO_KEYWORD_CAP;
+    const allowPluralVariants = PLATFORMS[a.platform].allowPluralVariants ?? false;
+    // Translate mode writes English first; every other requested language is a translated copy
+    const sourceLanguage: Language = a.languageMode === 'translate' ? 'en' : a.language;
+    const translateTo = dedupe([a.language, ...a.extraLanguages]).filter(l => l !== sourceLanguage);
+    const provider = getProvider(a.model.provider);
+    log.info('Generate request', {
+      provider: a.model.provider,
+      platform: a.platform,
+      language: a.language,
+      translateTo,
+      files: a.files.length,
+      keySource: bearerToken ? 'header' : 'env'
+    });
     const rows: any[] = [];
+    // Set in streaming mode: each finished row is written out as soon as it's ready
+    let onRow: ((index: number, row: any) => void) | undefined;
+    const emit = (index: number, row: any) => {
+      rows.push(row);
+      onRow?.(index, row);
+    };
+    // Provider-reported spend for the batch, checked against the optional budget. The client sends
+    // one file per request, so it passes the batch's earlier spend (budgetSpentUsd); calls in flight
+    // hold an estimate until their cost is known, so concurrent files can't all pass the check at once
+    const modelId = modelIdFor(a.model.provider, a);
+    let spentUsd = a.budgetSpentUsd ?? 0;
+    let reservedUsd = 0;
+    const reserveBudget = (imageData: string | undefined) => {
+      if (!a.budgetUsd) return 0;
+      const estimate = estimateFileCost(modelId, imageData);
+      reservedUsd += estimate;
+      return estimate;
+    };
+    // Files the client cancelled (Stop / closed connection) are marked cancelled, not failed
+    const cancelledRow = (name: string, ext: string, effType: string) => ({
+      filename: name,
+      platform: platformLabel(a.platform),
+      title: '',
+      description: '',
+      keywords: [],
+      assetType: effType,
+      extension: ext,
+      cancelled: true
+    });
+
+    // Length limits, keyword cleanup and platform rules for a translated copy, in its own language
+    const finishTranslation = (
+      meta: { title: string; description: string; keywords: string[] },
+      language: Language,
+      filename: string,
+      hasImage: boolean
+    ): RowTranslation => {
+      const limits = PLATFORMS[a.platform].limits;
+      const title = strictTrimTitleToMax(dictionary.remove(['banned'], meta.title) || meta.title, a.titleLen);
+      const description = meta.description.length > descMax ? truncateByChars(meta.description, descMax, 0, descMax) : meta.description;
+      const keywords = normalizeKeywords(meta.keywords, targetCount, [], dictionary, a.negativeKeywords, language, allowPluralVariants);
+      const { metadata, issues } = validateMetadata(
+        a.platform,
+        { title, description, keywords },
+        {
+          filename,
+          hasImage,
+          expectedKeywordCount: a.keywordMode === 'fixed' ? a.keywordCount : undefined,
+          limits: { ...limits, titleMax: Math.min(a.titleLen, limits.titleMax) },
+          dictionary,
+          language
+        }
+      );
+      return {
+        ...metadata,
+        // The translation keeps the source order, which was already ranked
+        keywords: rankKeywords(metadata.keywords, { title: metadata.title, modelKeywords: metadata.keywords, language }),
+        ...(issues.length > 0 ? { validation: issues } : {})
+      };
+    };
 
-    const handleOne = async (f: {name:string; type:string; url:string; ext?:string; imageData?:string}) => {
+    const handleOne = async (f: {name:string; type:string; url:string; ext?:string; imageData?:string; existingMetadata?: ModelArgs['existingMetadata']}, index: number) => {
       const ext = (f.ext || f.name.split('.').pop() || '').toLowerCase();
       const effType = a.assetType === 'auto' ? inferAsset(ext) : a.assetType;
+      // Same ID as the file's retry events, so logs and retry status can be matched up
+      const requestId = retryTracker.generateRequestId(f.name, a.retryBatchId);
+      const fileLog = log.child({ requestId, file: f.name });
+
+      if (req.signal.aborted) {
+        emit(index, cancelledRow(f.name, ext, effType));
+        return;
+      }
 
       // Use imageData from request body (already base64 encoded from client)
       let imageData: string | undefined = f.imageData;
@@ -382,30 +277,30 @@ export async function POST(req: NextRequest) {
           // Validate image data length is reasonable (warn if very large)
           const imageSizeKB = Math.round(imageData.length / 1024);
           if (imageSizeKB > 2000) {
-            console.warn(`⚠ Large image detected (${imageSizeKB}KB). Gemini has 20MB limit for inline data.`);
+            fileLog.warn('Large image; Gemini accepts up to 20MB of inline data', { imageSizeKB });
           }
           
           // Validate format matches expected pattern
           if (!imageData.match(/^data:image\/(png|jpeg|jpg|webp);base64,/)) {
-            console.warn(`⚠ Image data format may be unexpected: ${imageData.substring(0, 50)}`);
+            fileLog.warn('Unexpected image data format', { mimePrefix: imageData.substring(0, 30) });
           }
           
-          console.log(`✓ Using client-provided image data for ${f.name} (${imageSizeKB}KB base64 encoded)`);
+          fileLog.debug('Using client-provided image data', { imageSizeKB });
         } else {
-          console.warn(`⚠ No image data provided for ${f.name} (expected base64 data)`);
+          fileLog.warn('No image data provided (expected base64 data)');
         }
       } else if (videoExts.includes(ext)) {
         if (imageData) {
           // Validate video frame data
           const imageSizeKB = Math.round(imageData.length / 1024);
-          console.log(`✓ Using extracted video frame for ${f.name} (${imageSizeKB}KB base64 encoded)`);
+          fileLog.debug('Using extracted video frame', { imageSizeKB });
           
           // Validate format matches expected pattern
           if (!imageData.match(/^data:image\/(jpeg|jpg);base64,/)) {
-            console.warn(`⚠ Video frame data format may be unexpected: ${imageData.substring(0, 50)}`);
+            fileLog.warn('Unexpected video frame format', { mimePrefix: imageData.substring(0, 30) });
           }
         } else {
-          console.warn(`⚠ No frame data extracted for ${f.name} - will use filename-based generation`);
+          fileLog.warn('No video frame extracted; using filename-based generation');
         }
       } else if (vectorExts.includes(ext)) {
         // Try to convert EPS/AI vector files into PNG previews on the server
@@ -420,13 +315,13 @@ export async function POST(req: NextRequest) {
             imageData = `data:image/png;base64,${base64}`;
 
             const kb = Math.round(pngBuffer.length / 1024);
-            console.log(`✓ Vector preview generated for ${f.name} (${kb}KB PNG with alpha)`);
+            fileLog.debug('Vector preview generated', { previewKB: kb });
           } catch (err) {
-            console.warn(`⚠ Failed to convert vector ${f.name} to PNG preview:`, err);
+            fileLog.warn('Failed to convert vector to PNG preview', { error: err });
           }
         }
       } else {
-        console.log(`ℹ Skipping image load for ${f.name} (not a supported image/video file: ${ext})`);
+        fileLog.debug('Skipping image load for unsupported file type', { ext });
       }
 
       // If this looks like an image/video/vector asset but we don't have imageData,
@@ -438,9 +333,9 @@ export async function POST(req: NextRequest) {
         ['svg', 'eps', 'ai'].includes(ext);
 
       if (expectsVisualAnalysis && !imageData) {
-        rows.push({
+        emit(index, {
           filename: f.name,
-          platform: a.platform === 'adobe' ? 'Adobe Stock' : a.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(a.platform),
           title: '[ERROR] Image analysis failed: No image data available for visual analysis.',
           description: 'No preview image was available for the AI to analyze. Please re-upload, or provide a supported preview/format.',
           keywords: [],
@@ -454,7 +349,7 @@ export async function POST(req: NextRequest) {
       const args: ModelArgs = {
         platform: a.platform,
         titleLen: a.titleLen,
-        descLen: a.descLen,
+        descLen: descMax,
         keywordMode: a.keywordMode,
         keywordCount: a.keywordMode === 'fixed' ? a.keywordCount : 35,
         assetType: effType as any,
@@ -464,6 +359,9 @@ export async function POST(req: NextRequest) {
         suffix: a.suffix,
         negativeTitle: a.negativeTitle,
         negativeKeywords: a.negativeKeywords,
+        dictionary: a.dictionary,
+        language: sourceLanguage,
+        translateTo: translateTo.length > 0 ? translateTo : undefined,
         preview: a.model.preview, // Deprecated, kept for backward compatibility
         bearer: bearerToken,
         videoHints: a.videoHints,
@@ -474,36 +372,83 @@ export async function POST(req: NextRequest) {
         isIllustration: a.isIllustration || false,
         geminiModel: a.geminiModel,
         mistralModel: a.mistralModel,
-        groqModel: a.groqModel
+        groqModel: a.groqModel,
+        openaiBaseUrl: a.openaiBaseUrl,
+        openaiModel: a.openaiModel,
+        existingMetadata: f.existingMetadata,
+        promptVersion: a.promptVersion,
+        retryBatchId: a.retryBatchId,
+        requestId,
+        signal: req.signal
       };
       
-      // Debug: Log the actual values being used
-      console.log(`🔍 ModelArgs toggle values for ${f.name}:`, {
+      fileLog.debug('Model args', {
         isolatedOnTransparentBackground: args.isolatedOnTransparentBackground,
         isolatedOnWhiteBackground: args.isolatedOnWhiteBackground,
         isVector: args.isVector,
         isIllustration: args.isIllustration
       });
 
-      // Note: generateWithGemini now emits retry events automatically via retryTracker
-      const out = a.model.provider === 'gemini'
-        ? await generateWithGemini(args)
-        : a.model.provider === 'groq'
-        ? await generateWithGroq(args)
-        : await generateWithMistral(args);
+      // Same image + settings + model + prompt version: reuse the earlier result
+      const cacheKey = generationCacheKey(a.model.provider, modelId, args);
+      if (!a.forceRegenerate) {
+        const cached = await getCachedGeneration(cacheKey);
+        if (cached) {
+          fileLog.info('Generation cache hit; skipping model call');
+          emit(index, { ...cached, filename: f.name, cached: true, providerCalls: 0 });
+          return;
+        }
+      }
+
+      // Checked after the cache (hits are free), with no await before the reservation below
+      if (a.budgetUsd && spentUsd + reservedUsd >= a.budgetUsd) {
+        const budgetError = `Batch budget of ${formatUsd(a.budgetUsd)} reached (${formatUsd(spentUsd)} spent); file skipped`;
+        emit(index, {
+          filename: f.name,
+          platform: platformLabel(a.platform),
+          title: `[ERROR] ${budgetError}`,
+          description: 'Raise the batch budget to process the remaining files.',
+          keywords: [],
+          assetType: effType,
+          extension: ext,
+          error: budgetError
+        });
+        return;
+      }
+
+      const reservation = reserveBudget(imageData);
+      // Note: the Gemini provider emits retry events automatically via retryTracker
+      const out = await provider.generate(args).catch(error => {
+        if (req.signal.aborted) return undefined;
+        throw error;
+      }).finally(() => { reservedUsd -= reservation; });
+      if (!out || req.signal.aborted) {
+        fileLog.info('Cancelled by the client');
+        emit(index, cancelledRow(f.name, ext, effType));
+        return;
+      }
+      // Row usage, cost and provider calls cover the generate call plus any translations below
+      let usage = out.usage;
+      let providerCalls = 1;
+      spentUsd += costOf(modelId, out.usage) || 0;
+      const accounting = () => {
+        const cost = costOf(modelId, usage);
+        return { providerCalls, ...(usage ? { usage, ...(cost !== undefined ? { cost } : {}) } : {}) };
+      };
 
       // Check for errors first
       if (out.error) {
-        console.error(`❌ Error for ${f.name}: ${out.error}`);
-        rows.push({
+        fileLog.error('Generation failed', { error: out.error });
+        emit(index, {
           filename: f.name,
-          platform: a.platform === 'adobe' ? 'Adobe Stock' : a.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(a.platform),
           title: `[ERROR] ${out.error}`,
           description: 'Image analysis failed. Please check your API key and try again.',
           keywords: [],
           assetType: effType,
           extension: ext,
-          error: out.error
+          error: out.error,
+          ...accounting()
         });
         return; // Skip to next file
       }
@@ -513,11 +458,11 @@ export async function POST(req: NextRequest) {
       
       // Validate: reject filename-based titles when image is provided
       if (imageData && title && isFilenameBased(title, f.name)) {
-        console.warn(`⚠ Title "${title}" appears to be filename-based, but image was provided.`);
+        fileLog.warn('Title appears to be filename-based although an image was provided', { title });
         // Return error instead of using fallback
-        rows.push({
+        emit(index, {
           filename: f.name,
-          platform: a.platform === 'adobe' ? 'Adobe Stock' : a.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(a.platform),
           title: '[ERROR] Image analysis failed: Generated title appears to be based on filename, not image content.',
           description: 'The AI may not have analyzed the image properly. Please check your API key and image format.',
           keywords: [],
@@ -531,9 +476,9 @@ export async function POST(req: NextRequest) {
       if (!title) {
         if (imageData) {
           // Return error instead of generic fallback
-          rows.push({
+          emit(index, {
             filename: f.name,
-            platform: a.platform === 'adobe' ? 'Adobe Stock' : a.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(a.platform),
             title: '[ERROR] Image analysis failed: No title generated.',
             description: 'The AI did not generate a title despite image being provided. Please check your API key.',
             keywords: [],
@@ -548,19 +493,14 @@ export async function POST(req: NextRequest) {
         }
       }
       // Auto-remove banned words from title (before length check)
-      const titleWordsArray = title.split(/\s+/);
-      const cleanedTitleWords = titleWordsArray.filter(word => {
-        const wordLower = word.toLowerCase().replace(/[^\w]/g, ''); // Remove punctuation for comparison
-        return !BAN.has(wordLower);
-      });
-      let cleanedTitle = cleanedTitleWords.join(' ').trim();
+      const cleanedTitle = dictionary.remove(['banned'], title);
       
       if (cleanedTitle !== title && cleanedTitle.length > 0) {
-        console.warn(`⚠ Auto-removed banned words from title: "${title}" → "${cleanedTitle}"`);
+        fileLog.debug('Removed banned words from title', { before: title, after: cleanedTitle });
         title = cleanedTitle;
       } else if (cleanedTitle.length === 0 && title.length > 0) {
         // If all words were banned, use fallback
-        console.warn(`⚠ All words in title were banned, using fallback`);
+        fileLog.warn('All title words were banned; using filename fallback');
         const base = filenameHints(f.name).join(' ') || 'commercial stock asset';
         title = base;
       } else {
@@ -578,7 +518,7 @@ export async function POST(req: NextRequest) {
           }
         }
         if (styleRemoved) {
-          console.warn(`⚠ Auto-removed style reference from title for ${f.name}`);
+          fileLog.debug('Removed style reference from title');
         }
       }
 
@@ -586,14 +526,7 @@ export async function POST(req: NextRequest) {
       const titleLower = title.toLowerCase();
       const phrasesToAdd: string[] = [];
       
-      // Log toggle values for debugging
-      console.log(`🔍 Toggle values for ${f.name}:`, {
-        isolatedOnTransparentBackground: a.isolatedOnTransparentBackground,
-        isolatedOnWhiteBackground: a.isolatedOnWhiteBackground,
-        isVector: a.isVector,
-        isIllustration: a.isIllustration
-      });
-      console.log(`🔍 Current title: "${title}"`);
+      fileLog.debug('Title before attribute phrases', { title });
       
       // Post-process title to remove background color mentions when transparent toggle is active
       if (a.isolatedOnTransparentBackground) {
@@ -628,10 +561,10 @@ export async function POST(req: NextRequest) {
         }
         
         if (colorMentionsRemoved) {
-          console.warn(`⚠️ POST-PROCESSING: Removed background color mentions from title for ${f.name}:`, {
+          fileLog.debug('Removed background color mentions from title', {
             original: originalTitle,
             corrected: title,
-            removedColors: removedColors
+            removedColors
           });
         }
         
@@ -648,37 +581,22 @@ export async function POST(req: NextRequest) {
         const hasTransparentBg = /transparent\s+background/i.test(updatedTitleLower);
         const hasIsolatedAlone = /\bisolated\b/i.test(title) && !/isolated\s+on\s+white/i.test(updatedTitleLower);
         
-        console.log(`🔍 Transparent background detection:`, {
-          hasExactPhrase,
-          hasTransparentBg,
-          hasIsolatedAlone,
-          title: title
-        });
+        fileLog.debug('Transparent background detection', { hasExactPhrase, hasTransparentBg, hasIsolatedAlone });
         
         // Only skip if we have the exact phrase - otherwise append to ensure consistency
         if (!hasExactPhrase) {
           phrasesToAdd.push('isolated on transparent background');
-          console.log(`✓ Will add "isolated on transparent background" to title (exact phrase not found)`);
-        } else {
-          console.log(`⚠ Title already contains exact phrase "isolated on transparent background", skipping`);
         }
       } else if (a.isolatedOnWhiteBackground) {
         // Check if title already contains the exact phrase or very similar wording
         const hasExactPhrase = /isolated\s+on\s+white\s+background/i.test(title);
         const hasWhiteBg = /white\s+background/i.test(titleLower) || /on\s+white\s+background/i.test(titleLower);
         
-        console.log(`🔍 White background detection:`, {
-          hasExactPhrase,
-          hasWhiteBg,
-          title: title
-        });
+        fileLog.debug('White background detection', { hasExactPhrase, hasWhiteBg });
         
         // Only skip if we have the exact phrase - otherwise append to ensure consistency
         if (!hasExactPhrase) {
           phrasesToAdd.push('isolated on white background');
-          console.log(`✓ Will add "isolated on white background" to title (exact phrase not found)`);
-        } else {
-          console.log(`⚠ Title already contains exact phrase "isolated on white background", skipping`);
         }
       }
       
@@ -696,16 +614,21 @@ export async function POST(req: NextRequest) {
         }
       }
       
-      // Append phrases if they fit within the title length limit
-      if (phrasesToAdd.length > 0) {
+      // Append phrases if they fit within the title length limit (English only - in other
+      // languages the prompt asks the model to write them, and an English tail would mix languages)
+      if (phrasesToAdd.length > 0 && sourceLanguage === 'en') {
         const phrasesText = phrasesToAdd.join(' ');
         const newTitle = `${title} ${phrasesText}`.trim();
         // Strictly respect the user-selected titleLen
         if (newTitle.length <= a.titleLen) {
           title = newTitle;
-          console.log(`✓ Added file attribute phrases to title: "${phrasesText}"`);
+          fileLog.debug('Added file attribute phrases to title', { phrases: phrasesText });
         } else {
-          console.warn(`⚠ Could not add phrases "${phrasesText}" - would exceed title length limit (${newTitle.length} > ${a.titleLen})`);
+          fileLog.warn('Attribute phrases would exceed the title length limit; not added', {
+            phrases: phrasesText,
+            length: newTitle.length,
+            limit: a.titleLen
+          });
         }
       }
       
@@ -715,22 +638,20 @@ export async function POST(req: NextRequest) {
         // Check if title still contains any background color mentions (should have been removed)
         const stillHasColor = /\b(green|blue|red|yellow|orange|purple|pink|brown|black|gray|grey|colored|coloured)\s+background\b/i.test(title);
         if (stillHasColor) {
-          console.error(`❌ VALIDATION FAILED: Title still contains background color mention despite transparent toggle for ${f.name}: "${title}"`);
+          fileLog.warn('Title still mentions a background color despite the transparent toggle; correcting', { title });
           // Force remove any remaining color mentions
           title = title.replace(/\b(green|blue|red|yellow|orange|purple|pink|brown|black|gray|grey|colored|coloured)\s+background\b/gi, 'transparent background');
           title = title.replace(/\s+/g, ' ').trim();
-          console.log(`🔧 Force-corrected title: "${title}"`);
         }
         
-        // Ensure "isolated" or "transparent background" is present
+        // Ensure "isolated" or "transparent background" is present (other languages get it from the prompt)
         const hasTransparentPhrase = /isolated|transparent\s+background/i.test(title);
-        if (!hasTransparentPhrase) {
-          console.warn(`⚠️ VALIDATION: Title missing "isolated" or "transparent background" phrase for ${f.name}, adding it...`);
+        if (!hasTransparentPhrase && sourceLanguage === 'en') {
+          fileLog.debug('Title missing the transparent background phrase; adding it');
           const phraseToAdd = 'isolated on transparent background';
           const newTitle = `${title} ${phraseToAdd}`.trim();
           if (newTitle.length <= a.titleLen) {
             title = newTitle;
-            console.log(`✓ Added missing transparent background phrase`);
           }
         }
       }
@@ -759,7 +680,7 @@ export async function POST(req: NextRequest) {
       
       // Ensure title strictly respects the user-selected limit (no flexible overflow)
       if (title.length > a.titleLen) {
-        console.warn(`⚠ Title length ${title.length} exceeds limit ${a.titleLen}, trimming to max...`);
+        fileLog.debug('Trimming title to the length limit', { length: title.length, limit: a.titleLen });
         title = strictTrimTitleToMax(title, a.titleLen);
       }
 
@@ -779,15 +700,15 @@ export async function POST(req: NextRequest) {
       }
 
       let description = String(out.description || '').trim();
-      // Strict 150 limit for descriptions (no flexible limit)
-      if (description.length > 150) description = truncateByChars(description, 150, 0, 150);
+      // Strict description limit (150 or the platform's own limit, whichever is lower)
+      if (description.length > descMax) description = truncateByChars(description, descMax, 0, descMax);
 
       // EXACTLY N good keywords - Ensure title words appear in keywords for all platforms
       // Extract title words and ensure they're prioritized
-      const titleWords = title.toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .split(/\s+/)
-        .filter(w => w.length >= MIN_LEN && !BAN.has(w) && !STOPWORDS.has(w));
+      // (Japanese titles don't split into words, so they contribute none)
+      const { spaced, stopwords } = LANGUAGES[sourceLanguage];
+      const titleWords = !spaced ? [] : splitWords(title)
+        .filter(w => w.length >= MIN_LEN && !dictionary.has('banned', w) && !stopwords.has(w));
       
       // Auto-fix combined phrases in keywords (Adobe-specific)
       let rawKeywords = Array.isArray(out.keywords) ? out.keywords : [];
@@ -800,29 +721,32 @@ export async function POST(req: NextRequest) {
           if (words.length >= 3) {
             // Split into individual words, filtering out very short words
             words.forEach(word => {
-              const cleanWord = word.replace(/[^\w]/g, '');
+              const cleanWord = word.replace(/[^\p{L}\p{N}]/gu, '');
               if (cleanWord.length >= MIN_LEN) {
                 splitKeywords.push(cleanWord);
               }
             });
-            console.log(`⚠ Auto-split combined phrase: "${kwStr}" → ${words.filter(w => w.replace(/[^\w]/g, '').length >= MIN_LEN).join(', ')}`);
+            fileLog.debug('Split combined keyword phrase', { phrase: kwStr });
           } else {
             // Keep as-is if 2 words or less
-            splitKeywords.push(kwStr.toLowerCase().replace(/[^\w\s]/g, ' ').trim());
+            splitKeywords.push(kwStr.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').trim());
           }
         });
         rawKeywords = splitKeywords;
       }
+      // The model's own order, used as one ranking signal once the final list is assembled
+      const modelKeywords = rawKeywords.map(k => String(k));
       
       // Prioritize title words for all platforms
-      const seeds = titleWords.concat(filenameHints(f.name)); // Title words first for all platforms
+      // Re-optimize mode: curated keywords from the file come right after title words so they survive
+      const seeds = titleWords.concat(f.existingMetadata?.keywords ?? [], filenameHints(f.name)); // Title words first for all platforms
       
-      const targetCount = a.keywordMode === 'fixed' ? a.keywordCount : AUTO_KEYWORD_CAP;
       const requestedCount = targetCount;
-      let keywords = normalizeKeywords(rawKeywords, requestedCount, seeds, a.negativeKeywords);
+      let keywords = normalizeKeywords(rawKeywords, requestedCount, seeds, dictionary, a.negativeKeywords, sourceLanguage, allowPluralVariants);
       
       // Apply keyword enrichment: add synonyms, related terms, and long-tail keywords
-      if (keywords.length > 0) {
+      // (the synonym and long-tail tables are English, so other languages skip it)
+      if (keywords.length > 0 && sourceLanguage === 'en') {
         // Step 1: Enrich with synonyms and related terms
         keywords = enrichKeywords(keywords, title, a.platform);
         
@@ -856,7 +780,7 @@ export async function POST(req: NextRequest) {
         }
         
         // Re-normalize to ensure no duplicates and proper formatting
-        keywords = normalizeKeywords(keywords, targetCount, seeds, a.negativeKeywords);
+        keywords = normalizeKeywords(keywords, targetCount, seeds, dictionary, a.negativeKeywords, sourceLanguage, allowPluralVariants);
       }
       
       // Post-processing: Filter out filename-based keywords when image is provided
@@ -865,7 +789,7 @@ export async function POST(req: NextRequest) {
         keywords = filterFilenameBasedKeywords(keywords, f.name);
         const removedKeywords = originalKeywords.filter(k => !keywords.includes(k));
         if (removedKeywords.length > 0) {
-          console.warn(`⚠️ POST-PROCESSING: Removed filename-based keywords for ${f.name}:`, removedKeywords);
+          fileLog.debug('Removed filename-based keywords', { removed: removedKeywords });
           // If we removed keywords, try to fill back up to the target count if possible
           if (keywords.length < targetCount) {
             // Use title words that weren't already in keywords
@@ -932,7 +856,7 @@ export async function POST(req: NextRequest) {
         finalKeywords = filterFilenameBasedKeywords(finalKeywords, f.name);
         const removedFinalKeywords = originalFinalKeywords.filter(k => !finalKeywords.includes(k));
         if (removedFinalKeywords.length > 0) {
-          console.warn(`⚠️ POST-PROCESSING: Removed filename-based keywords from final list for ${f.name}:`, removedFinalKeywords);
+          fileLog.debug('Removed filename-based keywords from final list', { removed: removedFinalKeywords });
           // Fill back up to target count if needed
           if (finalKeywords.length < targetCount) {
             const titleWordsForKeywords = titleWords
@@ -949,16 +873,23 @@ export async function POST(req: NextRequest) {
       }
       
       // Validate response quality - now using final processed data
-      const validation = validateResponse(
-        title,
-        description,
-        finalKeywords,
-        a.titleLen,
-        a.keywordMode === 'fixed' ? a.keywordCount : undefined,
-        f.name,
-        !!imageData,
-        a.platform
+      // Platform validation rules (auto-fixes are applied to the returned metadata)
+      const limits = PLATFORMS[a.platform].limits;
+      const validation = validateMetadata(
+        a.platform,
+        { title, description, keywords: finalKeywords },
+        {
+          filename: f.name,
+          hasImage: !!imageData,
+          expectedKeywordCount: a.keywordMode === 'fixed' ? a.keywordCount : undefined,
+          limits: { ...limits, titleMax: Math.min(a.titleLen, limits.titleMax) },
+          dictionary,
+          language: sourceLanguage
+        }
       );
+      ({ title, description } = validation.metadata);
+      // Most relevant first - enrichment and fill-in terms must not push the main subject out of the top 10
+      finalKeywords = rankKeywords(validation.metadata.keywords, { title, modelKeywords, language: sourceLanguage });
       
       // Score title quality
       const qualityScore = scoreTitleQuality(
@@ -969,58 +900,131 @@ export async function POST(req: NextRequest) {
         a.platform
       );
       
-      // Log quality metrics for monitoring (validation errors removed - prompt should prevent issues)
+      // Log quality metrics for monitoring - rows are never rejected, issues are returned with them
       if (validation.issues.length > 0) {
-        console.warn(`⚠ Validation issues for ${f.name}: ${validation.issues.join('; ')}`);
+        fileLog.warn('Validation issues', { issues: validation.issues });
       }
       if (qualityScore.score < 70) {
-        console.warn(`⚠ Low quality title for ${f.name}: Score ${qualityScore.score}/100`);
-        console.warn(`   Issues: ${qualityScore.issues.join(', ')}`);
+        fileLog.warn('Low quality title', { score: qualityScore.score, issues: qualityScore.issues });
       } else {
-        console.log(`✓ Good quality title for ${f.name}: Score ${qualityScore.score}/100`);
+        fileLog.info('Generated metadata', { score: qualityScore.score, keywords: finalKeywords.length });
       }
-      
-      // All responses pass through - validation rejection removed
-      // The enhanced prompt should prevent validation issues from occurring
 
-      rows.push({
-        filename: f.name,
-        platform: a.platform === 'adobe' ? 'Adobe Stock' : a.platform === 'general' ? 'General' : 'Shutterstock',
+      // Translated copies; the source metadata stays as it is when a translation fails
+      const source: RowTranslation = {
         title,
         description,
         keywords: finalKeywords,
+        ...(validation.issues.length > 0 ? { validation: validation.issues } : {})
+      };
+      const translations: Partial<Record<Language, RowTranslation>> = {};
+      const translationIssues: ValidationIssue[] = [];
+      for (const language of translateTo) {
+        const keptOrMissing = language === a.language
+          ? `the ${LANGUAGES[sourceLanguage].label} metadata is kept`
+          : 'that language is missing from the export';
+        if (a.budgetUsd && spentUsd + reservedUsd >= a.budgetUsd) {
+          translationIssues.push({
+            ruleId: 'translation',
+            severity: 'warning',
+            message: `${LANGUAGES[language].label} translation skipped: batch budget of ${formatUsd(a.budgetUsd)} reached (${formatUsd(spentUsd)} spent); ${keptOrMissing}.`,
+            fixApplied: false
+          });
+          continue;
+        }
+        providerCalls++;
+        try {
+          const translated = await provider.translate({
+            metadata: { title, description, keywords: finalKeywords },
+            from: sourceLanguage,
+            to: language,
+            platform: a.platform,
+            titleLen: a.titleLen,
+            descLen: descMax,
+            bearer: bearerToken,
+            geminiModel: a.geminiModel,
+            mistralModel: a.mistralModel,
+            groqModel: a.groqModel,
+            openaiBaseUrl: a.openaiBaseUrl,
+            openaiModel: a.openaiModel,
+            signal: req.signal
+          });
+          usage = sumUsage(usage, translated.usage);
+          spentUsd += costOf(modelId, translated.usage) || 0;
+          translations[language] = finishTranslation(translated, language, f.name, !!imageData);
+        } catch (error: any) {
+          if (req.signal.aborted) {
+            fileLog.info('Cancelled by the client');
+            emit(index, cancelledRow(f.name, ext, effType));
+            return;
+          }
+          fileLog.warn('Translation failed', { language, error });
+          translationIssues.push({
+            ruleId: 'translation',
+            severity: 'warning',
+            message: `${LANGUAGES[language].label} translation failed (${error?.message || 'unknown error'}); ${keptOrMissing}. Use Regenerate to try again.`,
+            fixApplied: false
+          });
+        }
+      }
+
+      // Translate mode shows the translated copy; the English source is dropped
+      const primaryLanguage = translations[a.language] ? a.language : sourceLanguage;
+      const primary = primaryLanguage === sourceLanguage ? source : translations[primaryLanguage]!;
+      delete translations[primaryLanguage];
+      const issues = [...(primary.validation ?? []), ...translationIssues];
+
+      const row = {
+        filename: f.name,
+        platform: platformLabel(a.platform),
+        title: primary.title,
+        description: primary.description,
+        keywords: primary.keywords,
         assetType: effType,
-        extension: ext
-      });
+        extension: ext,
+        ...(primaryLanguage !== 'en' ? { language: primaryLanguage } : {}),
+        ...(Object.keys(translations).length > 0 ? { translations } : {}),
+        ...(issues.length > 0 ? { validation: issues } : {})
+      };
+      // Filename fallbacks and rows with a failed translation are not cached, so the next run retries them
+      if (!out.fallback && translationIssues.length === 0) await cacheGeneration(cacheKey, row, fileLog);
+      emit(index, { ...row, ...accounting() });
     };
 
     // Batch size optimization: process in optimal batches with concurrency limit
     const CONCURRENCY_LIMIT = 3; // Max 3 concurrent API calls
     
-    if (a.singleMode) {
-      // Single mode: process sequentially
-      console.log(`🔄 Single mode: Processing ${a.files.length} files sequentially`);
-      for (const f of a.files) {
-        await handleOne(f);
-      }
-    } else {
-      // Batch mode: process files with concurrency control
-      console.log(`⚡ Batch mode: Processing ${a.files.length} files with concurrency limit of ${CONCURRENCY_LIMIT}`);
-      
-      // Process files in batches with concurrency limit
-      for (let i = 0; i < a.files.length; i += CONCURRENCY_LIMIT) {
-        const batch = a.files.slice(i, i + CONCURRENCY_LIMIT);
-        console.log(`📦 Processing batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}: ${batch.length} files`);
-        await Promise.all(batch.map(f => handleOne(f)));
+    const processAll = async () => {
+      if (a.singleMode) {
+        // Single mode: process sequentially
+        log.debug('Processing files sequentially (single mode)', { files: a.files.length });
+        for (let i = 0; i < a.files.length; i++) {
+          await handleOne(a.files[i], i);
+        }
+      } else {
+        // Batch mode: process files with concurrency control
+        log.debug('Processing files in batches', { files: a.files.length, concurrency: CONCURRENCY_LIMIT });
+        
+        // Process files in batches with concurrency limit
+        for (let i = 0; i < a.files.length; i += CONCURRENCY_LIMIT) {
+          const batch = a.files.slice(i, i + CONCURRENCY_LIMIT);
+          await Promise.all(batch.map((f, j) => handleOne(f, i + j)));
+        }
       }
-    }
+    };
 
     // Note: Generation tracking will be handled client-side
     // The client will call a tracking endpoint after successful generation
 
-    return NextResponse.json({ rows });
+    const format = streamFormat(req);
+    if (format) {
+      return streamRows(req, format, a.files.length, processAll, listener => { onRow = listener; }, log, correlationId);
+    }
+
+    await processAll();
+    return NextResponse.json({ rows }, { headers: { 'X-Request-Id': correlationId } });
   } catch (error: any) {
-    console.error('Generate route error:', error);
+    log.error('Generate route failed', { error });
     return NextResponse.json({ 
       message: error?.message || 'Failed to generate metadata',
       error: error?.stack 
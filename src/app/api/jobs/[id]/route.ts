@@ -0,0 +1,28 @@
+// src/app/api/jobs/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueue, requestOwners } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/jobs/:id - job status with per-file status and result rows (404 for other callers' jobs)
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const job = jobQueue.get(params.id, requestOwners(req.headers));
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+/**
+ * DELETE /api/jobs/:id - cancel remaining files; rows already generated are kept
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const job = jobQueue.cancel(params.id, requestOwners(req.headers));
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,58 @@
+// src/app/api/jobs/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { GenerateRequestSchema } from '@/lib/types';
+import { jobQueue, ownerId, requestOwners, type GenerateFn } from '@/lib/jobs';
+import { POST as generate } from '../generate/route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Jobs call the generate handler in-process: the request's Host header never decides where the key goes
+const runGenerate: GenerateFn = (body, authorization, signal) =>
+  generate(new NextRequest('http://localhost/api/generate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authorization ? { Authorization: authorization } : {})
+    },
+    body: JSON.stringify(body),
+    signal
+  }));
+
+/**
+ * POST /api/jobs
+ *
+ * Enqueue a batch (same body as /api/generate) and return its job ID right away.
+ * Poll GET /api/jobs/:id for progress; DELETE /api/jobs/:id cancels. Both need the same
+ * Authorization header, or (for requests without one) the returned jobToken as X-Job-Token.
+ */
+export async function POST(req: NextRequest) {
+  const parse = GenerateRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parse.success) {
+    return NextResponse.json({ error: parse.error.flatten() }, { status: 400 });
+  }
+  if (parse.data.files.length === 0) {
+    return NextResponse.json({ error: 'No files to process' }, { status: 400 });
+  }
+
+  const authorization = req.headers.get('authorization') || undefined;
+  const jobToken = authorization ? undefined : nanoid(32);
+  const job = jobQueue.create(parse.data, runGenerate, ownerId(authorization ?? jobToken!), authorization);
+  return NextResponse.json(
+    { jobId: job.id, status: job.status, total: job.total, ...(jobToken ? { jobToken } : {}) },
+    { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+  );
+}
+
+/**
+ * GET /api/jobs - the caller's jobs (results omitted; fetch a job for its rows)
+ */
+export async function GET(req: NextRequest) {
+  const owners = requestOwners(req.headers);
+  if (owners.length === 0) {
+    return NextResponse.json({ error: 'Authorization or X-Job-Token header required' }, { status: 401 });
+  }
+  const jobs = jobQueue.list(owners).map(({ files, ...summary }) => summary);
+  return NextResponse.json({ jobs });
+}
@@ -4,17 +4,29 @@ import { retryTracker } from '@/lib/retry-tracker';
 // Force dynamic rendering - this is an SSE endpoint that cannot be statically generated
 export const dynamic = 'force-dynamic';
 
-// Server-Sent Events endpoint for real-time retry updates
+// Server-Sent Events endpoint for real-time retry updates.
+// Scoped to one batch: GET /api/retry-events?batchId=<id>. Reconnects send Last-Event-ID
+// (or ?lastEventId= for manual reconnects) and missed events are replayed.
 export async function GET(req: NextRequest) {
+  const batchId = req.nextUrl.searchParams.get('batchId');
+  if (!batchId) {
+    return new Response(JSON.stringify({ error: 'batchId is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  const lastEventIdRaw = req.headers.get('last-event-id') || req.nextUrl.searchParams.get('lastEventId');
+  const lastEventId = lastEventIdRaw && /^\d+$/.test(lastEventIdRaw) ? parseInt(lastEventIdRaw, 10) : undefined;
+
   // Create a readable stream for SSE
   const stream = new ReadableStream({
     start(controller) {
       const encoder = new TextEncoder();
 
       // Send initial connection message
-      const send = (data: string) => {
+      const send = (data: string, id?: number) => {
         try {
-          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          controller.enqueue(encoder.encode(`${id !== undefined ? `id: ${id}\n` : ''}data: ${data}\n\n`));
         } catch (error) {
           // Connection closed
           console.error('Error sending SSE data:', error);
@@ -23,13 +35,13 @@ export async function GET(req: NextRequest) {
 
       send(JSON.stringify({ type: 'connected' }));
 
-      // Subscribe to retry events - send all events (client will filter by filename)
-      const unsubscribe = retryTracker.subscribe((event) => {
+      // Subscribe to this batch's retry events (replaying any the client missed)
+      const unsubscribe = retryTracker.subscribe(batchId, (event) => {
         send(JSON.stringify({
           type: 'retry-event',
           ...event
-        }));
-      });
+        }), event.id);
+      }, lastEventId);
 
       // Send heartbeat every 30 seconds to keep connection alive
       const heartbeatInterval = setInterval(() => {
@@ -4,21 +4,25 @@ import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import APIControls from '@/components/APIControls';
 import AdvancedMetadataControls from '@/components/AdvancedMetadataControls';
 import FileDrop from '@/components/FileDrop';
-import ResultTable from '@/components/ResultTable';
 import ErrorToastComponent, { type ErrorToast } from '@/components/ErrorToast';
 import Analytics from '@/components/Analytics';
 import CompletionModal, { type CompletionStats } from '@/components/CompletionModal';
-import { toCSV, toPromptCSV } from '@/lib/csv';
-import { getJSON, setJSON, getDecryptedJSON } from '@/lib/util';
+import { toCSV, toPromptCSV, rowLanguages, rowsForLanguage } from '@/lib/csv';
+import { PLATFORMS, platformLabel } from '@/lib/platforms';
+import type { EmbeddableMetadata } from '@/lib/embed-metadata';
+import { getJSON, setJSON, getDecryptedJSON, isAbortError } from '@/lib/util';
 import { trackEvent } from '@/lib/analytics';
 import { scoreTitleQuality } from '@/lib/util';
 import { getSmartDefaults } from '@/lib/smart-defaults';
+import { estimateBatchCost, formatUsd, modelIdFor } from '@/lib/pricing';
 import type { Row } from '@/lib/csv';
-import type { FormState } from '@/lib/types';
+import type { FormState, Language, LanguageMode, Platform, Provider } from '@/lib/types';
 import { fileToBase64WithCompression, isImageFile, isVideoFile } from '@/lib/client-file-util';
 import { retrySSEClient } from '@/lib/retry-sse';
 import { useAuth } from '@/contexts/AuthContext';
 import { keyPoolManager } from '@/lib/key-pool';
+import { recordKeyUsage, type KeyResult } from '@/lib/key-usage';
+import { TermDictionary, getCustomDictionaries, dictionaryPayload } from '@/lib/dictionaries';
 
 type UploadItem = { 
   name: string; 
@@ -29,6 +33,7 @@ type UploadItem = {
   ext: string;
   file?: File; // File object for client-side storage
   base64?: string; // Optional base64 data (lazy loaded)
+  embedded?: EmbeddableMetadata; // Metadata already embedded in the original file
 };
 
 // Estimate the byte size of a base64 data URL (compressed image/frame sent to the AI)
@@ -42,6 +47,12 @@ function estimateDataUrlByteSize(dataUrl: string): number {
   return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
 }
 
+// Strip trademark and banned terms (built-in + custom lists) from finished rows before export
+function cleanRowsForExport(list: Row[]): Row[] {
+  const dictionary = new TermDictionary(getCustomDictionaries());
+  return list.map(r => (r.error || r.cancelled ? r : dictionary.clean(r)));
+}
+
 export default function Page() {
   const [files, setFiles] = useState<UploadItem[]>([]);
   const [rows, setRows] = useState<Row[]>([]);
@@ -50,6 +61,8 @@ export default function Page() {
   const [successCount, setSuccessCount] = useState(0);
   const [failedCount, setFailedCount] = useState(0);
   const shouldStopRef = useRef(false); // Use ref instead of state for synchronous access
+  const batchCostRef = useRef(0); // USD spent by the running batch (for the budget cap)
+  const batchAbortRef = useRef<AbortController | null>(null); // Aborts the running batch's requests on Stop
   const [generatingFiles, setGeneratingFiles] = useState<Set<string>>(new Set());
   const [retryingFiles, setRetryingFiles] = useState<Map<string, { attempt: number; maxAttempts: number; errorType?: string }>>(new Map());
   const [fileToWorkerId, setFileToWorkerId] = useState<Map<string, number>>(new Map());
@@ -63,8 +76,8 @@ export default function Page() {
 
   const [form, setForm] = useState<FormState>({
     uiTab: 'metadata',
-    platform: 'adobe' as 'general' | 'adobe' | 'shutterstock',
-    model: { provider: 'groq' as 'gemini' | 'mistral' | 'groq', preview: false },
+    platform: 'adobe' as Platform,
+    model: { provider: 'groq' as Provider, preview: false },
     geminiModel: 'gemini-2.5-flash' as 'gemini-2.5-flash' | 'gemini-2.5-flash-lite' | undefined,
     mistralModel: undefined as 'mistral-small-latest' | 'mistral-medium-latest' | 'mistral-large-latest' | undefined,
     groqModel: 'meta-llama/llama-4-scout-17b-16e-instruct' as
@@ -80,8 +93,12 @@ export default function Page() {
     suffix: '',
     negativeTitle: [] as string[],
     negativeKeywords: [] as string[],
+    language: 'en' as Language,
+    languageMode: 'native' as LanguageMode,
+    extraLanguages: [] as Language[],
     singleMode: false,
     parallelMode: false,
+    reoptimize: false,
     videoHints: { style: [] as string[], tech: [] as string[] },
     isolatedOnTransparentBackground: false,
     isolatedOnWhiteBackground: false,
@@ -119,6 +136,12 @@ export default function Page() {
     [files, form.isolatedOnTransparentBackground, form.isolatedOnWhiteBackground]
   );
 
+  // Cost estimate shown before processing starts
+  const costEstimate = useMemo(
+    () => estimateBatchCost(modelIdFor(form.model.provider, form), files),
+    [files, form]
+  );
+
   // Helper function to track generation in Firestore
   const trackGenerationInFirestore = async (fileCount: number) => {
     if (!user || fileCount === 0) return;
@@ -165,6 +188,8 @@ export default function Page() {
           geminiModel: updated.geminiModel !== undefined ? updated.geminiModel : prev.geminiModel,
           mistralModel: updated.mistralModel !== undefined ? updated.mistralModel : prev.mistralModel,
           groqModel: updated.groqModel !== undefined ? updated.groqModel : prev.groqModel,
+          openaiBaseUrl: updated.openaiBaseUrl !== undefined ? updated.openaiBaseUrl : prev.openaiBaseUrl,
+          openaiModel: updated.openaiModel !== undefined ? updated.openaiModel : prev.openaiModel,
           model: {
             ...prev.model,
             ...updated.model,
@@ -226,12 +251,15 @@ export default function Page() {
         geminiKeys?: Array<{ id: string; key: string; visible: boolean }>;
         mistralKeys?: Array<{ id: string; key: string; visible: boolean }>;
         groqKeys?: Array<{ id: string; key: string; visible: boolean }>;
-        active?: 'gemini'|'mistral'|'groq';
+        openaiKeys?: Array<{ id: string; key: string; visible: boolean }>;
+        active?: Provider;
         activeKeyId?: string;
         bearer?: string;
         geminiModel?: string;
         mistralModel?: string;
         groqModel?: string;
+        openaiBaseUrl?: string;
+        openaiModel?: string;
       }>('smg_keys_enc', null as any);
       
       if (!enc) {
@@ -253,10 +281,17 @@ export default function Page() {
         handleFormChange(prev => ({ ...prev, groqModel: enc.groqModel as any }));
         console.log(`✅ Loaded Groq model preference: ${enc.groqModel}`);
       }
+      if (enc.openaiBaseUrl || enc.openaiModel) {
+        handleFormChange(prev => ({ ...prev, openaiBaseUrl: enc.openaiBaseUrl, openaiModel: enc.openaiModel }));
+        console.log(`✅ Loaded OpenAI-compatible endpoint: ${enc.openaiModel} @ ${enc.openaiBaseUrl}`);
+      }
       
       // Use the current provider from form state, not stored active
       const currentProvider = form.model.provider;
-      const keys = currentProvider === 'gemini' ? enc.geminiKeys : currentProvider === 'groq' ? enc.groqKeys : enc.mistralKeys;
+      const keys = currentProvider === 'gemini' ? enc.geminiKeys
+        : currentProvider === 'groq' ? enc.groqKeys
+        : currentProvider === 'openai' ? enc.openaiKeys
+        : enc.mistralKeys;
       const activeKeyId = enc.activeKeyId;
       
       // Try to find the active key for current provider
@@ -312,7 +347,7 @@ export default function Page() {
   // Listen for model preference changes (from Header's KeyModal or other sources)
   useEffect(() => {
     const handleModelChange = (event: Event) => {
-      const customEvent = event as CustomEvent<{ provider: 'gemini' | 'mistral' | 'groq'; model: any }>;
+      const customEvent = event as CustomEvent<{ provider: Provider; model: any }>;
       const { provider, model } = customEvent.detail;
       console.log(`📢 Received modelPreferenceChanged event: ${provider} -> ${model}`);
       
@@ -324,6 +359,8 @@ export default function Page() {
             geminiModel?: string;
             mistralModel?: string;
             groqModel?: string;
+            openaiBaseUrl?: string;
+            openaiModel?: string;
           }>('smg_keys_enc', null as any);
           
           if (enc) {
@@ -333,6 +370,9 @@ export default function Page() {
             } else if (provider === 'groq' && enc.groqModel && form.groqModel !== enc.groqModel) {
               console.log(`🔄 Updating groqModel from event: ${form.groqModel} -> ${enc.groqModel}`);
               handleFormChange(prev => ({ ...prev, groqModel: enc.groqModel as any }));
+            } else if (provider === 'openai' && (form.openaiModel !== enc.openaiModel || form.openaiBaseUrl !== enc.openaiBaseUrl)) {
+              console.log(`🔄 Updating OpenAI-compatible endpoint from event: ${enc.openaiModel} @ ${enc.openaiBaseUrl}`);
+              handleFormChange(prev => ({ ...prev, openaiBaseUrl: enc.openaiBaseUrl, openaiModel: enc.openaiModel }));
             } else if (provider === 'mistral' && MISTRAL_ENABLED && enc.mistralModel && form.mistralModel !== enc.mistralModel) {
               console.log(`🔄 Updating mistralModel from event: ${form.mistralModel} -> ${enc.mistralModel}`);
               handleFormChange(prev => ({ ...prev, mistralModel: enc.mistralModel as any }));
@@ -380,7 +420,7 @@ export default function Page() {
       window.removeEventListener('modelPreferenceChanged', handleModelChange);
       window.removeEventListener('storage', handleStorageChange);
     };
-  }, [form.geminiModel, form.mistralModel, form.groqModel, handleFormChange, MISTRAL_ENABLED]);
+  }, [form.geminiModel, form.mistralModel, form.groqModel, form.openaiModel, form.openaiBaseUrl, handleFormChange, MISTRAL_ENABLED]);
 
   // Reset progress-related state when files are cleared
   useEffect(() => {
@@ -400,7 +440,7 @@ export default function Page() {
 
   // Server rehydration removed - files are now stored client-side only
 
-  const onExportCSV = () => {
+  const onExportCSV = async () => {
     const isPromptMode = form.uiTab === 'prompt';
     
     if (isPromptMode) {
@@ -415,18 +455,41 @@ export default function Page() {
       a.remove();
       URL.revokeObjectURL(url);
     } else {
-      const csv = toCSV(rows, form.titleLen, form.descLen, form.keywordCount, form.platform);
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const schema = PLATFORMS[form.platform].export;
+      const finishedRows = rows.filter(r => !r.cancelled); // Cancelled files have no metadata yet
+      const fileName = schema?.fileName ?? 'StockCSV_Gen.csv';
+      const toBlob = async (exportRows: Row[]): Promise<Blob> => {
+        if (schema?.format === 'xlsx') {
+          // Some agencies take spreadsheet uploads instead of CSV
+          const { rowsToPlatformExcel, excelToBlob } = await import('@/lib/excel');
+          return excelToBlob(rowsToPlatformExcel(exportRows, schema));
+        }
+        const csv = toCSV(exportRows, form.titleLen, form.descLen, form.keywordCount, form.platform);
+        return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      };
+
+      // Translated rows: one upload file per language, zipped together
+      const languages = rowLanguages(finishedRows);
+      let blob: Blob;
+      let downloadName = fileName;
+      if (languages.length > 1) {
+        const JSZip = (await import('jszip')).default;
+        const zip = new JSZip();
+        const dot = fileName.lastIndexOf('.');
+        for (const language of languages) {
+          const exportRows = cleanRowsForExport(rowsForLanguage(finishedRows, language));
+          zip.file(`${fileName.slice(0, dot)}-${language}${fileName.slice(dot)}`, await toBlob(exportRows));
+        }
+        blob = await zip.generateAsync({ type: 'blob' });
+        downloadName = `${fileName.slice(0, dot)}-${languages.join('-')}.zip`;
+        console.log(`🌐 Exported ${languages.length} languages: ${languages.join(', ')}`);
+      } else {
+        blob = await toBlob(cleanRowsForExport(finishedRows));
+      }
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      const filename =
-        form.platform === 'adobe'
-          ? 'StockCSV_Adobe.csv'
-          : form.platform === 'shutterstock'
-            ? 'StockCSV_ShutterStock.csv'
-            : 'StockCSV_Gen.csv';
-      a.download = filename;
+      a.download = downloadName;
       document.body.appendChild(a);
       a.click();
       a.remove();
@@ -434,6 +497,70 @@ export default function Page() {
     }
   };
 
+  // Files dropped with existing IPTC/XMP metadata show up as rows straight away
+  const onImportEmbedded = (items: UploadItem[]) => {
+    setRows(prev => {
+      const imported: Row[] = items
+        .filter(i => i.embedded && !prev.some(r => r.filename === i.name))
+        .map(i => ({
+          filename: i.name,
+          platform: platformLabel(form.platform),
+          title: i.embedded!.title,
+          description: i.embedded!.description,
+          keywords: i.embedded!.keywords,
+          assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
+          extension: i.ext
+        }));
+      return [...prev, ...imported];
+    });
+    setError({
+      id: Date.now().toString(),
+      message: `Imported existing metadata from ${items.length} file${items.length !== 1 ? 's' : ''}. Enable "Re-optimize existing metadata" to improve it instead of replacing it.`,
+      severity: 'info',
+      duration: 5000
+    });
+  };
+
+  // Restore a previous batch from one of our CSV/XLSX exports (or an Adobe/Shutterstock upload file)
+  const onImportMetadata = async (file: File) => {
+    try {
+      const { importMetadataFile } = await import('@/lib/import-metadata');
+      const result = await importMetadataFile(file, form.platform);
+
+      if (result.rows.length === 0) {
+        setError({
+          id: Date.now().toString(),
+          message: `No rows found in ${file.name}.`,
+          severity: 'warning',
+          duration: 5000
+        });
+        return;
+      }
+
+      // Imported rows replace existing rows with the same filename
+      setRows(prev => {
+        const importedNames = new Set(result.rows.map(r => r.filename));
+        return [...prev.filter(r => !importedNames.has(r.filename)), ...result.rows];
+      });
+
+      const formatName = result.format === 'app' ? 'app export' : `${PLATFORMS[result.format].label} format`;
+      setError({
+        id: Date.now().toString(),
+        message: `Imported ${result.rows.length} row${result.rows.length !== 1 ? 's' : ''} from ${file.name} (${formatName})${result.skipped > 0 ? `, skipped ${result.skipped} without a filename` : ''}.`,
+        severity: 'info',
+        duration: 5000
+      });
+    } catch (error: any) {
+      console.error('Failed to import metadata file:', error);
+      setError({
+        id: Date.now().toString(),
+        message: error?.message || 'Failed to import file. Please check it is a CSV or XLSX export.',
+        severity: 'error',
+        duration: 5000
+      });
+    }
+  };
+
   const onExportZIP = async () => {
     // ZIP export is only available in metadata mode
     if (form.uiTab === 'prompt') {
@@ -448,7 +575,7 @@ export default function Page() {
     
     try {
       // Filter out rows with errors
-      const validRows = rows.filter(r => !r.error);
+      const validRows = cleanRowsForExport(rows.filter(r => !r.error && !r.cancelled));
 
       if (validRows.length === 0) {
         setError({
@@ -512,6 +639,135 @@ export default function Page() {
     }
   };
 
+  const onExportEmbedded = async () => {
+    if (form.uiTab === 'prompt') {
+      setError({
+        id: Date.now().toString(),
+        message: 'Embedded metadata export is only available in Metadata mode.',
+        severity: 'info',
+        duration: 3000
+      });
+      return;
+    }
+
+    try {
+      const { canEmbedMetadata, embedMetadata } = await import('@/lib/embed-metadata');
+
+      // Only completed rows whose original file is still in memory and is a format we can write into
+      const targets = cleanRowsForExport(rows)
+        .filter(r => !r.error && !r.cancelled && canEmbedMetadata(r.extension))
+        .map(r => ({ row: r, file: files.find(f => f.name === r.filename)?.file }))
+        .filter((t): t is { row: Row; file: File } => !!t.file);
+
+      if (targets.length === 0) {
+        setError({
+          id: Date.now().toString(),
+          message: 'No completed JPEG, PNG or TIFF files to export. Generate metadata first.',
+          severity: 'warning',
+          duration: 5000
+        });
+        return;
+      }
+
+      const JSZip = (await import('jszip')).default;
+      const zip = new JSZip();
+      const failed: string[] = [];
+
+      for (const { row, file } of targets) {
+        try {
+          const original = new Uint8Array(await file.arrayBuffer());
+          const rewritten = embedMetadata(original, row.extension, {
+            title: row.title,
+            description: row.description,
+            keywords: row.keywords
+          });
+          zip.file(row.filename, rewritten);
+        } catch (err) {
+          console.warn(`⚠ Could not embed metadata into ${row.filename}:`, err);
+          failed.push(row.filename);
+        }
+      }
+
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      const url = URL.createObjectURL(zipBlob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'stock-files-with-metadata.zip';
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+
+      if (failed.length > 0) {
+        setError({
+          id: Date.now().toString(),
+          message: `Skipped ${failed.length} file(s) that could not be rewritten: ${failed.join(', ')}`,
+          severity: 'warning',
+          duration: 5000
+        });
+      }
+    } catch (error) {
+      console.error('Failed to export files with embedded metadata:', error);
+      setError({
+        id: Date.now().toString(),
+        message: 'Failed to create ZIP file. Please try again.',
+        severity: 'error',
+        duration: 5000
+      });
+    }
+  };
+
+  const onExportSidecars = async () => {
+    if (form.uiTab === 'prompt') {
+      setError({
+        id: Date.now().toString(),
+        message: 'XMP sidecar export is only available in Metadata mode.',
+        severity: 'info',
+        duration: 3000
+      });
+      return;
+    }
+
+    try {
+      const { rowsToSidecars } = await import('@/lib/xmp-sidecar');
+      const sidecars = rowsToSidecars(cleanRowsForExport(rows));
+
+      if (sidecars.length === 0) {
+        setError({
+          id: Date.now().toString(),
+          message: 'No completed metadata found. Generate metadata first before exporting.',
+          severity: 'warning',
+          duration: 5000
+        });
+        return;
+      }
+
+      const JSZip = (await import('jszip')).default;
+      const zip = new JSZip();
+      for (const sidecar of sidecars) {
+        zip.file(sidecar.name, sidecar.content);
+      }
+
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      const url = URL.createObjectURL(zipBlob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'stock-metadata-xmp-sidecars.zip';
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export XMP sidecars:', error);
+      setError({
+        id: Date.now().toString(),
+        message: 'Failed to create ZIP file. Please try again.',
+        severity: 'error',
+        duration: 5000
+      });
+    }
+  };
+
   // Maximum number of concurrent workers for parallel generation
   const MAX_CONCURRENT_WORKERS = 5;
 
@@ -526,6 +782,22 @@ export default function Page() {
     return true;
   };
 
+  // Add a file's cost to the batch total and stop the batch once the budget is reached
+  const addBatchCost = (cost: number | undefined) => {
+    if (!cost) return;
+    batchCostRef.current += cost;
+    if (form.budgetUsd && batchCostRef.current >= form.budgetUsd && !shouldStopRef.current) {
+      console.warn(`💸 Batch budget reached: ${formatUsd(batchCostRef.current)} of ${formatUsd(form.budgetUsd)}`);
+      shouldStopRef.current = true;
+      setError({
+        id: Date.now().toString(),
+        message: `Batch budget of ${formatUsd(form.budgetUsd)} reached (${formatUsd(batchCostRef.current)} spent). Generation stopped.`,
+        severity: 'warning',
+        duration: 10000
+      });
+    }
+  };
+
   // Helper function to process a single file
   const processFile = async (
     fileIndex: number,
@@ -533,7 +805,8 @@ export default function Page() {
     completedCountRef: { current: number },
     unsubscribeCallbacks: Map<string, () => void>,
     assignedKey?: string, // Optional: specific API key for this worker
-    workerId?: number // Optional: worker ID for parallel mode (0-indexed)
+    workerId?: number, // Optional: worker ID for parallel mode (0-indexed)
+    provider: Provider = form.model.provider // Provider of assignedKey (differs from the form's when failing over)
   ): Promise<void> => {
     if (shouldStopRef.current) {
       return;
@@ -576,6 +849,19 @@ export default function Page() {
     });
     unsubscribeCallbacks.set(file.name, unsubscribe);
 
+    // Feed the outcome into the key's usage counters and health (once per file, only if the
+    // request went out) so tripped keys stop getting work
+    let requestStartedAt = 0;
+    let keyResultRecorded = false;
+    const recordKeyResult = (result: KeyResult) => {
+      const usedKey = assignedKey || bearerRef.current;
+      if (!usedKey || !requestStartedAt || keyResultRecorded) return;
+      keyResultRecorded = true;
+      const latencyMs = Date.now() - requestStartedAt;
+      recordKeyUsage(provider, usedKey, { ...result, latencyMs });
+      if (assignedKey) keyPoolManager.recordResult(provider, assignedKey, { ...result, latencyMs });
+    };
+
     try {
       // Convert file to base64 if it's an image (lazy conversion)
       let imageData: string | undefined;
@@ -631,9 +917,11 @@ export default function Page() {
         minWords: 160,
         stylePolicy: 'microstock-safe',
         negativePolicy: 'no text, no logo, no watermark',
-        provider: form.model.provider,
+        provider,
         geminiModel: form.geminiModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         visionBearer: bearerRef.current // For Gemini/Mistral 2-step pipeline
       } : {
         // Existing metadata generation payload
@@ -647,16 +935,26 @@ export default function Page() {
         suffix: form.suffix || undefined,
         negativeTitle: form.negativeTitle,
         negativeKeywords: form.negativeKeywords,
-        model: { provider: form.model.provider, preview: form.model.preview },
+        dictionary: dictionaryPayload(),
+        language: form.language,
+        languageMode: form.languageMode,
+        extraLanguages: form.extraLanguages,
+        budgetUsd: form.budgetUsd,
+        budgetSpentUsd: batchCostRef.current,
+        model: { provider, preview: form.model.preview },
         geminiModel: form.geminiModel,
         mistralModel: form.mistralModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         files: [file].map(f => ({ 
           name: f.name, 
           type: f.type, 
           url: f.url, 
           ext: f.ext,
-          imageData: imageData // Include base64 data for images/videos
+          imageData: imageData, // Include base64 data for images/videos
+          // Re-optimize mode: existing embedded metadata is sent as context to improve on
+          existingMetadata: form.reoptimize ? f.embedded : undefined
         })),
         videoHints: form.assetType === 'video' ? form.videoHints : undefined,
         singleMode: form.singleMode,
@@ -667,7 +965,8 @@ export default function Page() {
         userId: user?.uid,
         userDisplayName: user?.displayName || user?.email?.split('@')[0] || 'User',
         userEmail: user?.email || undefined,
-        userPhotoURL: user?.photoURL || undefined
+        userPhotoURL: user?.photoURL || undefined,
+        retryBatchId: retrySSEClient.batchId
       };
       
       console.log(`📤 API Request for ${file.name} (${isPromptMode ? 'PROMPT' : 'METADATA'} mode):`, {
@@ -686,13 +985,15 @@ export default function Page() {
       // Route to appropriate API endpoint based on mode
       const apiEndpoint = isPromptMode ? '/api/prompt/image-to-prompt' : '/api/generate';
       
+      requestStartedAt = Date.now();
       const res = await fetch(apiEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
         },
-        body: JSON.stringify(requestPayload)
+        body: JSON.stringify(requestPayload),
+        signal: batchAbortRef.current?.signal
       });
       
       if (!res.ok) {
@@ -711,13 +1012,13 @@ export default function Page() {
           errorData.error?.message?.toLowerCase().includes('tokens per day') ||
           errorData.error?.message?.toLowerCase().includes('tpd')
         );
+        recordKeyResult({ status: res.status, error: errorMsg, quotaExhausted: isQuotaExhausted });
         
         // If quota exhausted and using parallel mode with assigned key, mark it as exhausted
         if (isQuotaExhausted && assignedKey && form.parallelMode && workerId !== undefined) {
-          keyPoolManager.markKeyExhausted(form.model.provider, assignedKey);
-          const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider);
+          const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider, true);
           
-          console.warn(`⚠️ Worker ${workerId}: API key exhausted. Stopping this worker. Other workers will continue.`);
+          console.warn(`⚠️ Worker ${workerId}: API key exhausted. Its remaining files move to other keys.`);
           
           // If all keys exhausted, stop all workers
           if (availableKeys === 0) {
@@ -730,29 +1031,29 @@ export default function Page() {
               duration: 10000
             });
           } else {
-            console.log(`ℹ️ Worker ${workerId} stopped: API quota exceeded. ${availableKeys} key(s) still available.`);
+            console.log(`ℹ️ Worker ${workerId}: key tripped. ${availableKeys} key(s) still available.`);
           }
           
           // Create error row with quota exhaustion message
           const isPromptMode = form.uiTab === 'prompt';
           const errorRow: Row = isPromptMode ? {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(form.platform),
             title: '', // Empty for prompt mode
             description: '', // Empty for prompt mode
             keywords: [], // Empty for prompt mode
             assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
             extension: file.ext || '',
-            error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+            error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
           } : {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
-            title: `[ERROR] API quota exceeded (Worker ${workerId + 1}). Worker stopped.`,
-            description: 'API quota exceeded for this key. This worker has stopped. Other workers will continue.',
+            platform: platformLabel(form.platform),
+            title: `[ERROR] API quota exceeded (Worker ${workerId + 1}). Key taken out of rotation.`,
+            description: 'API quota exceeded for this key. Remaining files use other keys.',
             keywords: [],
             assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
             extension: file.ext || '',
-            error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+            error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
           };
           allRows.push(errorRow);
           setRows([...allRows]);
@@ -775,14 +1076,14 @@ export default function Page() {
           setFailedCount(prev => prev + 1);
           const completed = completedCountRef.current;
           setProcessingProgress(Math.round((completed / files.length) * 100));
-          return; // Stop this worker from processing more files
+          return; // Worker picks a healthy key for its next file
         }
         
         // Regular error handling (non-quota errors)
         const isPromptMode = form.uiTab === 'prompt';
         const errorRow: Row = isPromptMode ? {
           filename: file.name,
-          platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(form.platform),
           title: '', // Empty for prompt mode
           description: '', // Empty for prompt mode
           keywords: [], // Empty for prompt mode
@@ -791,7 +1092,7 @@ export default function Page() {
           error: errorMsg
         } : {
           filename: file.name,
-          platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(form.platform),
           title: `[ERROR] ${errorMsg}`,
           description: 'Generation failed. Please check your API key and try again.',
           keywords: [],
@@ -824,13 +1125,20 @@ export default function Page() {
       }
       
       const data = await res.json();
+      recordKeyResult({
+        status: res.status,
+        error: isPromptMode ? data.error : data.rows?.[0]?.error,
+        usage: isPromptMode ? undefined : data.rows?.[0]?.usage,
+        requests: isPromptMode ? undefined : data.rows?.[0]?.providerCalls
+      });
+      addBatchCost(isPromptMode ? undefined : data.rows?.[0]?.cost);
       
       if (isPromptMode) {
         // Handle prompt generation response
         if (data.prompt) {
           const newRow: Row = {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(form.platform),
             title: '', // Empty for prompt mode
             description: '', // Empty for prompt mode
             keywords: [], // Empty for prompt mode
@@ -874,7 +1182,7 @@ export default function Page() {
           // Handle prompt generation error
           const errorRow: Row = {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(form.platform),
             title: `[ERROR] ${data.error}`,
             description: 'Prompt generation failed. Please check your API key and try again.',
             keywords: [],
@@ -943,6 +1251,35 @@ export default function Page() {
     } catch (fileError: any) {
       unsubscribe();
       unsubscribeCallbacks.delete(file.name);
+
+      // Stopped by the user: the file is cancelled, not failed (and says nothing about the key)
+      if (isAbortError(fileError)) {
+        console.log(`🛑 ${file.name} cancelled`);
+        allRows.push({
+          filename: file.name,
+          platform: platformLabel(form.platform),
+          title: '',
+          description: '',
+          keywords: [],
+          assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
+          extension: file.ext || '',
+          cancelled: true
+        });
+        setRows([...allRows]);
+        setGeneratingFiles(prev => {
+          const next = new Set(prev);
+          next.delete(file.name);
+          return next;
+        });
+        setFileToWorkerId(prev => {
+          const next = new Map(prev);
+          next.delete(file.name);
+          return next;
+        });
+        completedCountRef.current++;
+        return;
+      }
+
       console.error(`Error processing ${file.name}:`, fileError);
       
       // Check if this is a quota exhaustion error in the catch block (including TPD - tokens per day)
@@ -957,13 +1294,13 @@ export default function Page() {
         fileError?.isTPDError ||
         fileError?.isQuotaExhausted
       );
+      recordKeyResult({ status: fileError?.status, error: errorMsg, quotaExhausted: isQuotaExhausted });
       
       // If quota exhausted and using parallel mode with assigned key, mark it as exhausted
       if (isQuotaExhausted && assignedKey && form.parallelMode && workerId !== undefined) {
-        keyPoolManager.markKeyExhausted(form.model.provider, assignedKey);
-        const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider);
+        const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider, true);
         
-        console.warn(`⚠️ Worker ${workerId}: API key exhausted (from catch). Stopping this worker. Other workers will continue.`);
+        console.warn(`⚠️ Worker ${workerId}: API key exhausted (from catch). Its remaining files move to other keys.`);
         
         // If all keys exhausted, stop all workers
         if (availableKeys === 0) {
@@ -976,29 +1313,29 @@ export default function Page() {
             duration: 10000
           });
         } else {
-          console.log(`ℹ️ Worker ${workerId} stopped: API quota exceeded. ${availableKeys} key(s) still available.`);
+          console.log(`ℹ️ Worker ${workerId}: key tripped. ${availableKeys} key(s) still available.`);
         }
         
         // Create error row with quota exhaustion message
         const isPromptMode = form.uiTab === 'prompt';
         const errorRow: Row = isPromptMode ? {
           filename: file.name,
-          platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+          platform: platformLabel(form.platform),
           title: '', // Empty for prompt mode
           description: '', // Empty for prompt mode
           keywords: [], // Empty for prompt mode
           assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
           extension: file.ext || '',
-          error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+          error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
         } : {
           filename: file.name,
-          platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
-          title: `[ERROR] API quota exceeded (Worker ${workerId + 1}). Worker stopped.`,
-          description: 'API quota exceeded for this key. This worker has stopped. Other workers will continue.',
+          platform: platformLabel(form.platform),
+          title: `[ERROR] API quota exceeded (Worker ${workerId + 1}). Key taken out of rotation.`,
+          description: 'API quota exceeded for this key. Remaining files use other keys.',
           keywords: [],
           assetType: form.assetType === 'auto' ? 'photo' : form.assetType,
           extension: file.ext || '',
-          error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+          error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
         };
         allRows.push(errorRow);
         setRows([...allRows]);
@@ -1019,13 +1356,13 @@ export default function Page() {
         setFailedCount(prev => prev + 1);
         const completed = completedCountRef.current;
         setProcessingProgress(Math.round((completed / files.length) * 100));
-        return; // Stop this worker from processing more files
+        return; // Worker picks a healthy key for its next file
       }
       
       // Regular error handling (non-quota errors)
       const errorRow: Row = {
         filename: file.name,
-        platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+        platform: platformLabel(form.platform),
         title: `[ERROR] ${errorMsg}`,
         description: 'Generation failed. Please check your API key and try again.',
         keywords: [],
@@ -1074,14 +1411,15 @@ export default function Page() {
     
     // Reset exhausted keys when starting fresh generation
     if (form.parallelMode) {
-      keyPoolManager.resetExhaustedKeys();
+      keyPoolManager.resetTransientFailures();
     }
     
     // Ensure bearer token is loaded before starting
     await updateBearerToken();
     
     // Check if bearer token is available
-    if (!bearerRef.current || bearerRef.current.length === 0) {
+    // OpenAI-compatible local servers usually run without a key
+    if ((!bearerRef.current || bearerRef.current.length === 0) && form.model.provider !== 'openai') {
       setError({
         id: Date.now().toString(),
         message: `No API key found for ${form.model.provider}. Please add an API key in the "API Secrets" modal.`,
@@ -1096,6 +1434,8 @@ export default function Page() {
     
     setBusy(true);
     shouldStopRef.current = false; // Reset stop flag
+    batchCostRef.current = 0;
+    batchAbortRef.current = new AbortController();
     setProcessingProgress(0);
     setSuccessCount(0);
     setFailedCount(0);
@@ -1127,7 +1467,7 @@ export default function Page() {
         setProcessingProgress(0); // Start at 0, will update as files complete
         
         // Initialize key pool for the current provider
-        const initResult = await keyPoolManager.initialize(form.model.provider);
+        const initResult = await keyPoolManager.initialize(form.model.provider, form.failoverProvider);
         const availableKeys = keyPoolManager.getKeyCount(form.model.provider);
         
         if (!initResult.success || availableKeys === 0) {
@@ -1148,11 +1488,10 @@ export default function Page() {
         const total = files.length;
         
         // Worker function that processes files from the queue
-        // Each worker gets assigned a unique API key from the pool
+        // Each worker starts on its own API key from the pool and moves to the healthiest
+        // remaining key (or the failover provider) once its key is tripped
         const worker = async (workerId: number) => {
-          // Get assigned key for this worker (round-robin distribution)
           const assignedKey = keyPoolManager.getKeyByIndex(form.model.provider, workerId);
-          
           if (!assignedKey) {
             console.error(`❌ Worker ${workerId}: No API key available`);
             return;
@@ -1166,18 +1505,22 @@ export default function Page() {
               break;
             }
             
-            // Check if assigned key is exhausted before processing each file
-            if (keyPoolManager.isKeyExhausted(form.model.provider, assignedKey)) {
-              console.warn(`⚠️ Worker ${workerId}: Assigned key exhausted, stopping this worker`);
-              break; // This worker stops completely - don't try to get another key
+            if (currentIndex >= total) {
+              break; // Queue empty, this worker stops
             }
             
-            const myIndex = currentIndex++;
-            if (myIndex >= total) {
-              break; // Queue empty, this worker stops
+            // Pick a key for each file so one bad key doesn't hold up this worker
+            const lease = keyPoolManager.acquireKey(form.model.provider, workerId);
+            if (!lease) {
+              // Tripped keys reopen after their cooldown; wait for one instead of dropping the remaining files
+              const retryInMs = keyPoolManager.getNextRetryInMs(form.model.provider);
+              console.warn(`⚠️ Worker ${workerId}: All keys are tripped or being probed, waiting${retryInMs !== undefined ? ` ${Math.ceil(retryInMs / 1000)}s` : ''} for one to reopen`);
+              await keyPoolManager.waitForAvailableKey(form.model.provider, () => shouldStopRef.current);
+              continue;
             }
             
-            await processFile(myIndex, allRows, completedCountRef, unsubscribeCallbacks, assignedKey, workerId);
+            const myIndex = currentIndex++;
+            await processFile(myIndex, allRows, completedCountRef, unsubscribeCallbacks, lease.key, workerId, lease.provider);
           }
         };
         
@@ -1303,7 +1646,7 @@ export default function Page() {
       
       // Show completion modal only if generation completed (not stopped early)
       if (!shouldStopRef.current && allRows.length > 0) {
-        const platformName = form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock';
+        const platformName = platformLabel(form.platform);
         
         // Get model display name from selected model
         let modelName: string;
@@ -1329,6 +1672,8 @@ export default function Page() {
           } else {
             modelName = 'Groq';
           }
+        } else if (form.model.provider === 'openai') {
+          modelName = form.openaiModel || 'OpenAI-compatible';
         } else {
           modelName = 'Mistral';
         }
@@ -1360,8 +1705,9 @@ export default function Page() {
   };
 
   const onStopProcessing = () => {
-    console.log('🛑 Stop button clicked - setting stop flag');
+    console.log('🛑 Stop button clicked - cancelling in-flight requests');
     shouldStopRef.current = true;
+    batchAbortRef.current?.abort();
     setBusy(false);
     setGeneratingFiles(new Set()); // Clear generating files immediately
   };
@@ -1373,7 +1719,8 @@ export default function Page() {
     completedCountRef: { current: number },
     unsubscribeCallbacks: Map<string, () => void>,
     assignedKey?: string, // Optional: specific API key for this worker
-    workerId?: number // Optional: worker ID for parallel mode (0-indexed)
+    workerId?: number, // Optional: worker ID for parallel mode (0-indexed)
+    provider: Provider = form.model.provider // Provider of assignedKey (differs from the form's when failing over)
   ): Promise<void> => {
     if (shouldStopRef.current) {
       return;
@@ -1406,6 +1753,19 @@ export default function Page() {
     });
     unsubscribeCallbacks.set(file.name, unsubscribe);
 
+    // Feed the outcome into the key's usage counters and health (once per file, only if the
+    // request went out) so tripped keys stop getting work
+    let requestStartedAt = 0;
+    let keyResultRecorded = false;
+    const recordKeyResult = (result: KeyResult) => {
+      const usedKey = assignedKey || bearerRef.current;
+      if (!usedKey || !requestStartedAt || keyResultRecorded) return;
+      keyResultRecorded = true;
+      const latencyMs = Date.now() - requestStartedAt;
+      recordKeyUsage(provider, usedKey, { ...result, latencyMs });
+      if (assignedKey) keyPoolManager.recordResult(provider, assignedKey, { ...result, latencyMs });
+    };
+
     try {
       // Convert file to base64 if it's an image (lazy conversion)
       let imageData: string | undefined;
@@ -1461,9 +1821,11 @@ export default function Page() {
         minWords: 160,
         stylePolicy: 'microstock-safe',
         negativePolicy: 'no text, no logo, no watermark',
-        provider: form.model.provider,
+        provider,
         geminiModel: form.geminiModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         visionBearer: bearerRef.current // For Gemini/Mistral 2-step pipeline
       } : {
         // Existing metadata generation payload
@@ -1477,16 +1839,26 @@ export default function Page() {
         suffix: form.suffix || undefined,
         negativeTitle: form.negativeTitle,
         negativeKeywords: form.negativeKeywords,
-        model: { provider: form.model.provider, preview: form.model.preview },
+        dictionary: dictionaryPayload(),
+        language: form.language,
+        languageMode: form.languageMode,
+        extraLanguages: form.extraLanguages,
+        budgetUsd: form.budgetUsd,
+        budgetSpentUsd: batchCostRef.current,
+        model: { provider, preview: form.model.preview },
         geminiModel: form.geminiModel,
         mistralModel: form.mistralModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         files: [file].map(f => ({ 
           name: f.name, 
           type: f.type, 
           url: f.url, 
           ext: f.ext,
-          imageData: imageData // Include base64 data for images/videos
+          imageData: imageData, // Include base64 data for images/videos
+          // Re-optimize mode: existing embedded metadata is sent as context to improve on
+          existingMetadata: form.reoptimize ? f.embedded : undefined
         })),
         videoHints: form.assetType === 'video' ? form.videoHints : undefined,
         singleMode: form.singleMode,
@@ -1494,10 +1866,12 @@ export default function Page() {
         isolatedOnWhiteBackground: form.isolatedOnWhiteBackground,
         isVector: form.isVector,
         isIllustration: form.isIllustration,
+        forceRegenerate: true, // Regenerate always calls the model, bypassing the generation cache
         userId: user?.uid,
         userDisplayName: user?.displayName || user?.email?.split('@')[0] || 'User',
         userEmail: user?.email || undefined,
-        userPhotoURL: user?.photoURL || undefined
+        userPhotoURL: user?.photoURL || undefined,
+        retryBatchId: retrySSEClient.batchId
       };
       
       console.log(`📤 API Request (regenerate) for ${file.name} (${isPromptMode ? 'PROMPT' : 'METADATA'} mode):`, {
@@ -1516,13 +1890,15 @@ export default function Page() {
       // Route to appropriate API endpoint based on mode
       const apiEndpoint = isPromptMode ? '/api/prompt/image-to-prompt' : '/api/generate';
       
+      requestStartedAt = Date.now();
       const res = await fetch(apiEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
         },
-        body: JSON.stringify(requestPayload)
+        body: JSON.stringify(requestPayload),
+        signal: batchAbortRef.current?.signal
       });
       
       if (!res.ok) {
@@ -1541,13 +1917,13 @@ export default function Page() {
           errorData.error?.message?.toLowerCase().includes('tokens per day') ||
           errorData.error?.message?.toLowerCase().includes('tpd')
         );
+        recordKeyResult({ status: res.status, error: errorMsg, quotaExhausted: isQuotaExhausted });
         
         // If quota exhausted and using parallel mode with assigned key, mark it as exhausted
         if (isQuotaExhausted && assignedKey && form.parallelMode && workerId !== undefined) {
-          keyPoolManager.markKeyExhausted(form.model.provider, assignedKey);
-          const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider);
+          const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider, true);
           
-          console.warn(`⚠️ Worker ${workerId}: API key exhausted (regenerate). Stopping this worker. Other workers will continue.`);
+          console.warn(`⚠️ Worker ${workerId}: API key exhausted (regenerate). Its remaining files move to other keys.`);
           
           // If all keys exhausted, stop all workers
           if (availableKeys === 0) {
@@ -1560,7 +1936,7 @@ export default function Page() {
               duration: 10000
             });
           } else {
-            console.log(`ℹ️ Worker ${workerId} stopped: API quota exceeded. ${availableKeys} key(s) still available.`);
+            console.log(`ℹ️ Worker ${workerId}: key tripped. ${availableKeys} key(s) still available.`);
           }
           
           // Update row with quota exhaustion error
@@ -1571,8 +1947,8 @@ export default function Page() {
             if (idx >= 0) {
               updated[idx] = {
                 ...updated[idx],
-                title: isPromptMode ? '' : `[ERROR] API quota exceeded (Worker ${workerId + 1}). Worker stopped.`, // Empty title for prompt mode
-                error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+                title: isPromptMode ? '' : `[ERROR] API quota exceeded (Worker ${workerId + 1}). Key taken out of rotation.`, // Empty title for prompt mode
+                error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
               };
             }
             return updated;
@@ -1590,7 +1966,7 @@ export default function Page() {
           setFailedCount(prev => prev + 1);
           const completed = completedCountRef.current;
           setProcessingProgress(Math.round((completed / filesToRegenerate.length) * 100));
-          return; // Stop this worker from processing more files
+          return; // Worker picks a healthy key for its next file
         }
         
         // Regular error handling (non-quota errors)
@@ -1624,13 +2000,20 @@ export default function Page() {
       }
       
       const data = await res.json();
+      recordKeyResult({
+        status: res.status,
+        error: isPromptMode ? data.error : data.rows?.[0]?.error,
+        usage: isPromptMode ? undefined : data.rows?.[0]?.usage,
+        requests: isPromptMode ? undefined : data.rows?.[0]?.providerCalls
+      });
+      addBatchCost(isPromptMode ? undefined : data.rows?.[0]?.cost);
       
       if (isPromptMode) {
         // Handle prompt generation response
         if (data.prompt) {
           const newRow: Row = {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(form.platform),
             title: '', // Empty for prompt mode
             description: '', // Empty for prompt mode
             keywords: [], // Empty for prompt mode
@@ -1741,6 +2124,19 @@ export default function Page() {
     } catch (fileError: any) {
       unsubscribe();
       unsubscribeCallbacks.delete(file.name);
+
+      // Stopped by the user: keep the file's previous result instead of recording an error
+      if (isAbortError(fileError)) {
+        console.log(`🛑 Regeneration of ${file.name} cancelled`);
+        setGeneratingFiles(prev => {
+          const next = new Set(prev);
+          next.delete(file.name);
+          return next;
+        });
+        completedCountRef.current++;
+        return;
+      }
+
       console.error(`Error regenerating ${file.name}:`, fileError);
       
       // Check if this is a quota exhaustion error in the catch block
@@ -1755,13 +2151,13 @@ export default function Page() {
         fileError?.isTPDError ||
         fileError?.isQuotaExhausted
       );
+      recordKeyResult({ status: fileError?.status, error: errorMsg, quotaExhausted: isQuotaExhausted });
       
       // If quota exhausted and using parallel mode with assigned key, mark it as exhausted
       if (isQuotaExhausted && assignedKey && form.parallelMode && workerId !== undefined) {
-        keyPoolManager.markKeyExhausted(form.model.provider, assignedKey);
-        const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider);
+        const availableKeys = keyPoolManager.getAvailableKeyCount(form.model.provider, true);
         
-        console.warn(`⚠️ Worker ${workerId}: API key exhausted (regenerate, from catch). Stopping this worker. Other workers will continue.`);
+        console.warn(`⚠️ Worker ${workerId}: API key exhausted (regenerate, from catch). Its remaining files move to other keys.`);
         
         // If all keys exhausted, stop all workers
         if (availableKeys === 0) {
@@ -1774,7 +2170,7 @@ export default function Page() {
             duration: 10000
           });
         } else {
-          console.log(`ℹ️ Worker ${workerId} stopped: API quota exceeded. ${availableKeys} key(s) still available.`);
+          console.log(`ℹ️ Worker ${workerId}: key tripped. ${availableKeys} key(s) still available.`);
         }
         
         // Update row with quota exhaustion error
@@ -1785,8 +2181,8 @@ export default function Page() {
           if (idx >= 0) {
             updated[idx] = {
               ...updated[idx],
-              title: isPromptMode ? '' : `[ERROR] API quota exceeded (Worker ${workerId + 1}). Worker stopped.`, // Empty title for prompt mode
-              error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). This worker has stopped.`
+              title: isPromptMode ? '' : `[ERROR] API quota exceeded (Worker ${workerId + 1}). Key taken out of rotation.`, // Empty title for prompt mode
+              error: `API quota exceeded for Worker ${workerId + 1} (key: ${assignedKey.substring(0, 8)}...). Remaining files use other keys.`
             };
           }
           return updated;
@@ -1800,7 +2196,7 @@ export default function Page() {
       });
       completedCountRef.current++;
       setProcessingProgress(Math.round((completedCountRef.current / filesToRegenerate.length) * 100));
-        return; // Stop this worker from processing more files
+        return; // Worker picks a healthy key for its next file
       }
       
       // Regular error handling (non-quota errors)
@@ -1915,6 +2311,8 @@ export default function Page() {
         provider: form.model.provider,
         geminiModel: form.geminiModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         visionBearer: bearerRef.current // For Gemini/Mistral 2-step pipeline
       } : {
         // Existing metadata generation payload
@@ -1928,26 +2326,36 @@ export default function Page() {
         suffix: form.suffix || undefined,
         negativeTitle: form.negativeTitle,
         negativeKeywords: form.negativeKeywords,
+        dictionary: dictionaryPayload(),
+        language: form.language,
+        languageMode: form.languageMode,
+        extraLanguages: form.extraLanguages,
         model: { provider: form.model.provider, preview: form.model.preview },
         geminiModel: form.geminiModel,
         mistralModel: form.mistralModel,
         groqModel: form.groqModel,
+        openaiBaseUrl: form.openaiBaseUrl,
+        openaiModel: form.openaiModel,
         files: [file].map(f => ({ 
           name: f.name, 
           type: f.type, 
           url: f.url, 
           ext: f.ext,
-          imageData: imageData // Include base64 data for images
+          imageData: imageData, // Include base64 data for images
+          // Re-optimize mode: existing embedded metadata is sent as context to improve on
+          existingMetadata: form.reoptimize ? f.embedded : undefined
         })),
         videoHints: form.assetType === 'video' ? form.videoHints : undefined,
         isolatedOnTransparentBackground: form.isolatedOnTransparentBackground,
         isolatedOnWhiteBackground: form.isolatedOnWhiteBackground,
         isVector: form.isVector,
         isIllustration: form.isIllustration,
+        forceRegenerate: true, // Regenerate always calls the model, bypassing the generation cache
         userId: user?.uid,
         userDisplayName: user?.displayName || user?.email?.split('@')[0] || 'User',
         userEmail: user?.email || undefined,
-        userPhotoURL: user?.photoURL || undefined
+        userPhotoURL: user?.photoURL || undefined,
+        retryBatchId: retrySSEClient.batchId
       };
       
       console.log(`📤 API Request (regenerate) for ${filename} (${isPromptMode ? 'PROMPT' : 'METADATA'} mode):`, {
@@ -1969,6 +2377,7 @@ export default function Page() {
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
         const errorMsg = errorData.message || errorData.error || `Failed to regenerate ${isPromptMode ? 'prompt' : 'metadata'}`;
+        recordKeyUsage(form.model.provider, bearerRef.current, { status: res.status, error: errorMsg });
         setError({
           id: Date.now().toString(),
           message: errorMsg,
@@ -1979,13 +2388,19 @@ export default function Page() {
       }
       
       const data = await res.json();
+      recordKeyUsage(form.model.provider, bearerRef.current, {
+        status: res.status,
+        error: isPromptMode ? data.error : data.rows?.[0]?.error,
+        usage: isPromptMode ? undefined : data.rows?.[0]?.usage,
+        requests: isPromptMode ? undefined : data.rows?.[0]?.providerCalls
+      });
       
       if (isPromptMode) {
         // Handle prompt generation response
         if (data.prompt) {
           const newRow: Row = {
             filename: file.name,
-            platform: form.platform === 'adobe' ? 'Adobe Stock' : form.platform === 'general' ? 'General' : 'Shutterstock',
+            platform: platformLabel(form.platform),
             title: '', // Empty for prompt mode
             description: '', // Empty for prompt mode
             keywords: [], // Empty for prompt mode
@@ -2057,7 +2472,7 @@ export default function Page() {
   const onRegenerateAll = async () => {
     // Reset exhausted keys when starting regeneration
     if (form.parallelMode) {
-      keyPoolManager.resetExhaustedKeys();
+      keyPoolManager.resetTransientFailures();
     }
     // Find all files that have existing results (rows)
     const filesWithResults = files.filter(f => rows.some(r => r.filename === f.name));
@@ -2076,7 +2491,8 @@ export default function Page() {
     await updateBearerToken();
     
     // Check if bearer token is available
-    if (!bearerRef.current || bearerRef.current.length === 0) {
+    // OpenAI-compatible local servers usually run without a key
+    if ((!bearerRef.current || bearerRef.current.length === 0) && form.model.provider !== 'openai') {
       setError({
         id: Date.now().toString(),
         message: `No API key found for ${form.model.provider}. Please add an API key in the "API Secrets" modal.`,
@@ -2088,6 +2504,8 @@ export default function Page() {
     
     setBusy(true);
     shouldStopRef.current = false;
+    batchCostRef.current = 0;
+    batchAbortRef.current = new AbortController();
     setProcessingProgress(0);
     setSuccessCount(0);
     setFailedCount(0);
@@ -2114,7 +2532,7 @@ export default function Page() {
         setProcessingProgress(0); // Start at 0, will update as files complete
         
         // Initialize key pool for the current provider
-        await keyPoolManager.initialize(form.model.provider);
+        await keyPoolManager.initialize(form.model.provider, form.failoverProvider);
         const availableKeys = keyPoolManager.getKeyCount(form.model.provider);
         
         if (availableKeys === 0) {
@@ -2134,11 +2552,10 @@ export default function Page() {
         const total = filesWithResults.length;
         
         // Worker function that processes files from the queue
-        // Each worker gets assigned a unique API key from the pool
+        // Each worker starts on its own API key from the pool and moves to the healthiest
+        // remaining key (or the failover provider) once its key is tripped
         const worker = async (workerId: number) => {
-          // Get assigned key for this worker (round-robin distribution)
           const assignedKey = keyPoolManager.getKeyByIndex(form.model.provider, workerId);
-          
           if (!assignedKey) {
             console.error(`❌ Worker ${workerId}: No API key available`);
             return;
@@ -2152,18 +2569,22 @@ export default function Page() {
               break;
             }
             
-            // Check if assigned key is exhausted before processing each file
-            if (keyPoolManager.isKeyExhausted(form.model.provider, assignedKey)) {
-              console.warn(`⚠️ Worker ${workerId}: Assigned key exhausted, stopping this worker`);
-              break; // This worker stops completely - don't try to get another key
+            if (currentIndex >= total) {
+              break; // Queue empty, this worker stops
             }
             
-            const myIndex = currentIndex++;
-            if (myIndex >= total) {
-              break; // Queue empty, this worker stops
+            // Pick a key for each file so one bad key doesn't hold up this worker
+            const lease = keyPoolManager.acquireKey(form.model.provider, workerId);
+            if (!lease) {
+              // Tripped keys reopen after their cooldown; wait for one instead of dropping the remaining files
+              const retryInMs = keyPoolManager.getNextRetryInMs(form.model.provider);
+              console.warn(`⚠️ Worker ${workerId}: All keys are tripped or being probed, waiting${retryInMs !== undefined ? ` ${Math.ceil(retryInMs / 1000)}s` : ''} for one to reopen`);
+              await keyPoolManager.waitForAvailableKey(form.model.provider, () => shouldStopRef.current);
+              continue;
             }
             
-            await regenerateFile(myIndex, filesWithResults, completedCountRef, unsubscribeCallbacks, assignedKey, workerId);
+            const myIndex = currentIndex++;
+            await regenerateFile(myIndex, filesWithResults, completedCountRef, unsubscribeCallbacks, lease.key, workerId, lease.provider);
           }
         };
         
@@ -2228,11 +2649,13 @@ export default function Page() {
   const onRegenerateFailed = async () => {
     // Reset exhausted keys when starting regeneration
     if (form.parallelMode) {
-      keyPoolManager.resetExhaustedKeys();
+      keyPoolManager.resetTransientFailures();
     }
     // Find all files that have actual errors (not warnings, not files with generated prompts)
     const failedFiles = files.filter(f => {
       const row = rows.find(r => r.filename === f.name);
+      // Cancelled files never finished, so they are retried too
+      if (row?.cancelled) return true;
       // Only count actual errors (not word count warnings)
       if (!row?.error) return false;
       // Word count warnings are not failures (prompt was generated)
@@ -2256,7 +2679,8 @@ export default function Page() {
     await updateBearerToken();
     
     // Check if bearer token is available
-    if (!bearerRef.current || bearerRef.current.length === 0) {
+    // OpenAI-compatible local servers usually run without a key
+    if ((!bearerRef.current || bearerRef.current.length === 0) && form.model.provider !== 'openai') {
       setError({
         id: Date.now().toString(),
         message: `No API key found for ${form.model.provider}. Please add an API key in the "API Secrets" modal.`,
@@ -2268,6 +2692,8 @@ export default function Page() {
     
     setBusy(true);
     shouldStopRef.current = false;
+    batchCostRef.current = 0;
+    batchAbortRef.current = new AbortController();
     setProcessingProgress(0);
     setSuccessCount(0);
     setFailedCount(0);
@@ -2294,7 +2720,7 @@ export default function Page() {
         setProcessingProgress(0); // Start at 0, will update as files complete
         
         // Initialize key pool for the current provider
-        const initResult = await keyPoolManager.initialize(form.model.provider);
+        const initResult = await keyPoolManager.initialize(form.model.provider, form.failoverProvider);
         const availableKeys = keyPoolManager.getKeyCount(form.model.provider);
         
         if (!initResult.success || availableKeys === 0) {
@@ -2315,11 +2741,10 @@ export default function Page() {
         const total = failedFiles.length;
         
         // Worker function that processes files from the queue
-        // Each worker gets assigned a unique API key from the pool
+        // Each worker starts on its own API key from the pool and moves to the healthiest
+        // remaining key (or the failover provider) once its key is tripped
         const worker = async (workerId: number) => {
-          // Get assigned key for this worker (round-robin distribution)
           const assignedKey = keyPoolManager.getKeyByIndex(form.model.provider, workerId);
-          
           if (!assignedKey) {
             console.error(`❌ Worker ${workerId}: No API key available`);
             return;
@@ -2333,18 +2758,22 @@ export default function Page() {
               break;
             }
             
-            // Check if assigned key is exhausted before processing each file
-            if (keyPoolManager.isKeyExhausted(form.model.provider, assignedKey)) {
-              console.warn(`⚠️ Worker ${workerId}: Assigned key exhausted, stopping this worker`);
-              break; // This worker stops completely - don't try to get another key
+            if (currentIndex >= total) {
+              break; // Queue empty, this worker stops
             }
             
-            const myIndex = currentIndex++;
-            if (myIndex >= total) {
-              break; // Queue empty, this worker stops
+            // Pick a key for each file so one bad key doesn't hold up this worker
+            const lease = keyPoolManager.acquireKey(form.model.provider, workerId);
+            if (!lease) {
+              // Tripped keys reopen after their cooldown; wait for one instead of dropping the remaining files
+              const retryInMs = keyPoolManager.getNextRetryInMs(form.model.provider);
+              console.warn(`⚠️ Worker ${workerId}: All keys are tripped or being probed, waiting${retryInMs !== undefined ? ` ${Math.ceil(retryInMs / 1000)}s` : ''} for one to reopen`);
+              await keyPoolManager.waitForAvailableKey(form.model.provider, () => shouldStopRef.current);
+              continue;
             }
             
-            await regenerateFile(myIndex, failedFiles, completedCountRef, unsubscribeCallbacks, assignedKey, workerId);
+            const myIndex = currentIndex++;
+            await regenerateFile(myIndex, failedFiles, completedCountRef, unsubscribeCallbacks, lease.key, workerId, lease.provider);
           }
         };
         
@@ -2505,6 +2934,10 @@ export default function Page() {
               generating={busy}
               onExportCSV={onExportCSV}
               onExportZIP={onExportZIP}
+              onExportEmbedded={onExportEmbedded}
+              onExportSidecars={onExportSidecars}
+              onImportEmbedded={onImportEmbedded}
+              onImportMetadata={onImportMetadata}
               hasRows={rows.length > 0}
               rows={rows}
               onRegenerate={onRegenerate}
@@ -2519,6 +2952,8 @@ export default function Page() {
               successCount={successCount}
               failedCount={failedCount}
               showTransparentPngHint={showTransparentPngHint}
+              costEstimate={costEstimate}
+              budgetUsd={form.budgetUsd}
             />
           </div>
         </div>
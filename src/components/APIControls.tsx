@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import KeyModal from '@/components/KeyModal';
 import { getDecryptedJSON } from '@/lib/util';
-import type { FormState } from '@/lib/types';
+import type { FormState, Provider } from '@/lib/types';
 import { useGuardedAction } from '@/hooks/useGuardedAction';
 import LoginModal from '@/components/LoginModal';
 
@@ -12,7 +12,7 @@ const MISTRAL_ENABLED = false;
 
 export default function APIControls({ value, onChange }: { value: FormState; onChange: (v: FormState | ((prev: FormState) => FormState)) => void }) {
   const [keyModalOpen, setKeyModalOpen] = useState(false);
-  const [activeProvider, setActiveProvider] = useState<'gemini'|'mistral'|'groq'>(value.model.provider);
+  const [activeProvider, setActiveProvider] = useState<Provider>(value.model.provider);
   const [canUseParallel, setCanUseParallel] = useState(false);
   const { executeGuarded, loginModalOpen, setLoginModalOpen, reason, handleLoginSuccess } = useGuardedAction();
 
@@ -22,7 +22,7 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
 
   // On first load, determine if Parallel Mode can be used based on stored keys
   // Helper to recompute whether Parallel Mode can be enabled based on ALL providers.
-  // Logic: if there are at least 2 usable keys total (Gemini + Groq + Mistral), enable it.
+  // Logic: if there are at least 2 usable keys total (Gemini + Groq + Mistral + OpenAI-compatible), enable it.
   useEffect(() => {
     (async () => {
       try {
@@ -40,8 +40,9 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
         const geminiCount = countUsable(enc.geminiKeys);
         const mistralCount = MISTRAL_ENABLED ? countUsable(enc.mistralKeys) : 0;
         const groqCount = countUsable(enc.groqKeys);
+        const openaiCount = countUsable(enc.openaiKeys);
 
-        const totalUsable = geminiCount + mistralCount + groqCount;
+        const totalUsable = geminiCount + mistralCount + groqCount + openaiCount;
         setCanUseParallel(totalUsable >= 2);
       } catch (err) {
         console.error('Failed to initialize Parallel Mode availability:', err);
@@ -53,7 +54,7 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
   useEffect(() => {
     // Load active provider from stored keys
     (async () => {
-      const enc = await getDecryptedJSON<{ active?: 'gemini'|'mistral'|'groq' } | null>('smg_keys_enc', null);
+      const enc = await getDecryptedJSON<{ active?: Provider } | null>('smg_keys_enc', null);
       if (enc?.active) {
         setActiveProvider(enc.active);
       }
@@ -80,7 +81,7 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
     onChange({ ...value, [key]: { ...(value[key] as any), [sub]: v } });
   };
 
-  const handleProviderChange = (provider: 'gemini' | 'mistral' | 'groq') => {
+  const handleProviderChange = (provider: Provider) => {
     // Block Mistral if disabled
     if (provider === 'mistral' && !MISTRAL_ENABLED) {
       return;
@@ -109,6 +110,8 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
             geminiModel?: string;
             mistralModel?: string;
             groqModel?: string;
+            openaiBaseUrl?: string;
+            openaiModel?: string;
           }>('smg_keys_enc', null as any);
           if (enc) {
             // Only update if form state doesn't already have the model (avoid overwriting immediate callback)
@@ -121,6 +124,12 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
             if (enc.groqModel && value.groqModel !== enc.groqModel) {
               onChange(prev => ({ ...prev, groqModel: enc.groqModel as any }));
             }
+            if (enc.openaiModel !== undefined && value.openaiModel !== enc.openaiModel) {
+              onChange(prev => ({ ...prev, openaiModel: enc.openaiModel }));
+            }
+            if (enc.openaiBaseUrl !== undefined && value.openaiBaseUrl !== enc.openaiBaseUrl) {
+              onChange(prev => ({ ...prev, openaiBaseUrl: enc.openaiBaseUrl }));
+            }
           }
         } catch (error) {
           console.error('Failed to reload model preferences:', error);
@@ -129,7 +138,7 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
       
       return () => clearTimeout(timeoutId);
     }
-  }, [keyModalOpen, value.geminiModel, value.mistralModel, value.groqModel]);
+  }, [keyModalOpen, value.geminiModel, value.mistralModel, value.groqModel, value.openaiModel, value.openaiBaseUrl]);
 
   return (
     <div className="space-y-4">
@@ -163,6 +172,12 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
             >
               Groq
             </button>
+            <button 
+              className={`tab ${value.model.provider==='openai'?'tab-active':'tab-inactive'}`} 
+              onClick={() => handleProviderChange('openai')}
+            >
+              OpenAI-compatible
+            </button>
             {MISTRAL_ENABLED && (
               <button 
                 className={`tab ${value.model.provider==='mistral'?'tab-active':'tab-inactive'}`} 
@@ -209,6 +224,22 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
               </div>
             </div>
           )}
+          {value.model.provider === 'openai' && (
+            <div className="mt-3 p-3 bg-green-accent/10 border border-green-accent/30 rounded-lg">
+              <div className="flex items-center gap-2">
+                <span className="text-green-bright text-lg">✓</span>
+                <div className="flex-1">
+                  <div className="text-sm font-semibold text-white">Active Model:</div>
+                  <div className="text-base font-bold text-green-bright mt-0.5">
+                    {value.openaiModel || 'Not set - configure it in API Secrets'}
+                  </div>
+                  {value.openaiBaseUrl && (
+                    <div className="text-xs text-text-secondary mt-0.5 break-all">{value.openaiBaseUrl}</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -255,6 +286,45 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
               </div>
             </div>
           </label>
+
+          {value.parallelMode && (
+            <div className="p-3 bg-dark-surface/20 rounded-lg border border-green-accent/10">
+              <div className="label mb-2 text-text-primary">Failover provider</div>
+              <select
+                className="select"
+                value={value.failoverProvider && value.failoverProvider !== value.model.provider ? value.failoverProvider : ''}
+                onChange={(e) => set('failoverProvider', (e.target.value || undefined) as Provider | undefined)}
+              >
+                <option value="">None</option>
+                {value.model.provider !== 'gemini' && <option value="gemini">Gemini</option>}
+                {value.model.provider !== 'groq' && <option value="groq">Groq</option>}
+                {value.model.provider !== 'openai' && <option value="openai">OpenAI-compatible</option>}
+                {MISTRAL_ENABLED && value.model.provider !== 'mistral' && <option value="mistral">Mistral</option>}
+              </select>
+              <div className="text-xs text-text-secondary mt-1.5">
+                Used only when every selected {value.model.provider} key is tripped (quota exhausted, rejected or repeatedly failing).
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 bg-dark-surface/20 rounded-lg border border-green-accent/10">
+            <div className="label mb-2 text-text-primary">Batch budget (USD)</div>
+            <input
+              type="number"
+              className="input"
+              min={0}
+              step={0.01}
+              placeholder="No limit"
+              value={value.budgetUsd ?? ''}
+              onChange={(e) => {
+                const budget = parseFloat(e.target.value);
+                set('budgetUsd', budget > 0 ? budget : undefined);
+              }}
+            />
+            <div className="text-xs text-text-secondary mt-1.5">
+              Processing stops once the provider-reported cost of a batch reaches this amount.
+            </div>
+          </div>
         </div>
       </div>
 
@@ -281,8 +351,9 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
               const geminiCount = countUsable(enc.geminiKeys);
               const mistralCount = MISTRAL_ENABLED ? countUsable(enc.mistralKeys) : 0;
               const groqCount = countUsable(enc.groqKeys);
+              const openaiCount = countUsable(enc.openaiKeys);
 
-              const totalUsable = geminiCount + mistralCount + groqCount;
+              const totalUsable = geminiCount + mistralCount + groqCount + openaiCount;
               setCanUseParallel(totalUsable >= 2);
             } catch (error) {
               console.error('Failed to recompute Parallel Mode availability:', error);
@@ -307,6 +378,15 @@ export default function APIControls({ value, onChange }: { value: FormState; onC
               console.log(`✅ APIControls: Form state updated, new groqModel: ${updated.groqModel}`);
               return updated;
             });
+          } else if (provider === 'openai') {
+            console.log(`📝 APIControls: Updating openaiModel from ${value.openaiModel} to ${model}`);
+            onChange(prev => ({ ...prev, openaiModel: model }));
+            // Base URL is saved alongside the model; pick it up from storage
+            getDecryptedJSON<{ openaiBaseUrl?: string } | null>('smg_keys_enc', null).then(enc => {
+              if (enc?.openaiBaseUrl !== undefined) {
+                onChange(prev => ({ ...prev, openaiBaseUrl: enc.openaiBaseUrl }));
+              }
+            });
           } else if (MISTRAL_ENABLED) {
             console.log(`📝 APIControls: Updating mistralModel from ${value.mistralModel} to ${model}`);
             onChange(prev => {
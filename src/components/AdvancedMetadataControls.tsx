@@ -2,7 +2,10 @@
 
 import { useMemo, useState, useEffect } from 'react';
 import { clamp, sanitizeWords } from '@/lib/util';
-import type { FormState } from '@/lib/types';
+import type { FormState, Language, LanguageMode } from '@/lib/types';
+import { PLATFORMS, PLATFORM_LIST } from '@/lib/platforms';
+import { LANGUAGES, LANGUAGE_LIST } from '@/lib/languages';
+import DictionaryManager from '@/components/DictionaryManager';
 
 export default function AdvancedMetadataControls({ value, onChange }: { value: FormState; onChange: (v: FormState | ((prev: FormState) => FormState)) => void }) {
   const [collapsed, setCollapsed] = useState(false);
@@ -51,11 +54,7 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
     ].join(' ');
   }, [value]);
 
-  const platforms = [
-    { id: 'general', label: 'General', icon: '✨' },
-    { id: 'adobe', label: 'Adobe Stock', icon: '🎨' },
-    { id: 'shutterstock', label: 'Shutterstock', icon: '📸' }
-  ];
+  const platforms = PLATFORM_LIST;
 
   return (
     <div className="space-y-6">
@@ -97,9 +96,7 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
                 <div className="label mb-3 text-text-primary">EXPORT PLATFORM</div>
                 <div className="grid grid-cols-3 gap-2">
                   {platforms.map(p => {
-                    const isSelected = (p.id === 'general' && value.platform === 'general') ||
-                                      (p.id === 'adobe' && value.platform === 'adobe') ||
-                                      (p.id === 'shutterstock' && value.platform === 'shutterstock');
+                    const isSelected = p.id === value.platform;
                     return (
                       <button
                         key={p.id}
@@ -108,15 +105,16 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
                             ? 'border-green-accent bg-green-accent/20 text-green-bright shadow-green-glow' 
                             : 'border-green-accent/20 hover:border-green-accent/40 bg-dark-elevated/30 text-text-secondary hover:text-text-primary hover:shadow-green-glow'
                         }`}
-                        onClick={() => {
-                          if (p.id === 'general') set('platform', 'general');
-                          else if (p.id === 'adobe') set('platform', 'adobe');
-                          else if (p.id === 'shutterstock') set('platform', 'shutterstock');
-                        }}
+                        onClick={() =>
+                          // Switching agency also pulls lengths down to that agency's limits
+                          onChange(prev => ({
+                            ...prev,
+                            platform: p.id,
+                            titleLen: Math.min(prev.titleLen, p.limits.titleMax),
+                            keywordCount: Math.min(prev.keywordCount, p.limits.keywordsMax)
+                          }))
+                        }
                       >
-                        {p.id === 'vectorstock' && isSelected && (
-                          <span className="absolute top-1 right-1 text-xs">ðŸ”’</span>
-                        )}
                         <div className="text-lg mb-1">{p.icon}</div>
                         <div>{p.label}</div>
                       </button>
@@ -135,10 +133,10 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
                     <input 
                       type="range" 
                       min={20} 
-                      max={200} 
+                      max={PLATFORMS[value.platform].limits.titleMax} 
                       value={value.titleLen} 
                       className="w-full accent-green-accent"
-                      onChange={(e)=>set('titleLen', clamp(parseInt(e.target.value||'0',10),20,200))} 
+                      onChange={(e)=>set('titleLen', clamp(parseInt(e.target.value||'0',10),20,PLATFORMS[value.platform].limits.titleMax))} 
                     />
                   </div>
                   <div>
@@ -202,6 +200,74 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
                 </p>
               </div>
 
+              <div className="pb-4 border-b border-green-accent/20">
+                <label className="label text-text-primary">Metadata Language</label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    className="select w-48"
+                    value={value.language || 'en'}
+                    onChange={(e) => {
+                      const language = e.target.value as Language;
+                      onChange(prev => ({
+                        ...prev,
+                        language,
+                        extraLanguages: (prev.extraLanguages || []).filter(l => l !== language)
+                      }));
+                    }}
+                  >
+                    {LANGUAGE_LIST.map(l => (
+                      <option key={l.id} value={l.id}>
+                        {l.id === 'en' ? l.label : `${l.nativeLabel} (${l.label})`}
+                      </option>
+                    ))}
+                  </select>
+                  {(value.language || 'en') !== 'en' && (
+                    <select
+                      className="select w-56"
+                      value={value.languageMode || 'native'}
+                      onChange={(e) => set('languageMode', e.target.value as LanguageMode)}
+                    >
+                      <option value="native">Write natively</option>
+                      <option value="translate">Write in English, then translate</option>
+                    </select>
+                  )}
+                </div>
+                <div className="mt-3">
+                  <span className="text-sm text-text-secondary">Also translate to:</span>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {LANGUAGE_LIST.filter(l => l.id !== (value.language || 'en')).map(l => {
+                      const selected = (value.extraLanguages || []).includes(l.id);
+                      return (
+                        <button
+                          key={l.id}
+                          type="button"
+                          onClick={() =>
+                            set('extraLanguages', selected
+                              ? value.extraLanguages.filter(x => x !== l.id)
+                              : [...(value.extraLanguages || []), l.id])
+                          }
+                          className={`px-2 py-1 text-sm rounded-md border transition-colors ${
+                            selected
+                              ? 'border-green-accent bg-green-accent/20 text-green-bright'
+                              : 'border-ink/20 bg-ink/5 text-text-secondary hover:text-text-primary'
+                          }`}
+                        >
+                          {l.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <p className="text-sm text-text-secondary mt-2 flex items-start gap-1.5">
+                  <span className="text-green-bright">💡</span>
+                  <span>
+                    {(value.extraLanguages || []).length > 0
+                      ? `Export CSV downloads a ZIP with one file per language (${[value.language || 'en', ...value.extraLanguages].map(l => LANGUAGES[l].label).join(', ')}).`
+                      : 'Keywords are cleaned with the stopwords and word forms of the selected language.'}
+                  </span>
+                </p>
+              </div>
+
               {value.assetType === 'video' && (
                 <div className="space-y-3">
                   <div className="bg-green-bright/10 border border-green-bright/30 rounded-lg p-3">
@@ -238,6 +304,21 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
               <div className="p-4 bg-dark-surface/20 rounded-lg border border-green-accent/10 pb-4 border-b border-green-accent/20">
                 <div className="label text-text-primary mb-4">TITLE & KEYWORD MODIFIERS</div>
                 <div className="space-y-3">
+                  <label className="inline-flex items-start gap-2 cursor-pointer">
+                    <input 
+                      type="checkbox" 
+                      checked={!!value.reoptimize} 
+                      onChange={(e) => set('reoptimize', e.target.checked)}
+                      className="w-4 h-4 mt-1"
+                    />
+                    <span>
+                      <span className="text-base font-semibold text-text-primary">Re-optimize existing metadata</span>
+                      <span className="block text-sm text-text-secondary">
+                        For files that already contain IPTC/XMP titles and keywords: improve them instead of starting from scratch.
+                      </span>
+                    </span>
+                  </label>
+
                   <label className="inline-flex items-center gap-2 cursor-pointer">
                     <input 
                       type="checkbox" 
@@ -315,6 +396,11 @@ export default function AdvancedMetadataControls({ value, onChange }: { value: F
                       placeholder="Comma-separated negative keywords" 
                     />
                   )}
+
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    <span className="text-sm text-text-secondary">Brands and banned terms are removed before export</span>
+                    <DictionaryManager />
+                  </div>
                 </div>
               </div>
 
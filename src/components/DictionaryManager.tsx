@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  BUILTIN_BANNED_TERMS,
+  BUILTIN_TRADEMARKS,
+  exportDictionaries,
+  getCustomDictionaries,
+  importDictionaries,
+  saveCustomDictionaries
+} from '@/lib/dictionaries';
+import type { CustomDictionaries } from '@/lib/types';
+
+type ListKey = keyof CustomDictionaries;
+
+const LISTS: { key: ListKey; label: string; hint: string }[] = [
+  { key: 'trademarks', label: 'Trademarks & brands', hint: `Added to ${BUILTIN_TRADEMARKS.length} built-in brands, products and characters (e.g. "air jordan", "ford mustang")` },
+  { key: 'banned', label: 'Banned terms', hint: `Added to the built-in banned terms (${BUILTIN_BANNED_TERMS.join(', ')})` },
+  { key: 'whitelist', label: 'Whitelist', hint: 'Exceptions that are never flagged or removed, even if they match a list (e.g. "apple pie")' }
+];
+
+const toText = (lists: CustomDictionaries) =>
+  Object.fromEntries(LISTS.map(({ key }) => [key, lists[key].join('\n')])) as Record<ListKey, string>;
+
+const countTerms = (lists: CustomDictionaries) => lists.trademarks.length + lists.banned.length + lists.whitelist.length;
+
+export default function DictionaryManager() {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState<Record<ListKey, string>>({ trademarks: '', banned: '', whitelist: '' });
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+  const [customCount, setCustomCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Read from localStorage after mount (not during render) to keep hydration consistent
+  useEffect(() => {
+    setCustomCount(countTerms(getCustomDictionaries()));
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setText(toText(getCustomDictionaries()));
+      setMessage(null);
+    }
+  }, [open]);
+
+  const handleSave = () => {
+    const saved = saveCustomDictionaries({
+      trademarks: text.trademarks.split(/[\n,]/),
+      banned: text.banned.split(/[\n,]/),
+      whitelist: text.whitelist.split(/[\n,]/)
+    });
+    setText(toText(saved));
+    setCustomCount(countTerms(saved));
+    setMessage({ kind: 'ok', text: 'Term lists saved. They apply to new generations and every export.' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportDictionaries()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'stock-metadata-term-lists.json';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const merged = importDictionaries(await file.text());
+      setText(toText(merged));
+      setCustomCount(countTerms(merged));
+      setMessage({ kind: 'ok', text: `Imported ${file.name} (merged with your saved lists).` });
+    } catch (error: any) {
+      setMessage({ kind: 'error', text: error?.message || 'Could not import the file' });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-sm text-text-tertiary hover:text-green-bright transition-colors px-3 py-1.5 bg-ink/5 hover:bg-ink/10 rounded border border-ink/20 font-semibold"
+      >
+        Trademark & Banned Terms{customCount > 0 ? ` (${customCount} custom)` : ''}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-[100] flex items-start justify-center bg-black/60 px-4 pt-4 overflow-y-auto animate-fade-in" onClick={() => setOpen(false)}>
+          <div className="bg-dark-elevated rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 text-white shadow-green-glow-lg animate-scale-in border border-green-accent/20 mt-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-bold mb-1">Trademark & Banned Terms</h2>
+                <p className="text-sm text-white/70">One term per line. Multi-word terms are matched as phrases, on whole words only.</p>
+              </div>
+              <button className="text-white/70 hover:text-white text-2xl leading-none" onClick={() => setOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {LISTS.map(({ key, label, hint }) => (
+                <div key={key}>
+                  <label className="label text-white mb-1">{label}</label>
+                  <p className="text-xs text-white/60 mb-2">{hint}</p>
+                  <textarea
+                    className="textarea min-h-[90px]"
+                    value={text[key]}
+                    onChange={(e) => setText(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="One term per line"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {message && (
+              <p className={`mt-4 text-sm ${message.kind === 'ok' ? 'text-green-bright' : 'text-red-400'}`}>{message.text}</p>
+            )}
+
+            <div className="flex flex-wrap justify-between gap-2 mt-6">
+              <div className="flex gap-2">
+                <button
+                  className="btn bg-white/10 hover:bg-white/20 text-white border border-white/20"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Import…
+                </button>
+                <button
+                  className="btn bg-white/10 hover:bg-white/20 text-white border border-white/20"
+                  onClick={handleExport}
+                >
+                  Export
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => handleImport(e.target.files?.[0])}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className="btn bg-white/10 hover:bg-white/20 text-white border border-white/20"
+                  onClick={() => setOpen(false)}
+                >
+                  Close
+                </button>
+                <button className="btn bg-[#3B82F6] hover:bg-[#2563EB] text-white" onClick={handleSave}>
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
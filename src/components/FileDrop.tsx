@@ -1,11 +1,15 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { Row } from '@/lib/csv';
 import BulkEditor from '@/components/BulkEditor';
+import ResultTable, { SEVERITY_STYLES } from '@/components/ResultTable';
 import SkeletonLoader from '@/components/SkeletonLoader';
 import ProgressIndicator from '@/components/ProgressIndicator';
 import { scoreTitleQuality } from '@/lib/util';
+import { platformFromLabel } from '@/lib/platforms';
+import { formatUsd } from '@/lib/pricing';
+import { TOP_KEYWORDS } from '@/lib/keyword-ranking';
 import { 
   getFilePreviewUrl, 
   revokePreviewUrl, 
@@ -14,8 +18,10 @@ import {
   isImageFile,
   isVideoFile,
   compressImageClient,
-  extractVideoFrame
+  extractVideoFrame,
+  readFileMetadata
 } from '@/lib/client-file-util';
+import type { EmbeddableMetadata } from '@/lib/embed-metadata';
 import RetryIndicator from '@/components/RetryIndicator';
 import { useGuardedAction } from '@/hooks/useGuardedAction';
 import LoginModal from '@/components/LoginModal';
@@ -29,6 +35,7 @@ type UploadItem = {
   ext: string;
   file?: File; // File object for client-side storage
   base64?: string; // Optional base64 data (lazy loaded)
+  embedded?: EmbeddableMetadata; // Metadata already embedded in the original file
 };
 
 export default function FileDrop({
@@ -39,6 +46,10 @@ export default function FileDrop({
   generationDisabled = false,
   onExportCSV,
   onExportZIP,
+  onExportEmbedded,
+  onExportSidecars,
+  onImportEmbedded,
+  onImportMetadata,
   hasRows,
   rows = [],
   onRegenerate,
@@ -52,7 +63,9 @@ export default function FileDrop({
   fileToWorkerId = new Map<string, number>(),
   successCount = 0,
   failedCount = 0,
-  showTransparentPngHint = false
+  showTransparentPngHint = false,
+  costEstimate,
+  budgetUsd
 }: {
   files: UploadItem[];
   onFilesChange: (f: UploadItem[]) => void;
@@ -61,6 +74,12 @@ export default function FileDrop({
   generationDisabled?: boolean;
   onExportCSV?: () => void;
   onExportZIP?: () => void;
+  onExportEmbedded?: () => void;
+  onExportSidecars?: () => void;
+  // Called with newly uploaded files that already carry IPTC/XMP metadata
+  onImportEmbedded?: (items: UploadItem[]) => void;
+  // Restore rows from a previously exported CSV/XLSX
+  onImportMetadata?: (file: File) => void;
   hasRows?: boolean;
   rows?: Row[];
   onRegenerate?: (filename: string) => void;
@@ -76,6 +95,9 @@ export default function FileDrop({
   failedCount?: number;
   // When true, show a PNG transparency hint under the action buttons.
   showTransparentPngHint?: boolean;
+  // Estimated tokens/cost of processing all files (cost is undefined when the model has no price)
+  costEstimate?: { inputTokens: number; outputTokens: number; cost?: number };
+  budgetUsd?: number;
 }) {
   const [dragOver, setDragOver] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -83,6 +105,7 @@ export default function FileDrop({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadPhase, setUploadPhase] = useState<'uploading' | 'processing'>('uploading');
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { executeGuarded, loginModalOpen, setLoginModalOpen, reason, handleLoginSuccess } = useGuardedAction();
   const hideSetupUI = generating;
   const startProcessingDisabled = generationDisabled;
@@ -96,6 +119,11 @@ export default function FileDrop({
     return files.reduce((sum, f) => sum + (f.originalSize ?? f.size), 0);
   }, [files]);
 
+  // Rows restored from an imported CSV/XLSX that have no uploaded file to show a card for
+  const importedOnlyRows = useMemo(() => {
+    return rows.filter(r => !files.some(f => f.name === r.filename));
+  }, [rows, files]);
+
   const anyCompressed = useMemo(() => {
     return files.some(f => f.originalSize && f.originalSize !== f.size);
   }, [files]);
@@ -255,12 +283,23 @@ export default function FileDrop({
           ext: ext,
           file: file // Store the File object
         };
+
+        // Pick up titles/keywords already embedded in the file (e.g. older portfolio uploads)
+        const embedded = await readFileMetadata(file);
+        if (embedded) {
+          uploadItem.embedded = embedded;
+        }
         
         newFiles.push(uploadItem);
       }
       
       // Add new files to existing files
       onFilesChange([...(files || []), ...newFiles]);
+
+      const withMetadata = newFiles.filter(f => f.embedded);
+      if (withMetadata.length > 0 && onImportEmbedded) {
+        onImportEmbedded(withMetadata);
+      }
       
       // Reset progress after a short delay
       setTimeout(() => {
@@ -276,6 +315,16 @@ export default function FileDrop({
     }
   };
 
+  const onPickImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onImportMetadata) {
+      onImportMetadata(file);
+    }
+    if (importInputRef.current) {
+      importInputRef.current.value = '';
+    }
+  };
+
   const clearAll = () => {
     if (!confirm('Delete all uploaded files?')) return;
     
@@ -424,8 +473,29 @@ export default function FileDrop({
         </div>
         )}
 
+        {onImportMetadata && !hideSetupUI && (
+          <div className="text-xs text-text-tertiary flex items-center gap-2">
+            <span>Editing a previous batch?</span>
+            <button
+              className="text-green-bright hover:underline font-semibold"
+              onClick={() => importInputRef.current?.click()}
+              title="Load rows from a CSV/XLSX exported by this app, or an Adobe Stock / Shutterstock upload file, then edit and re-export without regenerating"
+            >
+              Import CSV/XLSX
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={onPickImport}
+              className="hidden"
+              style={{ display: 'none' }}
+            />
+          </div>
+        )}
+
         {/* Action Bar */}
-        {files.length > 0 && !hideSetupUI && (
+        {(files.length > 0 || rows.length > 0) && !hideSetupUI && (
           <div className="flex flex-col gap-3">
           <div className="flex items-center gap-3 flex-wrap">
           <button 
@@ -478,6 +548,8 @@ export default function FileDrop({
           {onRegenerateFailed && (() => {
             const failedFiles = files.filter(f => {
               const row = rows.find(r => r.filename === f.name);
+              // Cancelled files never finished, so they are retried too
+              if (row?.cancelled) return true;
               // Only count actual errors (not word count warnings)
               if (!row?.error) return false;
               // Word count warnings are not failures (prompt was generated)
@@ -521,7 +593,7 @@ export default function FileDrop({
               className={`btn btn-secondary text-sm flex items-center gap-1 ${!hasRows ? 'btn-disabled' : ''}`}
               onClick={onExportCSV}
               disabled={!hasRows}
-              title="Export all metadata as a single CSV file (standard format)"
+              title="Export all metadata as a single CSV file (upload format for the selected platform)"
             >
               <span>📥</span>
               Export CSV
@@ -538,6 +610,28 @@ export default function FileDrop({
               Export ZIP (Multi-CSV)
             </button>
           )}
+          {onExportEmbedded && (
+            <button 
+              className={`btn btn-secondary text-sm flex items-center gap-1 ${!hasRows ? 'btn-disabled' : ''}`}
+              onClick={onExportEmbedded}
+              disabled={!hasRows}
+              title="Download a ZIP of your original JPEG, PNG and TIFF files with title, description and keywords written into their XMP/IPTC metadata"
+            >
+              <span>🏷️</span>
+              Export Files (Embedded Metadata)
+            </button>
+          )}
+          {onExportSidecars && (
+            <button 
+              className={`btn btn-secondary text-sm flex items-center gap-1 ${!hasRows ? 'btn-disabled' : ''}`}
+              onClick={onExportSidecars}
+              disabled={!hasRows}
+              title="Download a ZIP of .xmp sidecar files named after each original file (photo.eps -> photo.eps.xmp), plus AI/EPS/SVG names for vectors, for Lightroom, Bridge and agency FTP uploads"
+            >
+              <span>🗂️</span>
+              Export XMP Sidecars
+            </button>
+          )}
           {onRowsUpdate && hasRows && rows.length > 0 && (
             <BulkEditor 
               rows={rows} 
@@ -545,6 +639,20 @@ export default function FileDrop({
             />
           )}
           </div>
+          {!hideSetupUI && costEstimate && files.length > 0 && (
+            <div
+              className="text-xs text-text-secondary"
+              title={`~${costEstimate.inputTokens.toLocaleString()} input + ${costEstimate.outputTokens.toLocaleString()} output tokens, based on ${files.length} file(s) and their average size`}
+            >
+              💰 Est. cost: {costEstimate.cost !== undefined ? `≈ ${formatUsd(costEstimate.cost)}` : 'unknown (no price for this model)'}
+              {budgetUsd !== undefined && (
+                <span className={costEstimate.cost !== undefined && costEstimate.cost > budgetUsd ? 'text-amber-200 font-semibold' : ''}>
+                  {' '}· Budget {formatUsd(budgetUsd)}
+                  {costEstimate.cost !== undefined && costEstimate.cost > budgetUsd && ' (processing will stop when it is reached)'}
+                </span>
+              )}
+            </div>
+          )}
           {!hideSetupUI && showTransparentPngHint && (
             <div className="text-xs text-amber-100 bg-amber-500/10 border border-amber-400/40 rounded-md px-3 py-2 flex items-start gap-2">
               <span>⚠️</span>
@@ -606,7 +714,7 @@ export default function FileDrop({
       </div>
 
       {/* Scrollable Card Container */}
-      {files.length > 0 && (
+      {(files.length > 0 || importedOnlyRows.length > 0) && (
         <div className="flex-1 min-h-0 overflow-y-auto pr-2">
           <div className="space-y-4">
             {files.map((f, index) => {
@@ -631,6 +739,12 @@ export default function FileDrop({
                 </div>
               );
             })}
+            {importedOnlyRows.length > 0 && (
+              <div className="space-y-2">
+                <div className="label text-text-secondary">Imported rows ({importedOnlyRows.length})</div>
+                <ResultTable rows={importedOnlyRows} files={files} />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -776,13 +890,15 @@ function FileCard({
   const statusBadge = row 
     ? isActualError
       ? 'badge-error' 
-      : 'badge-success'
+      : row.cancelled
+        ? 'badge-warning'
+        : 'badge-success'
     : '';
 
   // Calculate quality score for display
   const qualityScore = useMemo(() => {
     if (!row || !row.title || isActualError) return null;
-    const platformLower = row.platform.toLowerCase() as 'general' | 'adobe' | 'shutterstock';
+    const platformLower = platformFromLabel(row.platform);
     const hasImage = ['png', 'jpg', 'jpeg', 'webp'].includes(ext);
     // Use title length as expected length (or default to 200)
     const expectedLength = Math.min(row.title.length + 20, 200);
@@ -860,7 +976,7 @@ function FileCard({
               )}
               {statusBadge && (
                 <div className={`${statusBadge} transition-all hover:scale-105`}>
-                  {isActualError ? 'Error' : 'Complete'}
+                  {isActualError ? 'Error' : row?.cancelled ? 'Cancelled' : 'Complete'}
                 </div>
               )}
             </div>
@@ -939,7 +1055,17 @@ function FileCard({
               {/* Title Section */}
               <div>
                 <div className="flex items-center justify-between mb-2">
-                  <label className="label text-text-secondary">Title</label>
+                  <div className="flex items-center gap-2">
+                    <label className="label text-text-secondary">Title</label>
+                    {row?.cached && !isGenerating && (
+                      <span
+                        className="px-2 py-0.5 text-xs rounded-md border border-green-500/30 bg-green-500/10 text-green-bright"
+                        title="Reused from the generation cache (same image, settings and model). Use Regenerate for a fresh result."
+                      >
+                        ⚡ Cached
+                      </span>
+                    )}
+                  </div>
                   <div className="flex items-center gap-2">
                     {retryInfo && (
                       <RetryIndicator
@@ -992,7 +1118,7 @@ function FileCard({
                     }`}
                     value={row ? title : ''}
                     onChange={(e) => setTitle(e.target.value)}
-                    placeholder={row ? "Title appears here..." : "Waiting to generate..."}
+                    placeholder={row?.cancelled ? 'Cancelled before this file finished' : row ? "Title appears here..." : "Waiting to generate..."}
                     disabled={!row}
                     style={{
                       animation: titleAnimated && row?.title ? 'fadeInUp 0.5s ease-out' : undefined
@@ -1027,15 +1153,23 @@ function FileCard({
                   <>
                     <div className="flex flex-wrap gap-2 mb-2 min-h-[60px] p-3 border border-green-accent/20 rounded-lg bg-dark-surface/30">
                       {revealedKeywords.map((kw, i) => (
-                        <span
-                          key={`${kw}-${i}`}
-                          className="keyword-tag animate-fade-in-scale"
-                          style={{
-                            animation: `fadeInScale 0.3s ease-out ${i * 0.08}s both`
-                          }}
-                        >
-                          {kw}
-                        </span>
+                        <Fragment key={`${kw}-${i}`}>
+                          {i === TOP_KEYWORDS && (
+                            <div className="basis-full flex items-center gap-2 text-xs text-text-secondary">
+                              <span className="h-px flex-1 bg-green-accent/30" />
+                              <span>▲ Top {TOP_KEYWORDS} - weighted most in Adobe Stock search</span>
+                              <span className="h-px flex-1 bg-green-accent/30" />
+                            </div>
+                          )}
+                          <span
+                            className="keyword-tag animate-fade-in-scale"
+                            style={{
+                              animation: `fadeInScale 0.3s ease-out ${i * 0.08}s both`
+                            }}
+                          >
+                            {kw}
+                          </span>
+                        </Fragment>
                       ))}
                       {/* Show placeholder for keywords not yet revealed */}
                       {row.keywords.length > revealedKeywords.length && (
@@ -1054,6 +1188,29 @@ function FileCard({
                   </div>
                 )}
               </div>
+
+              {/* Validation Section */}
+              {!isGenerating && row?.validation && row.validation.length > 0 && (
+                <div>
+                  <label className="label text-text-secondary mb-2">Validation ({row.validation.length})</label>
+                  <ul className="space-y-1">
+                    {row.validation.map((issue, i) => (
+                      <li key={i} className="flex items-start gap-2 text-xs text-text-secondary">
+                        <span
+                          className={`shrink-0 px-2 py-0.5 rounded-md border ${SEVERITY_STYLES[issue.severity]}`}
+                          title={issue.ruleId}
+                        >
+                          {issue.severity}
+                        </span>
+                        <span className="pt-0.5">
+                          {issue.message}
+                          {issue.fixApplied && <span className="ml-1 text-green-bright">(auto-fixed)</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </>
           )}
           
@@ -4,6 +4,7 @@ import { useEffect, useMemo, useState, useRef } from 'react';
 import Image from 'next/image';
 import KeyModal from './KeyModal';
 import { getDecryptedJSON } from '@/lib/util';
+import type { Provider } from '@/lib/types';
 import logo from '@/image/logo.jpeg';
 import { useGuardedAction } from '@/hooks/useGuardedAction';
 import LoginModal from '@/components/LoginModal';
@@ -15,7 +16,7 @@ type HeaderProps = {
   onExportCSV?: () => void;
   hasRows?: boolean;
   geminiModel?: string;
-  onModelChanged?: (provider: 'gemini' | 'mistral' | 'groq', model: any) => void;
+  onModelChanged?: (provider: Provider, model: any) => void;
 };
 
 export default function Header({ onExportCSV, hasRows = false, geminiModel, onModelChanged }: HeaderProps) {
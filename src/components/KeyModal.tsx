@@ -3,7 +3,8 @@
 import { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { getDecryptedJSON, setEncryptedJSON } from '@/lib/util';
-import type { GeminiModel, MistralModel, GroqModel } from '@/lib/types';
+import { getKeyUsage, getQuotaWarning, resetKeyUsage, type KeyErrorType } from '@/lib/key-usage';
+import type { GeminiModel, MistralModel, GroqModel, Provider } from '@/lib/types';
 
 // Feature flag: Mistral is temporarily disabled (paid service)
 const MISTRAL_ENABLED = false;
@@ -34,6 +35,18 @@ const GROQ_MODELS: Array<{ value: GroqModel; label: string; quota: string }> = [
   { value: 'meta-llama/llama-4-maverick-17b-128e-instruct', label: 'Llama 4 Maverick 17B (multimodal, stronger)', quota: 'Free/preview tier (check Groq docs)' }
 ];
 
+const ERROR_TYPE_LABELS: Record<KeyErrorType, string> = {
+  'rate-limit': 'rate limit',
+  quota: 'quota',
+  auth: 'auth',
+  server: 'server',
+  network: 'network',
+  other: 'other'
+};
+
+// OpenAI-compatible servers: base URL and model are typed in (Ollama's endpoint by default)
+const OPENAI_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
 export default function KeyModal({
   open,
   onOpenChange,
@@ -42,10 +55,10 @@ export default function KeyModal({
 }: {
   open: boolean;
   onOpenChange: (v: boolean) => void;
-  onKeysChanged?: (provider: 'gemini' | 'mistral' | 'groq', usableCount: number) => void;
-  onModelChanged?: (provider: 'gemini' | 'mistral' | 'groq', model: GeminiModel | MistralModel | GroqModel) => void;
+  onKeysChanged?: (provider: Provider, usableCount: number) => void;
+  onModelChanged?: (provider: Provider, model: GeminiModel | MistralModel | GroqModel | string) => void;
 }) {
-  const [activeProvider, setActiveProvider] = useState<'gemini'|'mistral'|'groq'>('gemini');
+  const [activeProvider, setActiveProvider] = useState<Provider>('gemini');
   
   // Force provider to Gemini if Mistral is disabled
   useEffect(() => {
@@ -57,22 +70,62 @@ export default function KeyModal({
   const [geminiKeys, setGeminiKeys] = useState<StoredKey[]>([]);
   const [mistralKeys, setMistralKeys] = useState<StoredKey[]>([]);
   const [groqKeys, setGroqKeys] = useState<StoredKey[]>([]);
+  const [openaiKeys, setOpenaiKeys] = useState<StoredKey[]>([]);
   const [activeKeyId, setActiveKeyId] = useState<string>('');
   const [testingNewKey, setTestingNewKey] = useState(false);
   const [newKeyTestResult, setNewKeyTestResult] = useState<{ success: boolean; message?: string } | null>(null);
   const [geminiModel, setGeminiModel] = useState<GeminiModel>('gemini-2.5-flash');
   const [mistralModel, setMistralModel] = useState<MistralModel>('mistral-small-latest');
   const [groqModel, setGroqModel] = useState<GroqModel>('meta-llama/llama-4-scout-17b-16e-instruct');
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState(OPENAI_DEFAULT_BASE_URL);
+  const [openaiModel, setOpenaiModel] = useState('');
   const [savingModel, setSavingModel] = useState(false);
   const [modelSaved, setModelSaved] = useState(false);
 
   const getUsableCount = (keys: StoredKey[]) =>
     keys.filter(k => k.enabledForParallel !== false && k.key && k.key.trim().length > 0).length;
 
-  const notifyKeysChanged = (provider: 'gemini' | 'mistral' | 'groq', keys: StoredKey[]) => {
+  const notifyKeysChanged = (provider: Provider, keys: StoredKey[]) => {
     onKeysChanged?.(provider, getUsableCount(keys));
   };
 
+  const keysFor = (provider: Provider) =>
+    provider === 'gemini' ? geminiKeys
+      : provider === 'groq' ? groqKeys
+      : provider === 'openai' ? openaiKeys
+      : mistralKeys;
+
+  const setKeysFor = (provider: Provider, update: (keys: StoredKey[]) => StoredKey[]) => {
+    if (provider === 'gemini') {
+      setGeminiKeys(update);
+    } else if (provider === 'groq') {
+      setGroqKeys(update);
+    } else if (provider === 'openai') {
+      setOpenaiKeys(update);
+    } else {
+      setMistralKeys(update);
+    }
+  };
+
+  // Save every provider's key list (with `provider`'s replaced by `updated`) and model preferences.
+  // `extra` overrides stored fields such as the active key.
+  const persistKeys = async (provider: Provider, updated: StoredKey[], extra: Record<string, unknown> = {}) => {
+    const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
+    await setEncryptedJSON('smg_keys_enc', {
+      ...current,
+      geminiKeys,
+      mistralKeys,
+      groqKeys,
+      openaiKeys,
+      [`${provider}Keys`]: updated,
+      geminiModel: provider === 'gemini' ? geminiModel : (current?.geminiModel || geminiModel),
+      mistralModel: provider === 'mistral' ? mistralModel : (current?.mistralModel || mistralModel),
+      groqModel: provider === 'groq' ? groqModel : (current?.groqModel || groqModel),
+      ...extra
+    });
+    notifyKeysChanged(provider, updated);
+  };
+
   useEffect(() => {
     if (!open) return;
     (async () => {
@@ -80,11 +133,14 @@ export default function KeyModal({
         geminiKeys?: StoredKey[];
         mistralKeys?: StoredKey[];
         groqKeys?: StoredKey[];
-        active?: 'gemini'|'mistral'|'groq';
+        openaiKeys?: StoredKey[];
+        active?: Provider;
         activeKeyId?: string;
         geminiModel?: GeminiModel;
         mistralModel?: MistralModel;
         groqModel?: GroqModel;
+        openaiBaseUrl?: string;
+        openaiModel?: string;
       }>('smg_keys_enc', null as any);
       if (v) {
         // Ensure backward compatibility: default enabledForParallel to true if not set
@@ -98,9 +154,11 @@ export default function KeyModal({
         const normGemini = normalizeKeys(v.geminiKeys);
         const normMistral = normalizeKeys(v.mistralKeys);
         const normGroq = normalizeKeys(v.groqKeys);
+        const normOpenai = normalizeKeys(v.openaiKeys);
         setGeminiKeys(normGemini);
         setMistralKeys(normMistral);
         setGroqKeys(normGroq);
+        setOpenaiKeys(normOpenai);
 
         const provider = v.active || 'gemini';
         setActiveProvider(provider);
@@ -123,14 +181,23 @@ export default function KeyModal({
               : 'meta-llama/llama-4-scout-17b-16e-instruct'; // Default to Scout
           setGroqModel(normalizedGroqModel);
         }
+        if (v.openaiBaseUrl) {
+          setOpenaiBaseUrl(v.openaiBaseUrl);
+        }
+        if (v.openaiModel) {
+          setOpenaiModel(v.openaiModel);
+        }
 
-        const initialKeys = provider === 'gemini' ? normGemini : provider === 'groq' ? normGroq : normMistral;
+        const initialKeys = provider === 'gemini' ? normGemini
+          : provider === 'groq' ? normGroq
+          : provider === 'openai' ? normOpenai
+          : normMistral;
         notifyKeysChanged(provider, initialKeys);
       }
     })();
   }, [open]);
 
-  const saveModelPreference = async (provider: 'gemini' | 'mistral' | 'groq', model: GeminiModel | MistralModel | GroqModel) => {
+  const saveModelPreference = async (provider: Provider, model: GeminiModel | MistralModel | GroqModel | string) => {
     try {
       console.log(`💾 saveModelPreference: Starting save for ${provider} -> ${model}`);
       const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
@@ -141,12 +208,16 @@ export default function KeyModal({
         geminiKeys: geminiKeys,
         mistralKeys: mistralKeys,
         groqKeys: groqKeys,
+        openaiKeys: openaiKeys,
         active: activeProvider,
         activeKeyId: activeKeyId,
         bearer: current?.bearer || '',
         geminiModel: provider === 'gemini' ? model : (current?.geminiModel || geminiModel),
         mistralModel: provider === 'mistral' ? model : (current?.mistralModel || mistralModel),
-        groqModel: provider === 'groq' ? model : (current?.groqModel || groqModel)
+        groqModel: provider === 'groq' ? model : (current?.groqModel || groqModel),
+        // The OpenAI-compatible endpoint is saved together with its model name
+        openaiBaseUrl: provider === 'openai' ? openaiBaseUrl.trim() : (current?.openaiBaseUrl || openaiBaseUrl),
+        openaiModel: provider === 'openai' ? model : (current?.openaiModel || openaiModel)
       };
       
       console.log(`💾 saveModelPreference: Saving data with geminiModel: ${updatedData.geminiModel}, mistralModel: ${updatedData.mistralModel}`);
@@ -178,173 +249,72 @@ export default function KeyModal({
       visible: false,
       enabledForParallel: true // New keys are selected for parallel by default
     };
-    const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
-    
-    if (activeProvider === 'gemini') {
-      const updated = [...geminiKeys, keyObj];
-      setGeminiKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys: updated,
-        mistralKeys,
-        groqKeys,
-        active: activeProvider,
-        activeKeyId: keyObj.id,
-        bearer: newKey.trim(),
-        geminiModel: geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('gemini', updated);
-    } else if (activeProvider === 'groq') {
-      const updated = [...groqKeys, keyObj];
-      setGroqKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys,
-        groqKeys: updated,
-        active: activeProvider,
-        activeKeyId: keyObj.id,
-        bearer: newKey.trim(),
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: groqModel
-      });
-      notifyKeysChanged('groq', updated);
-    } else {
-      const updated = [...mistralKeys, keyObj];
-      setMistralKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys: updated,
-        groqKeys,
-        active: activeProvider,
-        activeKeyId: keyObj.id,
-        bearer: newKey.trim(),
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('mistral', updated);
-    }
+    const updated = [...keysFor(activeProvider), keyObj];
+    setKeysFor(activeProvider, () => updated);
+    await persistKeys(activeProvider, updated, {
+      active: activeProvider,
+      activeKeyId: keyObj.id,
+      bearer: newKey.trim()
+    });
     setNewKey('');
   };
 
   const deleteKey = async (id: string) => {
-    const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
-    if (activeProvider === 'gemini') {
-      const updated = geminiKeys.filter(k => k.id !== id);
-      setGeminiKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys: updated,
-        mistralKeys,
-        groqKeys,
-        active: activeProvider,
-        activeKeyId: updated.length > 0 ? updated[0].id : '',
-        bearer: updated.length > 0 ? updated[0].key : '',
-        geminiModel: geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('gemini', updated);
-    } else if (activeProvider === 'groq') {
-      const updated = groqKeys.filter(k => k.id !== id);
-      setGroqKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys,
-        groqKeys: updated,
-        active: activeProvider,
-        activeKeyId: updated.length > 0 ? updated[0].id : '',
-        bearer: updated.length > 0 ? updated[0].key : '',
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: groqModel
-      });
-      notifyKeysChanged('groq', updated);
-    } else {
-      const updated = mistralKeys.filter(k => k.id !== id);
-      setMistralKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys: updated,
-        groqKeys,
-        active: activeProvider,
-        activeKeyId: updated.length > 0 ? updated[0].id : '',
-        bearer: updated.length > 0 ? updated[0].key : '',
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('mistral', updated);
-    }
+    const updated = keysFor(activeProvider).filter(k => k.id !== id);
+    setKeysFor(activeProvider, () => updated);
+    await persistKeys(activeProvider, updated, {
+      active: activeProvider,
+      activeKeyId: updated.length > 0 ? updated[0].id : '',
+      bearer: updated.length > 0 ? updated[0].key : ''
+    });
   };
 
   const toggleVisibility = (id: string) => {
-    if (activeProvider === 'gemini') {
-      setGeminiKeys(keys => keys.map(k => k.id === id ? { ...k, visible: !k.visible } : k));
-    } else if (activeProvider === 'groq') {
-      setGroqKeys(keys => keys.map(k => k.id === id ? { ...k, visible: !k.visible } : k));
-    } else {
-      setMistralKeys(keys => keys.map(k => k.id === id ? { ...k, visible: !k.visible } : k));
-    }
+    setKeysFor(activeProvider, keys => keys.map(k => k.id === id ? { ...k, visible: !k.visible } : k));
   };
 
   const setActiveKey = async (id: string) => {
-    const keys = activeProvider === 'gemini' ? geminiKeys : activeProvider === 'groq' ? groqKeys : mistralKeys;
+    const keys = keysFor(activeProvider);
     const key = keys.find(k => k.id === id);
     if (key) {
       setActiveKeyId(id);
-      const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys,
-        groqKeys,
+      await persistKeys(activeProvider, keys, {
         active: activeProvider,
         activeKeyId: id,
-        bearer: key.key,
-        geminiModel: geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: current?.groqModel || groqModel
+        bearer: key.key
       });
-      notifyKeysChanged(activeProvider, keys);
     }
   };
 
+  // Body for /api/test-key; OpenAI-compatible servers are tested against the configured endpoint
+  const testKeyBody = (apiKey: string) => JSON.stringify(
+    activeProvider === 'openai'
+      ? { provider: activeProvider, apiKey, baseUrl: openaiBaseUrl, model: openaiModel }
+      : { provider: activeProvider, apiKey }
+  );
+
+  const updateKeyStatus = (id: string, status: StoredKey['testStatus'], error?: string) => {
+    setKeysFor(activeProvider, keys => keys.map(k => k.id === id ? { ...k, testStatus: status, testError: error } : k));
+  };
+
   const testKey = async (key: string, id?: string) => {
     if (id) {
       // Test existing key
-      const updateKeyStatus = (status: StoredKey['testStatus'], error?: string) => {
-        if (activeProvider === 'gemini') {
-          setGeminiKeys(keys => keys.map(k => k.id === id ? { ...k, testStatus: status, testError: error } : k));
-        } else if (activeProvider === 'groq') {
-          setGroqKeys(keys => keys.map(k => k.id === id ? { ...k, testStatus: status, testError: error } : k));
-        } else {
-          setMistralKeys(keys => keys.map(k => k.id === id ? { ...k, testStatus: status, testError: error } : k));
-        }
-      };
-      
-      updateKeyStatus('testing');
+      updateKeyStatus(id, 'testing');
       try {
         const res = await fetch('/api/test-key', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ provider: activeProvider, apiKey: key })
+          body: testKeyBody(key)
         });
         const data = await res.json();
         if (data.success) {
-          updateKeyStatus('success');
+          updateKeyStatus(id, 'success');
         } else {
-          updateKeyStatus('error', data.error || 'Test failed');
+          updateKeyStatus(id, 'error', data.error || 'Test failed');
         }
       } catch (error: any) {
-        updateKeyStatus('error', error.message || 'Failed to test key');
+        updateKeyStatus(id, 'error', error.message || 'Failed to test key');
       }
     } else {
       // Test new key
@@ -354,7 +324,7 @@ export default function KeyModal({
         const res = await fetch('/api/test-key', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ provider: activeProvider, apiKey: key })
+          body: testKeyBody(key)
         });
         const data = await res.json();
         setNewKeyTestResult({
@@ -372,7 +342,7 @@ export default function KeyModal({
     }
   };
 
-  const currentKeys = activeProvider === 'gemini' ? geminiKeys : activeProvider === 'groq' ? groqKeys : mistralKeys;
+  const currentKeys = keysFor(activeProvider);
   const maskKey = (key: string) => {
     if (key.length <= 8) return key;
     return `${key.slice(0, 4)}...${key.slice(-4)}`;
@@ -384,92 +354,16 @@ export default function KeyModal({
 
   // Move key to selected (enable for parallel)
   const moveToSelected = async (id: string) => {
-    const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
-    if (activeProvider === 'gemini') {
-      const updated = geminiKeys.map(k => k.id === id ? { ...k, enabledForParallel: true } : k);
-      setGeminiKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys: updated,
-        mistralKeys,
-        groqKeys,
-        geminiModel: geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('gemini', updated);
-    } else if (activeProvider === 'groq') {
-      const updated = groqKeys.map(k => k.id === id ? { ...k, enabledForParallel: true } : k);
-      setGroqKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys,
-        groqKeys: updated,
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: groqModel
-      });
-      notifyKeysChanged('groq', updated);
-    } else {
-      const updated = mistralKeys.map(k => k.id === id ? { ...k, enabledForParallel: true } : k);
-      setMistralKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys: updated,
-        groqKeys,
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('mistral', updated);
-    }
+    const updated = keysFor(activeProvider).map(k => k.id === id ? { ...k, enabledForParallel: true } : k);
+    setKeysFor(activeProvider, () => updated);
+    await persistKeys(activeProvider, updated);
   };
 
   // Move key to available (disable for parallel)
   const moveToAvailable = async (id: string) => {
-    const current = await getDecryptedJSON<any>('smg_keys_enc', null as any);
-    if (activeProvider === 'gemini') {
-      const updated = geminiKeys.map(k => k.id === id ? { ...k, enabledForParallel: false } : k);
-      setGeminiKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys: updated,
-        mistralKeys,
-        groqKeys,
-        geminiModel: geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('gemini', updated);
-    } else if (activeProvider === 'groq') {
-      const updated = groqKeys.map(k => k.id === id ? { ...k, enabledForParallel: false } : k);
-      setGroqKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys,
-        groqKeys: updated,
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: current?.mistralModel || mistralModel,
-        groqModel: groqModel
-      });
-      notifyKeysChanged('groq', updated);
-    } else {
-      const updated = mistralKeys.map(k => k.id === id ? { ...k, enabledForParallel: false } : k);
-      setMistralKeys(updated);
-      await setEncryptedJSON('smg_keys_enc', {
-        ...current,
-        geminiKeys,
-        mistralKeys: updated,
-        groqKeys,
-        geminiModel: current?.geminiModel || geminiModel,
-        mistralModel: mistralModel,
-        groqModel: current?.groqModel || groqModel
-      });
-      notifyKeysChanged('mistral', updated);
-    }
+    const updated = keysFor(activeProvider).map(k => k.id === id ? { ...k, enabledForParallel: false } : k);
+    setKeysFor(activeProvider, () => updated);
+    await persistKeys(activeProvider, updated);
   };
 
   // Test all selected keys
@@ -477,25 +371,11 @@ export default function KeyModal({
     if (selectedKeys.length === 0) return;
     
     // Update all selected keys to testing status
-    if (activeProvider === 'gemini') {
-      setGeminiKeys(keys => keys.map(k => 
-        selectedKeys.some(sk => sk.id === k.id) 
-          ? { ...k, testStatus: 'testing' as const } 
-          : k
-      ));
-    } else if (activeProvider === 'groq') {
-      setGroqKeys(keys => keys.map(k => 
-        selectedKeys.some(sk => sk.id === k.id) 
-          ? { ...k, testStatus: 'testing' as const } 
-          : k
-      ));
-    } else {
-      setMistralKeys(keys => keys.map(k => 
-        selectedKeys.some(sk => sk.id === k.id) 
-          ? { ...k, testStatus: 'testing' as const } 
-          : k
-      ));
-    }
+    setKeysFor(activeProvider, keys => keys.map(k => 
+      selectedKeys.some(sk => sk.id === k.id) 
+        ? { ...k, testStatus: 'testing' as const } 
+        : k
+    ));
     
     // Test all selected keys in parallel
     const testPromises = selectedKeys.map(async (keyObj) => {
@@ -503,48 +383,17 @@ export default function KeyModal({
         const res = await fetch('/api/test-key', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ provider: activeProvider, apiKey: keyObj.key })
+          body: testKeyBody(keyObj.key)
         });
         const data = await res.json();
         
-        const updateKeyStatus = (status: StoredKey['testStatus'], error?: string) => {
-          if (activeProvider === 'gemini') {
-            setGeminiKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          } else if (activeProvider === 'groq') {
-            setGroqKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          } else {
-            setMistralKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          }
-        };
-        
         if (data.success) {
-          updateKeyStatus('success');
+          updateKeyStatus(keyObj.id, 'success');
         } else {
-          updateKeyStatus('error', data.error || 'Test failed');
+          updateKeyStatus(keyObj.id, 'error', data.error || 'Test failed');
         }
       } catch (error: any) {
-        const updateKeyStatus = (status: StoredKey['testStatus'], error?: string) => {
-          if (activeProvider === 'gemini') {
-            setGeminiKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          } else if (activeProvider === 'groq') {
-            setGroqKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          } else {
-            setMistralKeys(keys => keys.map(k => 
-              k.id === keyObj.id ? { ...k, testStatus: status, testError: error } : k
-            ));
-          }
-        };
-        updateKeyStatus('error', error.message || 'Failed to test key');
+        updateKeyStatus(keyObj.id, 'error', error.message || 'Failed to test key');
       }
     });
     
@@ -584,6 +433,55 @@ export default function KeyModal({
     return null;
   };
 
+  // Per-key usage counters (persisted locally by the generate flows) with a free-tier warning
+  const [, setUsageVersion] = useState(0);
+  const selectedModel = activeProvider === 'gemini' ? geminiModel
+    : activeProvider === 'groq' ? groqModel
+    : activeProvider === 'mistral' ? mistralModel
+    : openaiModel;
+  const renderUsage = (keyObj: StoredKey) => {
+    const usage = getKeyUsage(activeProvider, keyObj.key);
+    if (usage.requests === 0) return null;
+    const warning = getQuotaWarning(usage, selectedModel);
+    const failures = (Object.entries(usage.failures) as [KeyErrorType, number][]).filter(([, n]) => n > 0);
+    return (
+      <div className="text-xs text-text-secondary bg-dark-surface/30 px-2 py-1.5 rounded border border-white/10 space-y-1">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span><strong className="text-text-primary">{usage.requestsToday}</strong> today</span>
+          <span><strong className="text-text-primary">{usage.successes}</strong>/{usage.requests} succeeded</span>
+          {usage.tokens > 0 && (
+            <span><strong className="text-text-primary">{usage.tokensToday.toLocaleString()}</strong> tokens today ({usage.tokens.toLocaleString()} total)</span>
+          )}
+          {failures.length > 0 && (
+            <span className="text-red-400">
+              Failures: {failures.map(([type, n]) => `${n} ${ERROR_TYPE_LABELS[type]}`).join(', ')}
+            </span>
+          )}
+          <button
+            onClick={() => {
+              resetKeyUsage(activeProvider, keyObj.key);
+              setUsageVersion(v => v + 1);
+            }}
+            className="ml-auto text-text-tertiary hover:text-text-primary transition-colors"
+            title="Reset usage counters for this key"
+          >
+            Reset
+          </button>
+        </div>
+        {usage.lastError && (
+          <div className="text-red-400/90 truncate" title={usage.lastError}>
+            Last error{usage.lastErrorAt ? ` (${new Date(usage.lastErrorAt).toLocaleString()})` : ''}: {usage.lastError}
+          </div>
+        )}
+        {warning && (
+          <div className={warning.level === 'exhausted' ? 'text-red-400' : 'text-amber-300'}>
+            ⚠️ {warning.message}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
@@ -649,6 +547,25 @@ export default function KeyModal({
               </div>
             </button>
 
+            <button
+              onClick={() => setActiveProvider('openai')}
+              className={`px-4 py-3 font-medium text-sm transition-all relative ${
+                activeProvider === 'openai'
+                  ? 'text-[#14B8A6] border-b-2 border-[#14B8A6]'
+                  : 'text-white/70 hover:text-white'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span>🖥️</span>
+                <span>OpenAI-compatible</span>
+                {openaiKeys.length > 0 && (
+                  <span className="ml-1 px-1.5 py-0.5 text-xs bg-green-500/20 text-green-400 rounded border border-green-500/30">
+                    {openaiKeys.length}
+                  </span>
+                )}
+              </div>
+            </button>
+
             {MISTRAL_ENABLED && (
               <button
                 onClick={() => setActiveProvider('mistral')}
@@ -674,9 +591,33 @@ export default function KeyModal({
 
         {/* Provider-specific content */}
         <div className="mb-6">
-          <label className="text-sm font-medium mb-2 block">Select Model</label>
+          <label className="text-sm font-medium mb-2 block">{activeProvider === 'openai' ? 'Server & Model' : 'Select Model'}</label>
           <div className="mb-3">
             <div className="flex gap-2 items-start">
+              {activeProvider === 'openai' ? (
+                <div className="flex-1 space-y-2">
+                  <input
+                    className="w-full bg-white/10 border-2 border-[#14B8A6] rounded-md px-3 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#14B8A6]"
+                    type="url"
+                    placeholder={`Base URL (e.g. ${OPENAI_DEFAULT_BASE_URL})`}
+                    value={openaiBaseUrl}
+                    onChange={(e) => {
+                      setOpenaiBaseUrl(e.target.value);
+                      setModelSaved(false);
+                    }}
+                  />
+                  <input
+                    className="w-full bg-white/10 border-2 border-[#14B8A6] rounded-md px-3 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#14B8A6]"
+                    type="text"
+                    placeholder="Model name (e.g. llava, qwen2.5vl:7b)"
+                    value={openaiModel}
+                    onChange={(e) => {
+                      setOpenaiModel(e.target.value);
+                      setModelSaved(false);
+                    }}
+                  />
+                </div>
+              ) : (
               <select
                 value={activeProvider === 'gemini' ? geminiModel : activeProvider === 'groq' ? groqModel : mistralModel}
                 onChange={(e) => {
@@ -706,12 +647,13 @@ export default function KeyModal({
                   </option>
                 ))}
               </select>
+              )}
               <button
                 onClick={async () => {
                   setSavingModel(true);
                   setModelSaved(false);
                   try {
-                    const currentModel = activeProvider === 'gemini' ? geminiModel : activeProvider === 'groq' ? groqModel : mistralModel;
+                    const currentModel = activeProvider === 'gemini' ? geminiModel : activeProvider === 'groq' ? groqModel : activeProvider === 'openai' ? openaiModel : mistralModel;
                     console.log(`💾 Saving model preference: ${activeProvider} -> ${currentModel}`);
                     
                     if (activeProvider === 'gemini') {
@@ -728,6 +670,13 @@ export default function KeyModal({
                         onModelChanged('groq', groqModel);
                         await new Promise(resolve => setTimeout(resolve, 50));
                       }
+                    } else if (activeProvider === 'openai') {
+                      await saveModelPreference('openai', openaiModel.trim());
+                      console.log(`✅ Model saved to storage: ${openaiModel} @ ${openaiBaseUrl}`);
+                      if (onModelChanged) {
+                        onModelChanged('openai', openaiModel.trim());
+                        await new Promise(resolve => setTimeout(resolve, 50));
+                      }
                     } else if (MISTRAL_ENABLED) {
                       await saveModelPreference('mistral', mistralModel);
                       console.log(`✅ Model saved to storage: ${mistralModel}`);
@@ -792,6 +741,8 @@ export default function KeyModal({
                       ? GEMINI_MODELS.find(m => m.value === geminiModel)?.quota 
                       : activeProvider === 'groq'
                       ? GROQ_MODELS.find(m => m.value === groqModel)?.quota
+                      : activeProvider === 'openai'
+                      ? 'No quota (runs on your own server)'
                       : (MISTRAL_ENABLED ? MISTRAL_MODELS.find(m => m.value === mistralModel)?.quota : GEMINI_MODELS.find(m => m.value === geminiModel)?.quota)}
                   </span>
                 </span>
@@ -817,26 +768,34 @@ export default function KeyModal({
                   </div>
                 </div>
               )}
+              {activeProvider === 'openai' && (
+                <div className="text-xs text-white/60 space-y-1">
+                  <div className="italic">💡 Any server with an OpenAI-style /v1/chat/completions endpoint: Ollama ({OPENAI_DEFAULT_BASE_URL}), LM Studio (http://localhost:1234/v1), vLLM (http://localhost:8000/v1)</div>
+                  <div className="italic">Pick a vision model (e.g. llava, qwen2.5vl) so images are analyzed. Click &quot;Save&quot; to store the URL and model.</div>
+                </div>
+              )}
             </div>
           </div>
         </div>
 
         <div className="mb-6">
           <label className="text-sm font-medium mb-2 block">
-            {activeProvider === 'gemini' ? 'Google Gemini API Keys' : activeProvider === 'groq' ? 'Groq API Keys' : 'Mistral API Keys'}
+            {activeProvider === 'gemini' ? 'Google Gemini API Keys' : activeProvider === 'groq' ? 'Groq API Keys' : activeProvider === 'openai' ? 'API Keys (optional)' : 'Mistral API Keys'}
           </label>
           <p className="text-xs text-white/70 mb-2">
             {activeProvider === 'gemini' 
               ? 'Gemini API keys should start with "AIza"'
               : activeProvider === 'groq'
               ? 'Groq API keys can be obtained from console.groq.com'
+              : activeProvider === 'openai'
+              ? 'Only needed if your server requires one (e.g. vLLM started with --api-key). Local Ollama / LM Studio need no key - use Test to check the server.'
               : 'Mistral API keys should be obtained from console.mistral.ai'}
           </p>
           <div className="flex gap-2">
             <input
               className="flex-1 bg-white/10 border-2 border-[#14B8A6] rounded-md px-3 py-2 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#14B8A6]"
               type="password"
-              placeholder={activeProvider === 'gemini' ? 'Enter Gemini API key' : activeProvider === 'groq' ? 'Enter Groq API key' : 'Enter Mistral API key'}
+              placeholder={activeProvider === 'gemini' ? 'Enter Gemini API key' : activeProvider === 'groq' ? 'Enter Groq API key' : activeProvider === 'openai' ? 'Enter API key (optional)' : 'Enter Mistral API key'}
               value={newKey}
               onChange={(e) => {
                 setNewKey(e.target.value);
@@ -846,7 +805,7 @@ export default function KeyModal({
             />
             <button
               onClick={() => testKey(newKey)}
-              disabled={!newKey.trim() || testingNewKey}
+              disabled={(!newKey.trim() && activeProvider !== 'openai') || testingNewKey}
               className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-md px-4 py-2 text-sm font-medium"
               title="Test Connection"
             >
@@ -872,6 +831,8 @@ export default function KeyModal({
               ? 'https://makersuite.google.com/app/apikey' 
               : activeProvider === 'groq'
               ? 'https://console.groq.com/keys'
+              : activeProvider === 'openai'
+              ? 'https://github.com/ollama/ollama/blob/main/docs/openai.md'
               : 'https://console.mistral.ai/api-keys/'}
             target="_blank"
             rel="noopener noreferrer"
@@ -881,6 +842,8 @@ export default function KeyModal({
               ? 'Get Google Gemini API Key'
               : activeProvider === 'groq'
               ? 'Get Groq API Key'
+              : activeProvider === 'openai'
+              ? 'Ollama OpenAI compatibility docs'
               : 'Get Mistral API Key'}
             <span>↗</span>
           </a>
@@ -950,6 +913,8 @@ export default function KeyModal({
                             </div>
                           )}
 
+                          {renderUsage(keyObj)}
+
                           {/* Divider */}
                           <div className="border-t border-green-accent/10"></div>
 
@@ -1044,6 +1009,8 @@ export default function KeyModal({
                           </div>
                         )}
 
+                        {renderUsage(keyObj)}
+
                         {/* Divider */}
                         <div className="border-t border-white/10"></div>
 
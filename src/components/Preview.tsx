@@ -3,8 +3,10 @@
 import { useMemo } from 'react';
 import type { Row } from '@/lib/csv';
 import { scoreTitleQuality } from '@/lib/util';
+import { PLATFORMS } from '@/lib/platforms';
+import type { Platform } from '@/lib/types';
 
-export default function Preview({ row, platform }: { row: Row; platform: 'general' | 'adobe' | 'shutterstock' }) {
+export default function Preview({ row, platform }: { row: Row; platform: Platform }) {
   const validation = useMemo(() => {
     const issues: string[] = [];
     const warnings: string[] = [];
@@ -214,6 +216,12 @@ export default function Preview({ row, platform }: { row: Row; platform: 'genera
                 <div>• Avoid platform-specific terms like “Adobe Stock” or “Shutterstock”</div>
               </>
             )}
+            {!['adobe', 'shutterstock', 'general'].includes(platform) && (
+              <>
+                <div>• Title up to {PLATFORMS[platform].limits.titleMax} characters, up to {PLATFORMS[platform].limits.keywordsMax} keywords</div>
+                <div>• {PLATFORMS[platform].tips}</div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -1,7 +1,9 @@
 'use client';
 
 import { Row } from '@/lib/csv';
-import { useState, useEffect } from 'react';
+import type { ValidationSeverity } from '@/lib/types';
+import { TOP_KEYWORDS } from '@/lib/keyword-ranking';
+import { useState, useEffect, Fragment } from 'react';
 
 type UploadItem = { 
   name: string; 
@@ -44,6 +46,13 @@ export default function ResultTable({
   );
 }
 
+// Badge colours for platform validation issues
+export const SEVERITY_STYLES: Record<ValidationSeverity, string> = {
+  error: 'border-red-500/30 bg-red-500/20 text-red-400',
+  warning: 'border-amber-400/40 bg-amber-500/10 text-amber-100',
+  info: 'border-blue-400/40 bg-blue-500/10 text-blue-100'
+};
+
 function ResultCard({ 
   row, 
   file,
@@ -66,14 +75,14 @@ function ResultCard({
     <div className="card p-4">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="aspect-square bg-deep/5 rounded overflow-hidden">
-          {['png','jpg','jpeg','webp','svg'].includes(ext) ? (
+          {file && ['png','jpg','jpeg','webp','svg'].includes(ext) ? (
             // eslint-disable-next-line @next/next/no-img-element
             <img src={getPreviewUrl()} alt={row.filename} className="w-full h-full object-cover" />
-          ) : ['mp4','mov','m4v','webm'].includes(ext) ? (
+          ) : file && ['mp4','mov','m4v','webm'].includes(ext) ? (
             <video className="w-full h-full object-cover" src={getPreviewUrl()} controls preload="metadata" />
           ) : (
             <div className="w-full h-full flex items-center justify-center bg-warm/20 text-sm font-semibold uppercase text-ink/70">
-              {ext} vector
+              {file ? `${ext} vector` : `${ext} (no preview)`}
             </div>
           )}
         </div>
@@ -107,7 +116,33 @@ function ResultCard({
             <>
               <div>
                 <div className="flex items-center justify-between mb-2">
-                  <label className="label">T Title</label>
+                  <div className="flex items-center gap-2">
+                    <label className="label">T Title</label>
+                    {row.cached && (
+                      <span
+                        className="px-2 py-0.5 text-xs rounded-md border border-green-500/30 bg-green-500/10 text-green-bright"
+                        title="Reused from the generation cache (same image, settings and model). Use Regenerate for a fresh result."
+                      >
+                        ⚡ Cached
+                      </span>
+                    )}
+                    {(row.language || row.translations) && (
+                      <span
+                        className="px-2 py-0.5 text-xs rounded-md border border-blue-400/40 bg-blue-500/10 text-blue-100"
+                        title="Metadata language shown here, then translated copies (each exported as its own CSV)"
+                      >
+                        🌐 {[row.language ?? 'en', ...Object.keys(row.translations ?? {})].join(' · ').toUpperCase()}
+                      </span>
+                    )}
+                    {row.cancelled && (
+                      <span
+                        className="px-2 py-0.5 text-xs rounded-md border border-amber-400/40 bg-amber-500/10 text-amber-100"
+                        title="Processing was stopped before this file finished. Use Regenerate Failed to process it."
+                      >
+                        🛑 Cancelled
+                      </span>
+                    )}
+                  </div>
                   <span className="text-xs text-ink/60">{title.length} characters</span>
                 </div>
                 <textarea
@@ -132,16 +167,48 @@ function ResultCard({
                 <label className="label mb-2">Keywords ({row.keywords.length})</label>
                 <div className="flex flex-wrap gap-2 mb-2">
                   {row.keywords.map((kw, i) => (
-                    <span
-                      key={i}
-                      className="px-2 py-1 bg-warm/20 text-sm rounded-md border border-warm/40 text-ink"
-                    >
-                      {kw}
-                    </span>
+                    <Fragment key={i}>
+                      {i === TOP_KEYWORDS && (
+                        <div className="basis-full flex items-center gap-2 text-xs text-text-secondary">
+                          <span className="h-px flex-1 bg-green-accent/30" />
+                          <span>▲ Top {TOP_KEYWORDS} - weighted most in Adobe Stock search</span>
+                          <span className="h-px flex-1 bg-green-accent/30" />
+                        </div>
+                      )}
+                      <span
+                        className={`px-2 py-1 text-sm rounded-md border text-ink ${
+                          i < TOP_KEYWORDS ? 'bg-green-accent/10 border-green-accent/40' : 'bg-warm/20 border-warm/40'
+                        }`}
+                      >
+                        {kw}
+                      </span>
+                    </Fragment>
                   ))}
                 </div>
                 <CopyBtn label="Copy Keywords" text={row.keywords.join(',    ')} />
               </div>
+
+              {row.validation && row.validation.length > 0 && (
+                <div>
+                  <label className="label mb-2">Validation ({row.validation.length})</label>
+                  <ul className="space-y-1">
+                    {row.validation.map((issue, i) => (
+                      <li key={i} className="flex items-start gap-2 text-xs text-ink/80">
+                        <span
+                          className={`shrink-0 px-2 py-0.5 rounded-md border ${SEVERITY_STYLES[issue.severity]}`}
+                          title={issue.ruleId}
+                        >
+                          {issue.severity}
+                        </span>
+                        <span className="pt-0.5">
+                          {issue.message}
+                          {issue.fixApplied && <span className="ml-1 text-green-bright">(auto-fixed)</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,71 @@
+// Adobe Stock category mapping - picks the portal's numeric category ID from row content
+
+import type { Row } from './csv';
+
+export type AdobeCategory = {
+  id: number;
+  name: string;
+  terms: string[];
+};
+
+// IDs match the Adobe Stock Contributor portal category list
+export const ADOBE_CATEGORIES: AdobeCategory[] = [
+  { id: 1, name: 'Animals', terms: ['animal', 'dog', 'puppy', 'cat', 'kitten', 'bird', 'horse', 'cow', 'wildlife', 'pet', 'fish', 'insect', 'butterfly', 'lion', 'tiger', 'elephant', 'bear', 'deer', 'fox', 'wolf', 'monkey', 'zoo', 'mammal', 'reptile'] },
+  { id: 2, name: 'Buildings and Architecture', terms: ['building', 'architecture', 'house', 'skyscraper', 'tower', 'bridge', 'interior', 'facade', 'church', 'castle', 'temple', 'room', 'apartment', 'construction', 'skyline', 'cityscape'] },
+  { id: 3, name: 'Business', terms: ['business', 'office', 'meeting', 'finance', 'money', 'corporate', 'teamwork', 'marketing', 'startup', 'investment', 'economy', 'chart', 'presentation', 'workplace', 'entrepreneur'] },
+  { id: 4, name: 'Drinks', terms: ['drink', 'coffee', 'tea', 'wine', 'beer', 'juice', 'cocktail', 'beverage', 'water', 'smoothie', 'milk', 'latte', 'espresso'] },
+  { id: 5, name: 'The Environment', terms: ['environment', 'ecology', 'pollution', 'climate', 'recycling', 'sustainability', 'renewable', 'solar', 'wind turbine', 'conservation', 'deforestation', 'global warming'] },
+  { id: 6, name: 'States of Mind', terms: ['emotion', 'happiness', 'sadness', 'stress', 'anxiety', 'love', 'calm', 'meditation', 'loneliness', 'hope', 'joy', 'fear', 'mindfulness', 'mood'] },
+  { id: 7, name: 'Food', terms: ['food', 'meal', 'fruit', 'vegetable', 'bread', 'cake', 'dessert', 'pizza', 'salad', 'breakfast', 'dinner', 'lunch', 'cooking', 'kitchen', 'recipe', 'meat', 'cheese', 'snack'] },
+  { id: 8, name: 'Graphic Resources', terms: ['pattern', 'seamless', 'texture', 'background', 'icon', 'logo', 'template', 'frame', 'border', 'abstract', 'gradient', 'banner', 'vector', 'clipart', 'element', 'mockup'] },
+  { id: 9, name: 'Hobbies and Leisure', terms: ['hobby', 'leisure', 'vacation', 'holiday', 'camping', 'gardening', 'music', 'reading', 'painting', 'craft', 'game', 'party', 'celebration', 'picnic', 'fishing'] },
+  { id: 10, name: 'Industry', terms: ['industry', 'industrial', 'factory', 'manufacturing', 'machine', 'engineering', 'warehouse', 'oil', 'mining', 'steel', 'worker', 'production', 'plant'] },
+  { id: 11, name: 'Landscapes', terms: ['landscape', 'mountain', 'beach', 'ocean', 'sea', 'lake', 'river', 'forest', 'desert', 'sunset', 'sunrise', 'valley', 'field', 'sky', 'coast', 'waterfall', 'hill'] },
+  { id: 12, name: 'Lifestyle', terms: ['lifestyle', 'family', 'home', 'fashion', 'shopping', 'friends', 'relaxing', 'everyday', 'routine', 'wellness', 'cozy'] },
+  { id: 13, name: 'People', terms: ['people', 'person', 'man', 'woman', 'child', 'girl', 'boy', 'portrait', 'face', 'baby', 'couple', 'senior', 'teenager', 'crowd', 'adult'] },
+  { id: 14, name: 'Plants and Flowers', terms: ['plant', 'flower', 'leaf', 'leaves', 'tree', 'rose', 'tulip', 'botanical', 'floral', 'blossom', 'bloom', 'garden', 'grass', 'succulent', 'cactus', 'palm'] },
+  { id: 15, name: 'Culture and Religion', terms: ['culture', 'religion', 'tradition', 'festival', 'christmas', 'easter', 'ramadan', 'diwali', 'prayer', 'spiritual', 'ceremony', 'heritage', 'folk', 'halloween'] },
+  { id: 16, name: 'Science', terms: ['science', 'laboratory', 'research', 'microscope', 'chemistry', 'biology', 'physics', 'medical', 'medicine', 'dna', 'molecule', 'experiment', 'space', 'planet', 'astronomy'] },
+  { id: 17, name: 'Social Issues', terms: ['poverty', 'protest', 'equality', 'diversity', 'discrimination', 'homeless', 'refugee', 'charity', 'volunteer', 'activism', 'inclusion', 'immigration'] },
+  { id: 18, name: 'Sports', terms: ['sport', 'football', 'soccer', 'basketball', 'tennis', 'running', 'fitness', 'gym', 'yoga', 'cycling', 'swimming', 'athlete', 'exercise', 'workout', 'golf'] },
+  { id: 19, name: 'Technology', terms: ['technology', 'computer', 'laptop', 'smartphone', 'phone', 'digital', 'internet', 'network', 'robot', 'artificial intelligence', 'data', 'software', 'cyber', 'device', 'electronic'] },
+  { id: 20, name: 'Transport', terms: ['transport', 'car', 'vehicle', 'truck', 'bus', 'train', 'airplane', 'plane', 'ship', 'boat', 'bicycle', 'motorcycle', 'traffic', 'road', 'highway', 'airport'] },
+  { id: 21, name: 'Travel', terms: ['travel', 'tourism', 'tourist', 'destination', 'landmark', 'journey', 'trip', 'adventure', 'passport', 'luggage', 'sightseeing', 'resort'] }
+];
+
+const GRAPHIC_RESOURCES_ID = 8;
+
+/**
+ * Pick the Adobe Stock category ID that best matches a row's title and keywords.
+ * Title matches weigh more than keyword matches; earlier keywords weigh more than later ones.
+ * Falls back to Graphic Resources for vectors/illustrations/icons, otherwise undefined.
+ */
+export function detectAdobeCategory(row: Pick<Row, 'title' | 'keywords' | 'assetType'>): number | undefined {
+  const title = ` ${(row.title || '').toLowerCase().replace(/[^\w\s]/g, ' ')} `;
+  const keywords = (row.keywords || []).map(k => k.toLowerCase().trim());
+
+  let bestId: number | undefined;
+  let bestScore = 0;
+
+  for (const category of ADOBE_CATEGORIES) {
+    let score = 0;
+    for (const term of category.terms) {
+      // Allow simple plurals ("dogs", "flowers") on whole-word matches
+      const pattern = new RegExp(`\\b${term}(s|es)?\\b`);
+      if (pattern.test(title)) score += 3;
+      keywords.forEach((kw, i) => {
+        if (pattern.test(kw)) score += i < 10 ? 2 : 1;
+      });
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestId = category.id;
+    }
+  }
+
+  if (bestId !== undefined) return bestId;
+  if (row.assetType === 'vector' || row.assetType === 'illustration' || row.assetType === 'icon') {
+    return GRAPHIC_RESOURCES_ID;
+  }
+  return undefined;
+}
@@ -1,9 +1,13 @@
 // Client-side file utilities for browser-based file handling
 // These functions work entirely in the browser without server-side dependencies
 
+import { readEmbeddedMetadata, type EmbeddableMetadata } from './embed-metadata';
+
 const MAX_DIMENSION = 2048; // Max width or height for compression
 const QUALITY = 0.5; // JPEG/WebP quality (0-1), stronger compression to reduce size
 const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB
+const METADATA_HEAD_BYTES = 8 * 1024 * 1024; // Embedded metadata normally sits near the start...
+const METADATA_TAIL_BYTES = 2 * 1024 * 1024; // ...but videos often append it at the end
 
 /**
  * Convert a File object to a base64 data URL
@@ -165,6 +169,26 @@ export function isVectorFile(file: File): boolean {
   return ['svg', 'eps', 'ai'].includes(getFileExtension(file.name));
 }
 
+/**
+ * Read title/description/keywords already embedded in an uploaded file (XMP or IPTC)
+ * Only the head and tail of large files are scanned to keep uploads fast.
+ * @param file - The File to inspect
+ * @returns Existing metadata, or null if the file has none
+ */
+export async function readFileMetadata(file: File): Promise<EmbeddableMetadata | null> {
+  try {
+    const head = new Uint8Array(await file.slice(0, METADATA_HEAD_BYTES).arrayBuffer());
+    const fromHead = readEmbeddedMetadata(head);
+    if (fromHead || file.size <= METADATA_HEAD_BYTES) return fromHead;
+
+    const tail = new Uint8Array(await file.slice(Math.max(METADATA_HEAD_BYTES, file.size - METADATA_TAIL_BYTES)).arrayBuffer());
+    return readEmbeddedMetadata(tail);
+  } catch (error) {
+    console.warn(`Could not read embedded metadata from ${file.name}:`, error);
+    return null;
+  }
+}
+
 /**
  * Extract three representative frames (start, middle, end) from a video and
  * combine them into a single vertical strip image.
@@ -1,7 +1,18 @@
 // src/lib/csv.ts
+import { PLATFORMS, exportTable, type PlatformLabel } from './platforms';
+import type { Language, Platform, TokenUsage, ValidationIssue } from './types';
+
+// Metadata for one language of a row (translated copies from /api/generate)
+export type RowTranslation = {
+  title: string;
+  description: string;
+  keywords: string[];
+  validation?: ValidationIssue[];
+};
+
 export type Row = {
   filename: string;
-  platform: 'General'|'Adobe Stock'|'Shutterstock';
+  platform: PlatformLabel;
   title: string;
   description: string;
   keywords: string[];
@@ -10,50 +21,62 @@ export type Row = {
   error?: string; // Optional error message for failed generations
   generatedPrompt?: string; // Optional image generation prompt
   negativePrompt?: string; // Optional negative prompt
+  validation?: ValidationIssue[]; // Platform rule hits from /api/generate (not exported)
+  usage?: TokenUsage; // Tokens reported by the provider (not exported)
+  cost?: number; // Estimated USD cost from the price table (not exported)
+  cached?: boolean; // Served from the generation cache without a model call (not exported)
+  providerCalls?: number; // Provider requests behind the row: generate plus translations, 0 when cached (not exported)
+  cancelled?: boolean; // Stopped before generation finished; neither a success nor an error (not exported)
+  language?: Language; // Language of title/description/keywords (English when absent)
+  translations?: Partial<Record<Language, RowTranslation>>; // Extra languages, each exported as its own CSV
 };
 
-type GenerationPlatform = 'general' | 'adobe' | 'shutterstock';
+/**
+ * Every language present in the finished rows, the rows' own language first
+ */
+export function rowLanguages(rows: Row[]): Language[] {
+  const languages = new Set<Language>();
+  const finished = rows.filter(r => !r.error && !r.cancelled);
+  for (const r of finished) languages.add(r.language ?? 'en');
+  for (const r of finished) {
+    for (const language of Object.keys(r.translations ?? {}) as Language[]) languages.add(language);
+  }
+  return Array.from(languages);
+}
+
+/**
+ * Rows with their metadata in one language (finished rows without that language are left out,
+ * failed rows have no metadata and appear in every language)
+ */
+export function rowsForLanguage(rows: Row[], language: Language): Row[] {
+  return rows.flatMap(r => {
+    const { translations, ...rest } = r;
+    if (r.error || (r.language ?? 'en') === language) return [rest];
+    const t = translations?.[language];
+    return t ? [{ ...rest, ...t, language }] : [];
+  });
+}
 
 export function toCSV(
   rows: Row[],
   titleLen: number,
   descLen: number,
   kwCount: number,
-  platform?: GenerationPlatform
+  platform?: Platform
 ) {
   const esc = (s: string) => `"${(s || '').replaceAll('"','""')}"`;
 
-  // Shutterstock-specific upload CSV format
-  if (platform === 'shutterstock') {
-    const header = [
-      'Filename',
-      'Description',
-      'Keywords',
-      'Categories',
-      'Editorial',
-      'Mature content',
-      'illustration'
-    ].join(',');
-
-    const lines = rows.map(r => {
-      const illustrationFlag =
-        r.assetType === 'illustration' || r.assetType === 'vector' ? 'yes' : 'no';
-
-      return [
-        esc(r.filename),
-        esc(r.description),
-        esc(r.keywords.join(',')), // Shutterstock expects comma-separated keywords
-        '',                        // Categories (left empty for manual fill)
-        'no',                      // Editorial default
-        'no',                      // Mature content default
-        illustrationFlag
-      ].join(',');
-    });
-
-    return [header, ...lines].join('\n');
+  // Agency-specific upload format from the platform registry
+  const schema = platform ? PLATFORMS[platform].export : null;
+  if (schema && schema.format === 'csv') {
+    return exportTable(rows, schema)
+      .map((cells, i) =>
+        cells.map(c => (i === 0 || typeof c === 'number' ? String(c) : esc(c))).join(schema.delimiter)
+      )
+      .join('\n');
   }
 
-  // General / Adobe-style CSV (standard format used by app)
+  // General CSV (standard format used by app)
   const header = [
     'filename','platform','title','description','keywords',
     'asset_type','extension','title_length','description_length','keywords_count'
@@ -116,7 +139,7 @@ export function groupRowsByExtension(rows: Row[]): Record<string, Row[]> {
   const groups: Record<string, Row[]> = {};
 
   for (const row of rows) {
-    if (row.error) continue; // Skip rows with errors
+    if (row.error || row.cancelled) continue; // Skip rows with errors or without metadata
 
     let ext = row.extension.toLowerCase();
 
@@ -0,0 +1,236 @@
+// Trademark, brand and banned-term dictionaries - the single source for the generation prompt,
+// keyword cleanup, validation rules, quality scores and the pre-export cleanup.
+// Built-in lists are merged with user-managed custom lists and whitelist exceptions, which are
+// kept in localStorage and sent with each generate request.
+// Matching is case-insensitive, on word boundaries and multi-word aware: "air jordan" matches
+// "Air-Jordan sneakers" but "adobe" would also hit "adobe house", so brands that are also common
+// words or names are listed as phrases ("apple watch", not "apple"; "ford mustang", not "ford").
+
+import { getJSON, setJSON } from './util';
+import { CustomDictionariesSchema, type CustomDictionaries } from './types';
+
+export type TermKind = 'trademarks' | 'banned';
+
+// Brands, products, franchises and characters agencies reject without a property release
+export const BUILTIN_TRADEMARKS = [
+  // Tech
+  'google', 'microsoft', 'microsoft windows', 'facebook', 'twitter', 'instagram', 'tiktok', 'whatsapp',
+  'youtube', 'netflix', 'spotify', 'apple inc', 'apple watch', 'iphone', 'ipad', 'imac', 'macbook',
+  'airpods', 'macos', 'android phone', 'samsung', 'galaxy s', 'sony', 'playstation', 'xbox', 'nintendo',
+  'nintendo switch', 'amazon prime', 'amazon alexa', 'amazon kindle', 'kindle paperwhite', 'linux',
+  'photoshop', 'adobe photoshop', 'adobe illustrator', 'chatgpt',
+  // Food and drink
+  'coca-cola', 'pepsi', 'starbucks', 'mcdonalds', "mcdonald's", 'burger king', 'kfc', 'red bull energy',
+  'heineken', 'nutella',
+  // Apparel and sneakers
+  'nike', 'adidas', 'air jordan', 'jordans', 'air max', 'air force 1', 'yeezy', 'converse all star',
+  'chuck taylor', 'new balance sneakers', 'new balance shoes', 'reebok', 'asics', 'under armour', 'gucci',
+  'louis vuitton', 'rolex',
+  // Cars
+  'toyota', 'honda', 'ford mustang', 'ford motor', 'tesla model', 'tesla motors', 'bmw', 'mercedes-benz',
+  'audi', 'volkswagen', 'porsche', 'ferrari', 'lamborghini', 'chevrolet', 'chevy', 'camaro', 'corvette stingray',
+  'land rover', 'range rover', 'jeep wrangler', 'volvo', 'nissan', 'hyundai', 'mini cooper',
+  // Toys, franchises and characters
+  'disney', 'lego', 'barbie', 'marvel comics', 'marvel studios', 'pokemon', 'star wars', 'harry potter',
+  'hello kitty', 'mickey mouse', 'spider-man', 'spiderman', 'batman', 'superman'
+];
+
+// Terms never allowed in any field (AI model and generator names)
+export const BUILTIN_BANNED_TERMS = [
+  'gemini', 'mistral', 'gpt', 'midjourney', 'stable diffusion', 'dall-e'
+];
+
+// Filler words that add nothing to a title (also banned as keywords)
+export const TITLE_FILLER_TERMS = [
+  'professional', 'high quality', 'stock', 'commercial', 'royalty free', 'royalty-free',
+  'image', 'photo', 'photograph', 'picture', 'wallpaper'
+];
+
+// File-type, workflow and style-reference words that are not keywords
+export const KEYWORD_FILLER_TERMS = [
+  'vector file', 'jpeg', 'jpg', 'png', 'webp', 'svg', 'eps', 'ai', 'file', 'download',
+  'copy', 'generated', 'watermark', 'logo',
+  'artist', 'style of', 'inspired by', 'influenced by', 'in the tradition of', 'drawing on'
+];
+
+const STORAGE_KEY = 'smg_dictionaries';
+const EMPTY: CustomDictionaries = { trademarks: [], banned: [], whitelist: [] };
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive, word-bounded pattern for a term; words may be joined by spaces, hyphens,
+ * apostrophes or nothing ("coca cola", "coca-cola" and "cocacola" all match "coca-cola")
+ */
+function termPattern(term: string): RegExp | null {
+  const parts = term.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (parts.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${parts.map(escapeRegex).join('[^\\p{L}\\p{N}]*')}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function cleanList(list: unknown): string[] {
+  if (!Array.isArray(list)) return [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const item of list) {
+    const term = String(item).trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!term || seen.has(term)) continue;
+    seen.add(term);
+    out.push(term);
+  }
+  return out;
+}
+
+// Tidy text after terms were cut out of it
+const tidy = (s: string) => s
+  .replace(/\s+([,.;:!?])/g, '$1')
+  .replace(/\s+(?:by|with|and|or|of|from|for|in|on|at)(?=[,.;:!?]|$)/gi, '')  // dangling connectors
+  .replace(/([,;:])(?:\s*[,;:])+/g, '$1')
+  .replace(/\s{2,}/g, ' ')
+  .replace(/^[\s,;:\-–—]+|[\s,;:\-–—]+$/g, '')
+  .trim();
+
+export class TermDictionary {
+  private readonly terms: Record<TermKind, { term: string; pattern: RegExp }[]>;
+  private readonly whitelist: RegExp[];
+
+  constructor(custom?: Partial<CustomDictionaries>) {
+    const compile = (list: string[]) => cleanList(list)
+      .map(term => ({ term, pattern: termPattern(term) }))
+      .filter((t): t is { term: string; pattern: RegExp } => t.pattern !== null);
+    this.terms = {
+      trademarks: compile([...BUILTIN_TRADEMARKS, ...(custom?.trademarks || [])]),
+      banned: compile([...BUILTIN_BANNED_TERMS, ...(custom?.banned || [])])
+    };
+    this.whitelist = compile(custom?.whitelist || []).map(t => t.pattern);
+  }
+
+  // Whitelisted phrases blanked out (same length, so match positions still line up with the text)
+  private mask(text: string): string {
+    return this.whitelist.reduce((t, p) => t.replace(p, m => ' '.repeat(m.length)), text);
+  }
+
+  /**
+   * Distinct terms of a kind found in the text (whitelisted phrases are skipped)
+   */
+  find(kind: TermKind, text: string): string[] {
+    if (!text) return [];
+    const masked = this.mask(text);
+    return this.terms[kind].filter(({ pattern }) => masked.search(pattern) !== -1).map(t => t.term);
+  }
+
+  has(kind: TermKind, text: string): boolean {
+    return this.find(kind, text).length > 0;
+  }
+
+  /**
+   * Text with every match of the given kinds cut out
+   */
+  remove(kinds: TermKind[], text: string): string {
+    if (!text) return text;
+    const masked = this.mask(text);
+    const spans: [number, number][] = [];
+    for (const kind of kinds) {
+      for (const { pattern } of this.terms[kind]) {
+        for (const m of masked.matchAll(pattern)) {
+          spans.push([m.index!, m.index! + m[0].length]);
+        }
+      }
+    }
+    if (spans.length === 0) return text;
+
+    spans.sort((a, b) => a[0] - b[0]);
+    let out = '';
+    let pos = 0;
+    for (const [start, end] of spans) {
+      if (start > pos) out += text.slice(pos, start);
+      pos = Math.max(pos, end);
+    }
+    return tidy(out + text.slice(pos));
+  }
+
+  /**
+   * Keywords without any that contain a term of the given kinds
+   */
+  filterKeywords(keywords: string[], kinds: TermKind[] = ['trademarks', 'banned']): string[] {
+    return keywords.filter(k => !kinds.some(kind => this.has(kind, k)));
+  }
+
+  /**
+   * Trademark and banned terms removed from title, description and keywords (used before export).
+   * A title or description that would become empty is kept as-is so the row stays uploadable.
+   */
+  clean<T extends { title: string; description: string; keywords: string[] }>(meta: T): T {
+    const kinds: TermKind[] = ['trademarks', 'banned'];
+    const title = this.remove(kinds, meta.title);
+    const description = this.remove(kinds, meta.description);
+    return {
+      ...meta,
+      title: title || meta.title,
+      description: description || meta.description,
+      keywords: this.filterKeywords(meta.keywords, kinds)
+    };
+  }
+}
+
+/**
+ * Custom lists saved in this browser
+ */
+export function getCustomDictionaries(): CustomDictionaries {
+  const stored = getJSON<Partial<CustomDictionaries>>(STORAGE_KEY, EMPTY);
+  return {
+    trademarks: cleanList(stored.trademarks),
+    banned: cleanList(stored.banned),
+    whitelist: cleanList(stored.whitelist)
+  };
+}
+
+/**
+ * Save custom lists (terms are trimmed, lowercased and de-duplicated)
+ */
+export function saveCustomDictionaries(lists: Partial<CustomDictionaries>): CustomDictionaries {
+  const cleaned: CustomDictionaries = {
+    trademarks: cleanList(lists.trademarks),
+    banned: cleanList(lists.banned),
+    whitelist: cleanList(lists.whitelist)
+  };
+  setJSON(STORAGE_KEY, cleaned);
+  return cleaned;
+}
+
+/**
+ * Custom lists for a generate request, or undefined when none are set
+ */
+export function dictionaryPayload(): CustomDictionaries | undefined {
+  const lists = getCustomDictionaries();
+  return lists.trademarks.length || lists.banned.length || lists.whitelist.length ? lists : undefined;
+}
+
+/**
+ * JSON file contents for the current custom lists
+ */
+export function exportDictionaries(): string {
+  return JSON.stringify(getCustomDictionaries(), null, 2);
+}
+
+/**
+ * Import lists from an exported JSON file, merged into (or replacing) the saved lists
+ */
+export function importDictionaries(json: string, mode: 'merge' | 'replace' = 'merge'): CustomDictionaries {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Dictionary file is not valid JSON');
+  }
+  const result = CustomDictionariesSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error('Dictionary file must contain "trademarks", "banned" and/or "whitelist" lists of terms');
+  }
+  const current = mode === 'merge' ? getCustomDictionaries() : EMPTY;
+  return saveCustomDictionaries({
+    trademarks: [...current.trademarks, ...result.data.trademarks],
+    banned: [...current.banned, ...result.data.banned],
+    whitelist: [...current.whitelist, ...result.data.whitelist]
+  });
+}
@@ -0,0 +1,412 @@
+// Embed title/description/keywords into image files (XMP + IPTC-IIM), and read them back
+// Works on raw bytes in the browser - everything outside the metadata segments is copied verbatim
+
+export type EmbeddableMetadata = {
+  title: string;
+  description: string;
+  keywords: string[];
+};
+
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const TIFF_TAG_XMP = 700;
+const TIFF_TAG_IPTC = 33723;
+const IRB_IPTC = 0x0404;
+const IRB_IPTC_DIGEST = 0x0425;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Whether a file extension supports embedded metadata export
+ */
+export function canEmbedMetadata(ext: string): boolean {
+  return ['jpg', 'jpeg', 'png', 'tif', 'tiff'].includes(ext.toLowerCase());
+}
+
+/**
+ * Return a copy of the file with XMP (dc:title, dc:description, dc:subject) and,
+ * where the format has a place for it, IPTC-IIM written in. Existing XMP/IPTC is replaced.
+ */
+export function embedMetadata(bytes: Uint8Array, ext: string, meta: EmbeddableMetadata): Uint8Array {
+  const e = ext.toLowerCase();
+  if (e === 'jpg' || e === 'jpeg') return embedJpeg(bytes, meta);
+  if (e === 'png') return embedPng(bytes, meta);
+  if (e === 'tif' || e === 'tiff') return embedTiff(bytes, meta);
+  throw new Error(`Embedding metadata is not supported for .${ext} files`);
+}
+
+// ---------- XMP / IPTC payloads
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function buildXmpPacket(meta: EmbeddableMetadata): string {
+  const keywords = meta.keywords.map(k => `     <rdf:li>${escapeXml(k)}</rdf:li>`).join('\n');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/">
+   <dc:title>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXml(meta.title)}</rdf:li>
+    </rdf:Alt>
+   </dc:title>
+   <dc:description>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXml(meta.description)}</rdf:li>
+    </rdf:Alt>
+   </dc:description>
+   <dc:subject>
+    <rdf:Bag>
+${keywords}
+    </rdf:Bag>
+   </dc:subject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+// Truncate UTF-8 bytes without splitting a multi-byte character
+function utf8Max(s: string, maxBytes: number): Uint8Array {
+  let bytes = encoder.encode(s);
+  if (bytes.length <= maxBytes) return bytes;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  bytes = bytes.slice(0, end);
+  return bytes;
+}
+
+function iptcDataset(record: number, dataset: number, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(5 + data.length);
+  out[0] = 0x1c;
+  out[1] = record;
+  out[2] = dataset;
+  out[3] = (data.length >> 8) & 0xff;
+  out[4] = data.length & 0xff;
+  out.set(data, 5);
+  return out;
+}
+
+/**
+ * IPTC-IIM block: 1:90 (UTF-8), 2:00 version, 2:05 object name, 2:120 caption, 2:25 keywords
+ */
+export function buildIptc(meta: EmbeddableMetadata): Uint8Array {
+  return concat([
+    iptcDataset(1, 90, new Uint8Array([0x1b, 0x25, 0x47])), // ESC % G = UTF-8
+    iptcDataset(2, 0, new Uint8Array([0x00, 0x04])),
+    iptcDataset(2, 5, utf8Max(meta.title, 64)),
+    iptcDataset(2, 120, utf8Max(meta.description, 2000)),
+    ...meta.keywords.map(k => iptcDataset(2, 25, utf8Max(k, 64)))
+  ]);
+}
+
+// ---------- reading existing metadata
+
+const unescapeXml = (s: string) =>
+  s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+function xmpListItems(xmp: string, property: string): string[] {
+  const block = xmp.match(new RegExp(`<${property}[^>]*>([\\s\\S]*?)</${property}>`));
+  if (!block) return [];
+  return Array.from(block[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g))
+    .map(m => unescapeXml(m[1]).trim())
+    .filter(Boolean);
+}
+
+function parseXmp(xmp: string): EmbeddableMetadata {
+  return {
+    title: xmpListItems(xmp, 'dc:title')[0] || '',
+    description: xmpListItems(xmp, 'dc:description')[0] || '',
+    keywords: xmpListItems(xmp, 'dc:subject')
+  };
+}
+
+function decodeIptcText(data: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    // Older files are often Latin-1 without a 1:90 charset marker
+    return Array.from(data, b => String.fromCharCode(b)).join('');
+  }
+}
+
+function parseIptc(iim: Uint8Array): EmbeddableMetadata {
+  const meta: EmbeddableMetadata = { title: '', description: '', keywords: [] };
+  let p = 0;
+  while (p + 5 <= iim.length && iim[p] === 0x1c) {
+    const record = iim[p + 1];
+    const dataset = iim[p + 2];
+    const length = (iim[p + 3] << 8) | iim[p + 4];
+    const text = decodeIptcText(iim.subarray(p + 5, p + 5 + length)).trim();
+    p += 5 + length;
+    if (record !== 2 || !text) continue;
+    if (dataset === 5) meta.title = text;
+    else if (dataset === 120) meta.description = text;
+    else if (dataset === 25) meta.keywords.push(text);
+  }
+  return meta;
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string, from = 0): number {
+  const first = text.charCodeAt(0);
+  for (let i = from; i <= bytes.length - text.length; i++) {
+    if (bytes[i] === first && startsWithAscii(bytes, i, text)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find title/description/keywords already embedded in a file (or a chunk of one).
+ * XMP is located by scanning for the packet, so this works for any container that carries one
+ * (JPEG, PNG, TIFF, SVG, EPS, AI, MP4, MOV); IPTC-IIM in a Photoshop resource block is the fallback.
+ */
+export function readEmbeddedMetadata(bytes: Uint8Array): EmbeddableMetadata | null {
+  const start = indexOfAscii(bytes, '<x:xmpmeta');
+  if (start !== -1) {
+    const end = indexOfAscii(bytes, '</x:xmpmeta>', start);
+    if (end !== -1) {
+      const meta = parseXmp(decoder.decode(bytes.subarray(start, end + '</x:xmpmeta>'.length)));
+      if (meta.title || meta.description || meta.keywords.length > 0) return meta;
+    }
+  }
+
+  const irb = indexOfAscii(bytes, '8BIM\x04\x04');
+  if (irb !== -1) {
+    const nameLen = bytes[irb + 6];
+    const sizeAt = irb + 6 + ((nameLen + 2) & ~1);
+    const size = ((bytes[sizeAt] << 24) | (bytes[sizeAt + 1] << 16) | (bytes[sizeAt + 2] << 8) | bytes[sizeAt + 3]) >>> 0;
+    const meta = parseIptc(bytes.subarray(sizeAt + 4, sizeAt + 4 + size));
+    if (meta.title || meta.description || meta.keywords.length > 0) return meta;
+  }
+
+  return null;
+}
+
+// ---------- byte helpers
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function startsWithAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// ---------- JPEG
+
+type JpegSegment = { marker: number; bytes: Uint8Array };
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  if (length > 0xffff) throw new Error('Metadata is too large for a single JPEG segment');
+  return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+}
+
+// Photoshop image resource blocks, minus IPTC and its (now stale) digest
+function keepPhotoshopResources(payload: Uint8Array): Uint8Array[] {
+  const kept: Uint8Array[] = [];
+  let p = PHOTOSHOP_HEADER.length;
+  while (p + 12 <= payload.length && startsWithAscii(payload, p, '8BIM')) {
+    const start = p;
+    const id = (payload[p + 4] << 8) | payload[p + 5];
+    const nameLen = payload[p + 6];
+    p += 6 + ((nameLen + 2) & ~1); // Pascal string padded to even length
+    const size = ((payload[p] << 24) | (payload[p + 1] << 16) | (payload[p + 2] << 8) | payload[p + 3]) >>> 0;
+    p += 4 + size + (size & 1);
+    if (id !== IRB_IPTC && id !== IRB_IPTC_DIGEST) kept.push(payload.slice(start, p));
+  }
+  return kept;
+}
+
+function photoshopIptcResource(iptc: Uint8Array): Uint8Array {
+  const header = new Uint8Array(12);
+  header.set(encoder.encode('8BIM'), 0);
+  header[4] = (IRB_IPTC >> 8) & 0xff;
+  header[5] = IRB_IPTC & 0xff;
+  // bytes 6-7: empty Pascal name + pad
+  new DataView(header.buffer).setUint32(8, iptc.length);
+  return concat([header, iptc, new Uint8Array(iptc.length & 1)]);
+}
+
+function embedJpeg(bytes: Uint8Array, meta: EmbeddableMetadata): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file');
+
+  // Walk header segments up to start-of-scan; the scan data is copied untouched
+  const segments: JpegSegment[] = [];
+  let p = 2;
+  while (p < bytes.length) {
+    if (bytes[p] !== 0xff) throw new Error('Corrupt JPEG segment');
+    const marker = bytes[p + 1];
+    if (marker === 0xff) { p++; continue; } // fill byte
+    if (marker === 0xda) break;
+    const length = (bytes[p + 2] << 8) | bytes[p + 3];
+    segments.push({ marker, bytes: bytes.subarray(p, p + 2 + length) });
+    p += 2 + length;
+  }
+  const rest = bytes.subarray(p);
+
+  const isXmp = (s: JpegSegment) => s.marker === 0xe1 && startsWithAscii(s.bytes, 4, XMP_JPEG_HEADER);
+  const isPhotoshop = (s: JpegSegment) => s.marker === 0xed && startsWithAscii(s.bytes, 4, PHOTOSHOP_HEADER);
+
+  const photoshop = segments.find(isPhotoshop);
+  const otherResources = photoshop ? keepPhotoshopResources(photoshop.bytes.subarray(4)) : [];
+  const kept = segments.filter(s => !isXmp(s) && !isPhotoshop(s));
+
+  // Insert after JFIF (APP0) and Exif (APP1) so those stay first, as readers expect
+  let insertAt = 0;
+  while (insertAt < kept.length && (kept[insertAt].marker === 0xe0 || kept[insertAt].marker === 0xe1)) insertAt++;
+
+  const xmpSegment = jpegSegment(0xe1, concat([encoder.encode(XMP_JPEG_HEADER), encoder.encode(buildXmpPacket(meta))]));
+  const photoshopSegment = jpegSegment(0xed, concat([
+    encoder.encode(PHOTOSHOP_HEADER),
+    ...otherResources,
+    photoshopIptcResource(buildIptc(meta))
+  ]));
+
+  return concat([
+    bytes.subarray(0, 2),
+    ...kept.slice(0, insertAt).map(s => s.bytes),
+    xmpSegment,
+    photoshopSegment,
+    ...kept.slice(insertAt).map(s => s.bytes),
+    rest
+  ]);
+}
+
+// ---------- PNG
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concat([encoder.encode(type), data]);
+  const out = new Uint8Array(8 + data.length + 4);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return out;
+}
+
+function embedPng(bytes: Uint8Array, meta: EmbeddableMetadata): Uint8Array {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error('Not a PNG file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let p = 8;
+  let inserted = false;
+
+  while (p + 8 <= bytes.length) {
+    const length = view.getUint32(p);
+    const type = decoder.decode(bytes.subarray(p + 4, p + 8));
+    const chunk = bytes.subarray(p, p + 12 + length);
+    p += 12 + length;
+
+    // Drop any existing XMP iTXt chunk; ours replaces it
+    if (type === 'iTXt' && startsWithAscii(chunk, 8, PNG_XMP_KEYWORD + '\0')) continue;
+
+    parts.push(chunk);
+    if (type === 'IHDR' && !inserted) {
+      // iTXt: keyword, compression flag/method, empty language tag and translated keyword, text.
+      // PNG has no IPTC-IIM block; the IPTC Core fields travel in the XMP packet.
+      const itxt = concat([
+        encoder.encode(PNG_XMP_KEYWORD),
+        new Uint8Array([0, 0, 0, 0, 0]),
+        encoder.encode(buildXmpPacket(meta))
+      ]);
+      parts.push(pngChunk('iTXt', itxt));
+      inserted = true;
+    }
+  }
+  if (p < bytes.length) parts.push(bytes.subarray(p)); // trailing bytes after IEND
+
+  return concat(parts);
+}
+
+// ---------- TIFF
+
+// The original IFD0 is left in place; a rewritten copy with the metadata tags is
+// appended to the end of the file and the header is pointed at it.
+function embedTiff(bytes: Uint8Array, meta: EmbeddableMetadata): Uint8Array {
+  const le = bytes[0] === 0x49 && bytes[1] === 0x49;
+  const be = bytes[0] === 0x4d && bytes[1] === 0x4d;
+  if (!le && !be) throw new Error('Not a TIFF file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(2, le) !== 42) throw new Error('BigTIFF files are not supported');
+
+  const ifdOffset = view.getUint32(4, le);
+  const count = view.getUint16(ifdOffset, le);
+  const entries: Array<{ tag: number; raw: Uint8Array }> = [];
+  for (let i = 0; i < count; i++) {
+    const at = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(at, le);
+    if (tag === TIFF_TAG_XMP || tag === TIFF_TAG_IPTC) continue;
+    entries.push({ tag, raw: bytes.slice(at, at + 12) });
+  }
+  const nextIfd = view.getUint32(ifdOffset + 2 + count * 12, le);
+
+  const xmp = encoder.encode(buildXmpPacket(meta));
+  const iptc = buildIptc(meta);
+
+  // Layout of appended data: [pad] xmp [pad] iptc [pad] ifd
+  const align = (n: number) => n + (n & 1);
+  const xmpAt = align(bytes.length);
+  const iptcAt = align(xmpAt + xmp.length);
+  const newIfdAt = align(iptcAt + iptc.length);
+
+  const makeEntry = (tag: number, count: number, offset: number) => {
+    const raw = new Uint8Array(12);
+    const v = new DataView(raw.buffer);
+    v.setUint16(0, tag, le);
+    v.setUint16(2, 7, le); // UNDEFINED
+    v.setUint32(4, count, le);
+    v.setUint32(8, offset, le);
+    return { tag, raw };
+  };
+  entries.push(makeEntry(TIFF_TAG_XMP, xmp.length, xmpAt), makeEntry(TIFF_TAG_IPTC, iptc.length, iptcAt));
+  entries.sort((a, b) => a.tag - b.tag);
+
+  const ifd = new Uint8Array(2 + entries.length * 12 + 4);
+  const ifdView = new DataView(ifd.buffer);
+  ifdView.setUint16(0, entries.length, le);
+  entries.forEach((e, i) => ifd.set(e.raw, 2 + i * 12));
+  ifdView.setUint32(2 + entries.length * 12, nextIfd, le);
+
+  const out = new Uint8Array(newIfdAt + ifd.length);
+  out.set(bytes, 0);
+  out.set(xmp, xmpAt);
+  out.set(iptc, iptcAt);
+  out.set(ifd, newIfdAt);
+  new DataView(out.buffer).setUint32(4, newIfdAt, le);
+  return out;
+}
@@ -0,0 +1,255 @@
+// Golden-dataset evaluation - scores generated metadata against human-approved references
+// and compares runs between prompt versions. Server-only (reads datasets and reports from disk).
+
+import { readFile, writeFile, mkdir, readdir } from 'fs/promises';
+import path from 'path';
+import { scoreTitleQuality, scoreKeywordQuality } from './util';
+import { validateMetadata } from './validation-rules';
+import type { Platform } from './types';
+
+export const DEFAULT_DATASET_DIR = path.join(process.cwd(), 'eval', 'golden');
+export const DEFAULT_REPORTS_DIR = path.join(process.cwd(), 'eval', 'reports');
+
+export type GoldenItem = {
+  file: string;                // image filename, relative to the dataset folder
+  title: string;
+  description?: string;
+  keywords: string[];
+};
+
+export type EvalSettings = {
+  platform: Platform;
+  titleLen: number;
+  keywordCount: number;
+  keywordMode: 'auto' | 'fixed';
+};
+
+// golden.json: optional settings defaults + the reference items
+export type GoldenDataset = Partial<EvalSettings> & {
+  items: GoldenItem[];
+};
+
+export type GeneratedMetadata = {
+  title: string;
+  description: string;
+  keywords: string[];
+  error?: string;
+};
+
+export type ItemScore = {
+  file: string;
+  generated: GeneratedMetadata;
+  titleScore: number;          // scoreTitleQuality, 0-100
+  keywordScore: number;        // scoreKeywordQuality, 0-100
+  keywordPrecision: number;    // share of generated keywords found in the reference, 0-1
+  keywordRecall: number;       // share of reference keywords that were generated, 0-1
+  keywordF1: number;
+  adobeErrors: string[];
+  error?: string;
+};
+
+export type EvalSummary = {
+  items: number;
+  failed: number;
+  titleScore: number;
+  keywordScore: number;
+  keywordPrecision: number;
+  keywordRecall: number;
+  keywordF1: number;
+  adobeErrors: number;         // total across all items
+};
+
+export type EvalReport = {
+  promptVersion: string;
+  provider: string;
+  model?: string;
+  dataset: string;
+  createdAt: string;
+  settings: EvalSettings;
+  summary: EvalSummary;
+  items: ItemScore[];
+};
+
+export type MetricDelta = {
+  metric: keyof EvalSummary;
+  base: number;
+  candidate: number;
+  delta: number;
+  improved: boolean;
+};
+
+export type EvalComparison = {
+  base: string;                // prompt version labels
+  candidate: string;
+  metrics: MetricDelta[];
+  items: { file: string; titleScore: number; keywordF1: number; adobeErrors: number }[]; // candidate - base
+  markdown: string;
+};
+
+/**
+ * Read <dir>/golden.json
+ */
+export async function loadGoldenDataset(dir: string): Promise<GoldenDataset> {
+  const raw = await readFile(path.join(dir, 'golden.json'), 'utf8');
+  const data = JSON.parse(raw);
+  if (!data || !Array.isArray(data.items)) {
+    throw new Error(`Invalid golden dataset in ${dir}: expected { "items": [...] } in golden.json`);
+  }
+  return data as GoldenDataset;
+}
+
+const normalizeKeyword = (k: string) => String(k || '').toLowerCase().trim().replace(/\s+/g, ' ');
+const round = (n: number, places = 3) => Math.round(n * 10 ** places) / 10 ** places;
+
+/**
+ * Precision/recall of generated keywords against the reference set (case-insensitive, exact phrase)
+ */
+export function keywordOverlap(generated: string[], reference: string[]) {
+  const gen = new Set(generated.map(normalizeKeyword).filter(Boolean));
+  const ref = new Set(reference.map(normalizeKeyword).filter(Boolean));
+  const hits = Array.from(gen).filter(k => ref.has(k)).length;
+  const precision = gen.size ? hits / gen.size : 0;
+  const recall = ref.size ? hits / ref.size : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { precision, recall, f1 };
+}
+
+/**
+ * Score one generated row against its reference item
+ */
+export function scoreItem(golden: GoldenItem, generated: GeneratedMetadata, settings: EvalSettings): ItemScore {
+  if (generated.error || !generated.title) {
+    return {
+      file: golden.file,
+      generated,
+      titleScore: 0,
+      keywordScore: 0,
+      keywordPrecision: 0,
+      keywordRecall: 0,
+      keywordF1: 0,
+      adobeErrors: [],
+      error: generated.error || 'Empty title'
+    };
+  }
+
+  const expectedCount = settings.keywordMode === 'auto' ? generated.keywords.length : settings.keywordCount;
+  const overlap = keywordOverlap(generated.keywords, golden.keywords);
+  return {
+    file: golden.file,
+    generated,
+    titleScore: scoreTitleQuality(generated.title, golden.file, settings.titleLen, true, settings.platform).score,
+    keywordScore: scoreKeywordQuality(generated.keywords, expectedCount, generated.title, settings.platform).score,
+    keywordPrecision: round(overlap.precision),
+    keywordRecall: round(overlap.recall),
+    keywordF1: round(overlap.f1),
+    adobeErrors: validateMetadata(
+      'adobe',
+      { title: generated.title, description: generated.description || '', keywords: generated.keywords },
+      { filename: golden.file, hasImage: true, expectedKeywordCount: settings.keywordMode === 'fixed' ? settings.keywordCount : undefined },
+      { autoFix: false }
+    ).issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => issue.message)
+  };
+}
+
+/**
+ * Averages over all items; failed items count as zero so a higher failure rate shows up as a regression
+ */
+export function summarize(items: ItemScore[]): EvalSummary {
+  const avg = (pick: (i: ItemScore) => number, places = 1) =>
+    items.length ? round(items.reduce((sum, i) => sum + pick(i), 0) / items.length, places) : 0;
+  return {
+    items: items.length,
+    failed: items.filter(i => i.error).length,
+    titleScore: avg(i => i.titleScore),
+    keywordScore: avg(i => i.keywordScore),
+    keywordPrecision: avg(i => i.keywordPrecision, 3),
+    keywordRecall: avg(i => i.keywordRecall, 3),
+    keywordF1: avg(i => i.keywordF1, 3),
+    adobeErrors: items.reduce((sum, i) => sum + i.adobeErrors.length, 0)
+  };
+}
+
+// Metrics where a lower number is better
+const LOWER_IS_BETTER = new Set<keyof EvalSummary>(['failed', 'adobeErrors']);
+
+/**
+ * Metric and per-item deltas (candidate - base) plus a Markdown table for PR descriptions
+ */
+export function compareReports(base: EvalReport, candidate: EvalReport): EvalComparison {
+  const metricNames: (keyof EvalSummary)[] = [
+    'titleScore', 'keywordScore', 'keywordPrecision', 'keywordRecall', 'keywordF1', 'adobeErrors', 'failed'
+  ];
+  const metrics = metricNames.map(metric => {
+    const delta = round(candidate.summary[metric] - base.summary[metric]);
+    return {
+      metric,
+      base: base.summary[metric],
+      candidate: candidate.summary[metric],
+      delta,
+      improved: LOWER_IS_BETTER.has(metric) ? delta < 0 : delta > 0
+    };
+  });
+
+  const baseByFile = new Map(base.items.map(i => [i.file, i]));
+  const items = candidate.items
+    .filter(i => baseByFile.has(i.file))
+    .map(i => {
+      const b = baseByFile.get(i.file)!;
+      return {
+        file: i.file,
+        titleScore: round(i.titleScore - b.titleScore),
+        keywordF1: round(i.keywordF1 - b.keywordF1),
+        adobeErrors: i.adobeErrors.length - b.adobeErrors.length
+      };
+    });
+
+  const sign = (n: number) => (n > 0 ? `+${n}` : String(n));
+  const lines = [
+    `## Prompt evaluation: ${base.promptVersion} → ${candidate.promptVersion}`,
+    '',
+    `Dataset: \`${candidate.dataset}\` (${candidate.summary.items} items) · Provider: ${candidate.provider}${candidate.model ? ` (${candidate.model})` : ''}`,
+    '',
+    '| Metric | Base | Candidate | Δ |',
+    '| --- | ---: | ---: | ---: |',
+    ...metrics.map(m => `| ${m.metric} | ${m.base} | ${m.candidate} | ${sign(m.delta)}${m.delta === 0 ? '' : m.improved ? ' ✅' : ' ❌'} |`)
+  ];
+  const changed = items.filter(i => i.titleScore !== 0 || i.keywordF1 !== 0 || i.adobeErrors !== 0);
+  if (changed.length) {
+    lines.push('', '| File | Δ title score | Δ keyword F1 | Δ Adobe errors |', '| --- | ---: | ---: | ---: |');
+    lines.push(...changed.map(i => `| ${i.file} | ${sign(i.titleScore)} | ${sign(i.keywordF1)} | ${sign(i.adobeErrors)} |`));
+  }
+
+  return { base: base.promptVersion, candidate: candidate.promptVersion, metrics, items, markdown: lines.join('\n') };
+}
+
+/**
+ * Write a report as <reportsDir>/<promptVersion>-<timestamp>.json and return the file name
+ */
+export async function saveReport(report: EvalReport, reportsDir = DEFAULT_REPORTS_DIR): Promise<string> {
+  const stamp = report.createdAt.replace(/[:.]/g, '-');
+  const name = `${report.promptVersion.replace(/[^a-zA-Z0-9._-]/g, '_')}-${stamp}.json`;
+  await mkdir(reportsDir, { recursive: true });
+  await writeFile(path.join(reportsDir, name), JSON.stringify(report, null, 2));
+  return name;
+}
+
+/**
+ * Load a saved report by file name (names are confined to the reports folder)
+ */
+export async function loadReport(name: string, reportsDir = DEFAULT_REPORTS_DIR): Promise<EvalReport> {
+  const raw = await readFile(path.join(reportsDir, path.basename(name)), 'utf8');
+  return JSON.parse(raw) as EvalReport;
+}
+
+/**
+ * Saved report file names (sorted by name)
+ */
+export async function listReports(reportsDir = DEFAULT_REPORTS_DIR): Promise<string[]> {
+  try {
+    return (await readdir(reportsDir)).filter(f => f.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+}
@@ -1,6 +1,7 @@
 // src/lib/excel.ts
 import * as XLSX from 'xlsx';
 import type { Row } from './csv';
+import { exportTable, type ExportSchema } from './platforms';
 
 /**
  * Convert Row data to Excel workbook
@@ -47,6 +48,16 @@ export function rowsToExcel(rows: Row[], titleLen: number, descLen: number, kwCo
   return workbook;
 }
 
+/**
+ * Convert Row data to an agency upload workbook using a platform export schema
+ */
+export function rowsToPlatformExcel(rows: Row[], schema: ExportSchema): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.aoa_to_sheet(exportTable(rows, schema));
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Metadata');
+  return workbook;
+}
+
 /**
  * Convert Excel workbook to buffer/blob
  */
@@ -56,17 +67,10 @@ export function excelToBlob(workbook: XLSX.WorkBook): Blob {
 }
 
 /**
- * Create Excel file for a specific vector format
+ * Vector rows (without errors) renamed to the given vector format extension
  */
-export function createVectorFormatExcel(
-  rows: Row[],
-  format: 'ai' | 'eps' | 'svg',
-  titleLen: number,
-  descLen: number,
-  kwCount: number
-): Blob {
-  // Filter rows for vector assets and create rows with the specified format extension
-  const vectorRows = rows
+export function toVectorFormatRows(rows: Row[], format: 'ai' | 'eps' | 'svg'): Row[] {
+  return rows
     .filter(r => r.assetType === 'vector' && !r.error)
     .map(r => {
       // Get base filename without extension
@@ -77,6 +81,19 @@ export function createVectorFormatExcel(
         extension: format
       };
     });
+}
+
+/**
+ * Create Excel file for a specific vector format
+ */
+export function createVectorFormatExcel(
+  rows: Row[],
+  format: 'ai' | 'eps' | 'svg',
+  titleLen: number,
+  descLen: number,
+  kwCount: number
+): Blob {
+  const vectorRows = toVectorFormatRows(rows, format);
 
   // If no vector rows, create empty Excel file
   if (vectorRows.length === 0) {
@@ -0,0 +1,109 @@
+// Generation result cache - re-running a batch or re-uploading the same file reuses the
+// finished row instead of paying for another model call.
+// Entries are JSON files on disk, keyed by a hash of the image bytes, the settings that shape
+// the output, the provider/model and PROMPT_VERSION. Set GENERATION_CACHE=off to disable.
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { PROMPT_VERSION, type ModelArgs } from './models';
+import type { Provider } from './types';
+import { logger, type Logger } from './logger';
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  row: Record<string, any>;
+}
+
+const CACHE_DIR = process.env.GENERATION_CACHE_DIR || path.join(process.cwd(), '.cache', 'generations');
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_ENTRIES = 5000;
+
+// Per-request fields that never change the generated metadata
+const IGNORED_ARGS: (keyof ModelArgs)[] = ['bearer', 'retryBatchId', 'requestId', 'imageData', 'imageUrl', 'preview', 'signal', 'promptVersion'];
+
+function isEnabled(): boolean {
+  return process.env.GENERATION_CACHE !== 'off';
+}
+
+/**
+ * Cache key for a generate call: image bytes + relevant ModelArgs + provider/model + prompt version
+ */
+export function generationCacheKey(provider: Provider, model: string | undefined, args: ModelArgs): string {
+  const hash = createHash('sha256');
+  // Hash the decoded bytes so the same image matches regardless of data-URL prefix
+  const base64 = args.imageData?.replace(/^data:[^,]*,/, '');
+  hash.update(base64 ? Buffer.from(base64, 'base64') : Buffer.alloc(0));
+
+  const settings = Object.fromEntries(
+    Object.entries(args)
+      .filter(([k, v]) => v !== undefined && !IGNORED_ARGS.includes(k as keyof ModelArgs))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  hash.update(JSON.stringify({ provider, model: model || null, promptVersion: args.promptVersion ?? PROMPT_VERSION, settings }));
+  return hash.digest('hex');
+}
+
+function entryPath(key: string): string {
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+/**
+ * Cached row for a key, or null on a miss (expired entries are removed)
+ */
+export async function getCachedGeneration(key: string): Promise<Record<string, any> | null> {
+  if (!isEnabled()) return null;
+  try {
+    const entry: CacheEntry = JSON.parse(await readFile(entryPath(key), 'utf8'));
+    if (entry.key !== key || Date.now() - entry.createdAt > CACHE_TTL) {
+      await unlink(entryPath(key)).catch(() => {});
+      return null;
+    }
+    return entry.row;
+  } catch {
+    // Missing or unreadable entry
+    return null;
+  }
+}
+
+/**
+ * Store a finished row (failures are never cached, so they are retried next time)
+ */
+export async function cacheGeneration(key: string, row: Record<string, any>, log: Logger = logger): Promise<void> {
+  if (!isEnabled() || (row.error && !String(row.error).startsWith('Warning:'))) return;
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    const entry: CacheEntry = { key, createdAt: Date.now(), row };
+    await writeFile(entryPath(key), JSON.stringify(entry));
+  } catch (error: any) {
+    log.warn('Could not write generation cache entry', { error });
+  }
+}
+
+/**
+ * Remove expired entries, then the oldest ones beyond MAX_ENTRIES
+ */
+export async function pruneGenerationCache(): Promise<void> {
+  if (!isEnabled()) return;
+  try {
+    const names = (await readdir(CACHE_DIR)).filter(n => n.endsWith('.json'));
+    const entries = await Promise.all(names.map(async name => {
+      const file = path.join(CACHE_DIR, name);
+      return { file, mtime: (await stat(file)).mtimeMs };
+    }));
+    entries.sort((a, b) => b.mtime - a.mtime); // Newest first
+    const cutoff = Date.now() - CACHE_TTL;
+    const stale = entries.filter((e, i) => e.mtime < cutoff || i >= MAX_ENTRIES);
+    await Promise.all(stale.map(e => unlink(e.file).catch(() => {})));
+    if (stale.length > 0) logger.info('Pruned generation cache entries', { pruned: stale.length });
+  } catch {
+    // Cache directory does not exist yet
+  }
+}
+
+// Prune the cache every hour
+if (typeof setInterval !== 'undefined') {
+  setInterval(() => {
+    void pruneGenerationCache();
+  }, 60 * 60 * 1000);
+}
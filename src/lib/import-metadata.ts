@@ -0,0 +1,114 @@
+// Import previously exported CSV/XLSX metadata back into Row[] (round-trip editing)
+
+import * as XLSX from 'xlsx';
+import type { Row } from './csv';
+import { PLATFORM_LIST, platformFromLabel, platformLabel, type PlatformLabel } from './platforms';
+import type { Platform } from './types';
+
+export type ImportResult = {
+  rows: Row[];
+  format: Platform | 'app';   // Which layout the header matched ('app' = our own export)
+  skipped: number;            // Data lines without a filename
+};
+
+// Header aliases across our own export and the agency upload formats (compared lowercased)
+const FILENAME_HEADERS = ['filename', 'file name', 'originalfilename', 'oldfilename'];
+const TITLE_HEADERS = ['title', 'image name', 'caption'];
+const DESCRIPTION_HEADERS = ['description'];
+const KEYWORD_HEADERS = ['keywords', 'supertags', 'tags'];
+
+const VECTOR_EXTS = ['svg', 'eps', 'ai'];
+const VIDEO_EXTS = ['mp4', 'mov', 'm4v', 'webm'];
+const ASSET_TYPES: Row['assetType'][] = ['photo', 'illustration', 'vector', '3d', 'icon', 'video'];
+
+/**
+ * Parse a CSV or XLSX export file into rows
+ * @param file - The uploaded .csv/.xlsx/.xls file
+ * @param fallbackPlatform - Platform to stamp on rows when the format doesn't say
+ */
+export async function importMetadataFile(file: File, fallbackPlatform: Platform): Promise<ImportResult> {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file does not contain any sheets');
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false });
+  return rowsFromTable(table.map(line => line.map(cell => String(cell ?? ''))), fallbackPlatform);
+}
+
+/**
+ * Map a header + data table onto Row objects
+ */
+export function rowsFromTable(table: string[][], fallbackPlatform: Platform): ImportResult {
+  if (table.length === 0) throw new Error('The file is empty');
+
+  const header = table[0].map(h => h.trim());
+  const lower = header.map(h => h.toLowerCase());
+  const find = (aliases: string[]) => lower.findIndex(h => aliases.includes(h));
+
+  const fileCol = find(FILENAME_HEADERS);
+  if (fileCol === -1) throw new Error('No filename column found. Is this a metadata export?');
+
+  // Agency layout whose header matches exactly, otherwise our own app export
+  const agency = PLATFORM_LIST.find(p =>
+    p.export && p.export.columns.length === header.length &&
+    p.export.columns.every((c, i) => c.header.toLowerCase() === lower[i])
+  );
+  const format: ImportResult['format'] = agency ? agency.id : 'app';
+
+  const titleCol = find(TITLE_HEADERS);
+  const descCol = find(DESCRIPTION_HEADERS);
+  const keywordCols = KEYWORD_HEADERS.map(h => lower.indexOf(h)).filter(i => i !== -1);
+  const platformCol = lower.indexOf('platform');
+  const assetCol = lower.indexOf('asset_type');
+  const illustrationCol = lower.indexOf('illustration');
+
+  const rows: Row[] = [];
+  let skipped = 0;
+
+  for (const line of table.slice(1)) {
+    const cell = (i: number) => (i >= 0 ? (line[i] ?? '').trim() : '');
+    const filename = cell(fileCol);
+    if (!filename) {
+      if (line.some(c => c.trim())) skipped++;
+      continue;
+    }
+
+    const extension = (filename.split('.').pop() || '').toLowerCase();
+    const title = cell(titleCol);
+    const description = cell(descCol);
+    // Our exports join with ", " or "; "; agencies use "," - accept any of them
+    const keywords = keywordCols
+      .flatMap(i => cell(i).split(/[;,]/))
+      .map(k => k.trim())
+      .filter(Boolean);
+
+    const platform: PlatformLabel = agency
+      ? agency.label
+      : platformLabel(platformCol >= 0 && cell(platformCol) ? platformFromLabel(cell(platformCol)) : fallbackPlatform);
+
+    const declaredAsset = cell(assetCol) as Row['assetType'];
+    const assetType: Row['assetType'] = ASSET_TYPES.includes(declaredAsset)
+      ? declaredAsset
+      : VECTOR_EXTS.includes(extension) ? 'vector'
+      : VIDEO_EXTS.includes(extension) ? 'video'
+      : cell(illustrationCol).toLowerCase() === 'yes' ? 'illustration'
+      : 'photo';
+
+    rows.push({
+      filename,
+      platform,
+      // Single-text agencies (e.g. Shutterstock) only carry a description
+      title: title || description,
+      description: description || title,
+      keywords,
+      assetType,
+      extension
+    });
+  }
+
+  return { rows, format, skipped };
+}
@@ -0,0 +1,278 @@
+// Server-side batch jobs - files are queued in memory and processed by a worker pool with
+// per-provider concurrency, so a large batch keeps running after the browser tab is closed.
+// Each file goes through the /api/generate handler, so results match interactive generation.
+// The queue lives in this process: it needs a long-lived Node server (next start, a container),
+// since serverless instances drop it on every cold start or redeploy.
+
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+import type { GenerateRequest, Provider } from './types';
+import { formatUsd, modelIdFor, estimateFileCost } from './pricing';
+import { logger } from './logger';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type JobFileStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+type JobFileInput = GenerateRequest['files'][number];
+
+// Runs one /api/generate request in-process (see app/api/jobs/route.ts)
+export type GenerateFn = (
+  body: Record<string, unknown>,
+  authorization: string | undefined,
+  signal: AbortSignal
+) => Promise<Response>;
+
+interface JobFile {
+  input?: JobFileInput;                // dropped once processed to free image data
+  name: string;
+  status: JobFileStatus;
+  row?: Record<string, any>;           // the /api/generate row
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  abort?: AbortController;
+}
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  provider: Provider;
+  request: Omit<GenerateRequest, 'files'>;
+  owner: string;                       // ownerId() of the credential that created the job
+  authorization?: string;              // forwarded to /api/generate while the job runs; never returned to clients
+  generate: GenerateFn;
+  files: JobFile[];
+  costUsd: number;                     // provider-reported spend so far (from row.cost)
+  reservedUsd: number;                 // estimated cost of files in flight, until their row.cost is known
+  stopReason?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Public view of a job (no keys, no image data)
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  provider: Provider;
+  createdAt: string;
+  updatedAt: string;
+  total: number;
+  counts: Record<JobFileStatus, number>;
+  costUsd: number;
+  budgetUsd?: number;
+  stopReason?: string;
+  files: { name: string; status: JobFileStatus; row?: Record<string, any>; error?: string }[];
+}
+
+// Files processed at once per provider, across all jobs
+const PROVIDER_CONCURRENCY: Record<Provider, number> = {
+  gemini: 3,
+  mistral: 2,
+  groq: 2,
+  openai: 1,      // local servers usually handle one request at a time
+  mock: 4
+};
+const JOB_TTL = 24 * 60 * 60 * 1000; // Finished jobs are kept for 24 hours
+
+/**
+ * Opaque owner ID for a credential (the Authorization header, or the job token issued without one)
+ */
+export function ownerId(credential: string): string {
+  return createHash('sha256').update(credential).digest('hex');
+}
+
+/**
+ * Owner IDs a request may act as: its Authorization header and its X-Job-Token
+ */
+export function requestOwners(headers: Headers): string[] {
+  return [headers.get('authorization'), headers.get('x-job-token')]
+    .filter((credential): credential is string => !!credential)
+    .map(ownerId);
+}
+
+class JobQueue {
+  private jobs: Map<string, Job> = new Map();
+  private running: Record<Provider, number> = { gemini: 0, mistral: 0, groq: 0, openai: 0, mock: 0 };
+
+  // Enqueue a batch owned by `owner` (an ownerId)
+  create(request: GenerateRequest, generate: GenerateFn, owner: string, authorization?: string): JobSnapshot {
+    const { files, ...settings } = request;
+    const now = Date.now();
+    const job: Job = {
+      id: nanoid(12),
+      status: 'queued',
+      provider: request.model.provider,
+      request: settings,
+      owner,
+      authorization: authorization || undefined,
+      generate,
+      files: files.map(f => ({ input: f, name: f.name, status: 'queued' })),
+      costUsd: 0,
+      reservedUsd: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(job.id, job);
+    logger.child({ jobId: job.id }).info('Job queued', { files: files.length, provider: job.provider });
+    this.pump();
+    return this.snapshot(job);
+  }
+
+  // Jobs of other owners are reported as missing
+  get(id: string, owners: string[]): JobSnapshot | undefined {
+    const job = this.owned(id, owners);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  list(owners: string[]): JobSnapshot[] {
+    return Array.from(this.jobs.values())
+      .filter(job => owners.includes(job.owner))
+      .map(job => this.snapshot(job));
+  }
+
+  // Cancel queued files and abort in-flight requests; finished results are kept
+  cancel(id: string, owners: string[]): JobSnapshot | undefined {
+    const job = this.owned(id, owners);
+    if (!job) return undefined;
+    this.stop(job);
+    return this.snapshot(job);
+  }
+
+  // Remove finished jobs past their TTL
+  cleanup(): void {
+    const cutoff = Date.now() - JOB_TTL;
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.status !== 'queued' && job.status !== 'running' && job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private owned(id: string, owners: string[]): Job | undefined {
+    const job = this.jobs.get(id);
+    return job && owners.includes(job.owner) ? job : undefined;
+  }
+
+  private stop(job: Job, reason?: string): void {
+    if (job.status === 'queued' || job.status === 'running') {
+      for (const file of job.files) {
+        if (file.status === 'queued' || file.status === 'running') {
+          file.abort?.abort();
+          file.status = 'cancelled';
+          file.input = undefined;
+          file.finishedAt = Date.now();
+        }
+      }
+      job.status = 'cancelled';
+      job.stopReason = reason;
+      job.authorization = undefined;
+      job.updatedAt = Date.now();
+      logger.child({ jobId: job.id }).info('Job cancelled', { reason });
+    }
+  }
+
+  // Start queued files (oldest job first) while their provider has free slots
+  private pump(): void {
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'queued' && job.status !== 'running') continue;
+      for (const file of job.files) {
+        if (this.running[job.provider] >= PROVIDER_CONCURRENCY[job.provider]) break;
+        if (file.status !== 'queued') continue;
+        this.running[job.provider]++;
+        void this.process(job, file).finally(() => {
+          this.running[job.provider]--;
+          this.pump();
+        });
+      }
+    }
+  }
+
+  private async process(job: Job, file: JobFile): Promise<void> {
+    const abort = new AbortController();
+    file.status = 'running';
+    file.startedAt = Date.now();
+    file.abort = abort;
+    job.status = 'running';
+    job.updatedAt = Date.now();
+    // Files in flight hold an estimate until their cost is known, so concurrent files can't all
+    // pass the generate route's budget check at once
+    const budgetSpentUsd = job.costUsd + job.reservedUsd;
+    const reservation = job.request.budgetUsd
+      ? estimateFileCost(modelIdFor(job.provider, job.request), file.input?.imageData)
+      : 0;
+    job.reservedUsd += reservation;
+
+    try {
+      const res = await job.generate(
+        { ...job.request, singleMode: true, budgetSpentUsd, files: [file.input] },
+        job.authorization,
+        abort.signal
+      );
+      const data = await res.json().catch(() => ({}));
+      const row = data?.rows?.[0];
+      if (abort.signal.aborted) return;
+      if (!res.ok || !row) {
+        file.status = 'error';
+        file.error = data?.message || `Generate request failed (${res.status})`;
+      } else {
+        file.row = row;
+        file.status = row.error ? 'error' : 'done';
+        file.error = row.error;
+        job.costUsd += row.cost || 0;
+        // Hard budget: stop the rest of the job once spend reaches it
+        const budget = job.request.budgetUsd;
+        if (budget && job.costUsd >= budget && job.status === 'running') {
+          this.stop(job, `Budget of ${formatUsd(budget)} reached (${formatUsd(job.costUsd)} spent)`);
+        }
+      }
+    } catch (error: any) {
+      if (abort.signal.aborted) return;
+      file.status = 'error';
+      file.error = error?.message || 'Unknown error';
+    } finally {
+      job.reservedUsd -= reservation;
+      file.abort = undefined;
+      file.input = undefined;
+      file.finishedAt = Date.now();
+      job.updatedAt = Date.now();
+      if (job.status === 'running' && job.files.every(f => f.status !== 'queued' && f.status !== 'running')) {
+        job.status = 'completed';
+        job.authorization = undefined;
+        logger.child({ jobId: job.id }).info('Job completed', { costUsd: job.costUsd });
+      }
+    }
+  }
+
+  private snapshot(job: Job): JobSnapshot {
+    const counts: Record<JobFileStatus, number> = { queued: 0, running: 0, done: 0, error: 0, cancelled: 0 };
+    job.files.forEach(f => counts[f.status]++);
+    return {
+      id: job.id,
+      status: job.status,
+      provider: job.provider,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+      total: job.files.length,
+      counts,
+      costUsd: job.costUsd,
+      budgetUsd: job.request.budgetUsd,
+      stopReason: job.stopReason,
+      files: job.files.map(f => ({ name: f.name, status: f.status, row: f.row, error: f.error }))
+    };
+  }
+}
+
+// Singleton instance - kept on globalThis because each API route is bundled separately
+// (and dev reloads modules), but all routes must see the same queue
+const globalForJobs = globalThis as typeof globalThis & { __smgJobQueue?: JobQueue };
+
+function createJobQueue(): JobQueue {
+  const queue = new JobQueue();
+  // Cleanup finished jobs every hour
+  if (typeof setInterval !== 'undefined') {
+    setInterval(() => queue.cleanup(), 60 * 60 * 1000);
+  }
+  return queue;
+}
+
+export const jobQueue = globalForJobs.__smgJobQueue ?? (globalForJobs.__smgJobQueue = createJobQueue());
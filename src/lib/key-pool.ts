@@ -1,41 +1,103 @@
 // Key Pool Manager for distributing API keys across parallel workers
-// Ensures each worker gets a unique API key to avoid quota limits
+// Ensures each worker gets a unique API key to avoid quota limits.
+// Tracks per-key health (success rate, latency, recent 429/5xx, daily use) and trips a circuit
+// breaker on unhealthy keys so workers move to healthy ones; tripped keys get a single
+// half-open probe after their cooldown.
 
 import { getDecryptedJSON } from './util';
-import type { GeminiModel, MistralModel, GroqModel } from './types';
+import { classifyKeyResult, type KeyResult } from './key-usage';
+import type { GeminiModel, MistralModel, GroqModel, Provider } from './types';
 
 type StoredKey = { id: string; key: string; visible: boolean; enabledForParallel?: boolean };
 
 interface KeyPool {
   keys: string[];
   currentIndex: number;
-  model?: GeminiModel | MistralModel | GroqModel; // Track the model for this pool
+  model?: string; // Track the model for this pool (enum ids, or free-form for OpenAI-compatible)
 }
 
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface KeyHealth {
+  requests: number;
+  successes: number;
+  failures: number;
+  avgLatencyMs?: number;                 // moving average of successful-or-not request latency
+  recent: { at: number; ok: boolean; status?: number }[];
+  consecutiveFailures: number;
+  day: string;                           // local date the daily counters belong to
+  requestsToday: number;
+  quotaExhausted: boolean;               // provider reported a daily/free-tier quota error
+  circuit: CircuitState;
+  openedAt?: number;
+  cooldownMs: number;
+  probeInFlight: boolean;
+  lastError?: string;
+}
+
+// Public view of a key's health (key itself is masked)
+export interface KeyHealthSnapshot {
+  key: string;
+  score: number;
+  circuit: CircuitState;
+  successRate: number;
+  avgLatencyMs?: number;
+  recentRateLimits: number;
+  recentServerErrors: number;
+  requestsToday: number;
+  quotaExhausted: boolean;
+  retryInMs?: number;
+  lastError?: string;
+}
+
+const RECENT_WINDOW = 20;                 // Outcomes kept per key for the success rate
+const RECENT_WINDOW_MS = 5 * 60 * 1000;   // 429/5xx counted over the last 5 minutes
+const TRIP_CONSECUTIVE_FAILURES = 3;
+const TRIP_MIN_SUCCESS_RATE = 0.5;        // ...or below 50% success over at least TRIP_MIN_SAMPLES
+const TRIP_MIN_SAMPLES = 6;
+const BASE_COOLDOWN_MS = 30 * 1000;       // First trip; doubles on every failed probe
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const QUOTA_COOLDOWN_MS = 60 * 60 * 1000; // Quota-exhausted or rejected keys are probed hourly
+const KEY_WAIT_POLL_MS = 1000;            // Workers waiting for a key re-check this often (Stop, probe outcomes)
+
 class KeyPoolManager {
-  private pools: Map<'gemini' | 'mistral' | 'groq', KeyPool> = new Map();
-  private initialized: boolean = false;
-  private exhaustedKeys: Set<string> = new Set(); // Track exhausted keys (format: "provider:key")
+  private pools: Map<Provider, KeyPool> = new Map();
+  private health: Map<string, KeyHealth> = new Map(); // format: "provider:key"
+  private failover: Map<Provider, Provider> = new Map();
 
   /**
-   * Initialize the key pool for a provider
+   * Initialize the key pool for a provider, plus an optional failover provider's pool
+   * that workers switch to once every primary key is tripped
    * Validates that all selected keys use the same model (model is provider-level, so this is always true)
    */
-  async initialize(provider: 'gemini' | 'mistral' | 'groq'): Promise<{ success: boolean; error?: string; model?: GeminiModel | MistralModel | GroqModel }> {
+  async initialize(provider: Provider, failoverProvider?: Provider): Promise<{ success: boolean; error?: string; model?: string }> {
+    this.failover.delete(provider);
+    if (failoverProvider && failoverProvider !== provider) {
+      const secondary = await this.initialize(failoverProvider);
+      if (secondary.success) {
+        this.failover.set(provider, failoverProvider);
+        console.log(`🔀 ${failoverProvider} will take over if all ${provider} keys are tripped`);
+      }
+    }
+
     try {
       const enc = await getDecryptedJSON<{
         geminiKeys?: StoredKey[];
         mistralKeys?: StoredKey[];
         groqKeys?: StoredKey[];
+        openaiKeys?: StoredKey[];
         geminiModel?: GeminiModel;
         mistralModel?: MistralModel;
         groqModel?: GroqModel;
+        openaiModel?: string;
       }>('smg_keys_enc', null as any);
 
       const keys = provider === 'gemini' 
         ? (enc?.geminiKeys || [])
         : provider === 'groq'
         ? (enc?.groqKeys || [])
+        : provider === 'openai'
+        ? (enc?.openaiKeys || [])
         : (enc?.mistralKeys || []);
 
       // Extract valid keys (non-empty, trimmed, enabled for parallel)
@@ -71,6 +133,8 @@ class KeyPoolManager {
               ? stored
               : 'meta-llama/llama-4-scout-17b-16e-instruct';
           })()
+        : provider === 'openai'
+        ? (enc?.openaiModel || '')
         : (enc?.mistralModel || 'mistral-small-latest');
 
       // Shuffle keys to distribute load evenly (not always same order)
@@ -79,11 +143,11 @@ class KeyPoolManager {
       this.pools.set(provider, {
         keys: shuffled,
         currentIndex: 0,
-        model: model as GeminiModel | MistralModel | GroqModel
+        model
       });
 
       console.log(`✅ Initialized ${provider} key pool with ${shuffled.length} key(s), model: ${model}`);
-      return { success: true, model: model as GeminiModel | MistralModel | GroqModel };
+      return { success: true, model };
     } catch (error) {
       console.error(`❌ Error initializing ${provider} key pool:`, error);
       this.pools.set(provider, { keys: [], currentIndex: 0 });
@@ -94,7 +158,7 @@ class KeyPoolManager {
   /**
    * Get the model for a provider's key pool
    */
-  getModel(provider: 'gemini' | 'mistral' | 'groq'): GeminiModel | MistralModel | GroqModel | undefined {
+  getModel(provider: Provider): string | undefined {
     const pool = this.pools.get(provider);
     return pool?.model;
   }
@@ -103,7 +167,7 @@ class KeyPoolManager {
    * Get the next available key from the pool (round-robin)
    * Returns undefined if no keys available
    */
-  getNextKey(provider: 'gemini' | 'mistral' | 'groq'): string | undefined {
+  getNextKey(provider: Provider): string | undefined {
     const pool = this.pools.get(provider);
     if (!pool || pool.keys.length === 0) {
       return undefined;
@@ -119,7 +183,7 @@ class KeyPoolManager {
    * Get a specific key by index (for assigning to workers)
    * Returns undefined if index is out of bounds
    */
-  getKeyByIndex(provider: 'gemini' | 'mistral' | 'groq', index: number): string | undefined {
+  getKeyByIndex(provider: Provider, index: number): string | undefined {
     const pool = this.pools.get(provider);
     if (!pool || pool.keys.length === 0) {
       return undefined;
@@ -132,7 +196,7 @@ class KeyPoolManager {
   /**
    * Get all available keys (for debugging/info)
    */
-  getAllKeys(provider: 'gemini' | 'mistral' | 'groq'): string[] {
+  getAllKeys(provider: Provider): string[] {
     const pool = this.pools.get(provider);
     return pool ? [...pool.keys] : [];
   }
@@ -140,44 +204,250 @@ class KeyPoolManager {
   /**
    * Get the number of available keys
    */
-  getKeyCount(provider: 'gemini' | 'mistral' | 'groq'): number {
+  getKeyCount(provider: Provider): number {
     const pool = this.pools.get(provider);
     return pool ? pool.keys.length : 0;
   }
 
+  /**
+   * Pick a key for a worker: its own key while healthy, otherwise the healthiest available key,
+   * otherwise a key from the failover provider. Returns undefined when every key is tripped.
+   * Claims the half-open probe slot when the returned key is being probed.
+   */
+  acquireKey(provider: Provider, workerId: number): { provider: Provider; key: string } | undefined {
+    const candidates: Provider[] = [provider];
+    const secondary = this.failover.get(provider);
+    if (secondary) candidates.push(secondary);
+
+    for (const p of candidates) {
+      const preferred = this.getKeyByIndex(p, workerId);
+      const key = preferred && this.isKeyAvailable(p, preferred)
+        ? preferred
+        : this.getAllKeys(p)
+            .filter(k => this.isKeyAvailable(p, k))
+            .sort((a, b) => this.score(p, b) - this.score(p, a))[0];
+      if (key) {
+        const h = this.getHealth(p, key);
+        if (h.circuit === 'half-open') {
+          h.probeInFlight = true;
+          console.log(`🩺 Probing ${p} key ${key.substring(0, 8)}... after cooldown`);
+        }
+        return { provider: p, key };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Record the outcome of a request made with a key and trip/close its circuit accordingly
+   */
+  recordResult(provider: Provider, key: string, result: KeyResult): void {
+    const h = this.getHealth(provider, key);
+    const now = Date.now();
+    const { ok, status, quotaExhausted } = classifyKeyResult(result);
+
+    h.requests++;
+    h.requestsToday += result.requests ?? 1;
+    h.recent.push({ at: now, ok, status });
+    if (h.recent.length > RECENT_WINDOW) h.recent.shift();
+    if (result.latencyMs !== undefined) {
+      h.avgLatencyMs = h.avgLatencyMs === undefined ? result.latencyMs : Math.round(h.avgLatencyMs * 0.8 + result.latencyMs * 0.2);
+    }
+
+    const wasProbe = h.probeInFlight;
+    h.probeInFlight = false;
+
+    if (ok) {
+      h.successes++;
+      h.consecutiveFailures = 0;
+      if (h.circuit !== 'closed') {
+        console.log(`✅ ${provider} key ${key.substring(0, 8)}... recovered, routing to it again`);
+        h.recent = h.recent.slice(-1); // Judge the recovered key on new results only
+      }
+      h.circuit = 'closed';
+      h.cooldownMs = BASE_COOLDOWN_MS;
+      h.quotaExhausted = false;
+      return;
+    }
+
+    h.failures++;
+    h.consecutiveFailures++;
+    h.lastError = result.error || `Request failed (${status ?? 'network error'})`;
+    if (quotaExhausted) h.quotaExhausted = true;
+
+    const rejected = status === 401 || status === 403;
+    const successRate = this.successRate(h);
+    if (quotaExhausted || rejected) {
+      this.trip(provider, key, h, QUOTA_COOLDOWN_MS, quotaExhausted ? 'quota exhausted' : `rejected (${status})`);
+    } else if (wasProbe || h.circuit === 'half-open') {
+      this.trip(provider, key, h, Math.min(h.cooldownMs * 2, MAX_COOLDOWN_MS), 'probe failed');
+    } else if (
+      h.consecutiveFailures >= TRIP_CONSECUTIVE_FAILURES ||
+      (h.recent.length >= TRIP_MIN_SAMPLES && successRate < TRIP_MIN_SUCCESS_RATE)
+    ) {
+      this.trip(provider, key, h, h.cooldownMs, `${h.consecutiveFailures} consecutive failure(s), ${Math.round(successRate * 100)}% success`);
+    }
+  }
+
   /**
    * Mark a key as exhausted (quota exceeded)
    */
-  markKeyExhausted(provider: 'gemini' | 'mistral' | 'groq', key: string): void {
-    const keyId = `${provider}:${key}`;
-    this.exhaustedKeys.add(keyId);
-    console.warn(`⚠️ Marked ${provider} key ${key.substring(0, 8)}... as exhausted`);
+  markKeyExhausted(provider: Provider, key: string): void {
+    this.recordResult(provider, key, { status: 429, error: 'Quota exhausted', quotaExhausted: true });
+  }
+
+  /**
+   * Check if a key is currently tripped (not routable)
+   */
+  isKeyExhausted(provider: Provider, key: string): boolean {
+    return this.getHealth(provider, key).circuit === 'open' && !this.isKeyAvailable(provider, key);
   }
 
   /**
-   * Check if a key is exhausted
+   * Whether a key can take a request now; open circuits turn half-open once their cooldown has passed
    */
-  isKeyExhausted(provider: 'gemini' | 'mistral' | 'groq', key: string): boolean {
-    const keyId = `${provider}:${key}`;
-    return this.exhaustedKeys.has(keyId);
+  isKeyAvailable(provider: Provider, key: string): boolean {
+    const h = this.getHealth(provider, key);
+    if (h.circuit === 'open' && Date.now() - (h.openedAt || 0) >= h.cooldownMs) {
+      h.circuit = 'half-open';
+      h.probeInFlight = false;
+    }
+    if (h.circuit === 'half-open') return !h.probeInFlight;
+    return h.circuit === 'closed';
   }
 
   /**
-   * Get the number of available (non-exhausted) keys
+   * Get the number of keys that can take a request now, optionally counting the failover provider's keys
    */
-  getAvailableKeyCount(provider: 'gemini' | 'mistral' | 'groq'): number {
+  getAvailableKeyCount(provider: Provider, includeFailover: boolean = false): number {
     const pool = this.pools.get(provider);
-    if (!pool || pool.keys.length === 0) return 0;
-    
-    return pool.keys.filter(key => !this.isKeyExhausted(provider, key)).length;
+    // Keys past their cooldown count as half-open; a half-open key already being probed can't take work
+    const count = pool ? pool.keys.filter(key => this.isKeyAvailable(provider, key)).length : 0;
+    const secondary = this.failover.get(provider);
+    return includeFailover && secondary ? count + this.getAvailableKeyCount(secondary) : count;
+  }
+
+  /**
+   * Milliseconds until the earliest tripped key of the provider (or its failover) reaches its
+   * half-open probe; undefined when no key is waiting out a cooldown
+   */
+  getNextRetryInMs(provider: Provider): number | undefined {
+    const now = Date.now();
+    const candidates: Provider[] = [provider];
+    const secondary = this.failover.get(provider);
+    if (secondary) candidates.push(secondary);
+
+    const waits = candidates.flatMap(p => this.getAllKeys(p)
+      .map(key => this.getHealth(p, key))
+      .filter(h => h.circuit === 'open')
+      .map(h => Math.max(0, (h.openedAt || 0) + h.cooldownMs - now)));
+    return waits.length > 0 ? Math.min(...waits) : undefined;
+  }
+
+  /**
+   * Wait until a key of the provider (or its failover) can take work again: the earliest cooldown
+   * ending or a half-open probe succeeding. Polls so `shouldStop` can end the wait early.
+   */
+  async waitForAvailableKey(provider: Provider, shouldStop: () => boolean): Promise<void> {
+    while (!shouldStop() && this.getAvailableKeyCount(provider, true) === 0) {
+      const retryInMs = this.getNextRetryInMs(provider) ?? KEY_WAIT_POLL_MS;
+      await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(retryInMs, 100), KEY_WAIT_POLL_MS)));
+    }
   }
 
   /**
-   * Reset exhausted keys (call when starting new generation)
+   * Health of every key in a provider's pool, healthiest first (for logs and the UI)
    */
-  resetExhaustedKeys(): void {
-    this.exhaustedKeys.clear();
-    console.log('🔄 Reset exhausted keys - fresh start for new generation');
+  getKeyHealth(provider: Provider): KeyHealthSnapshot[] {
+    const now = Date.now();
+    return this.getAllKeys(provider)
+      .map(key => {
+        const h = this.getHealth(provider, key);
+        const recent = h.recent.filter(r => now - r.at <= RECENT_WINDOW_MS);
+        return {
+          key: `${key.substring(0, 8)}...`,
+          score: this.score(provider, key),
+          circuit: h.circuit,
+          successRate: this.successRate(h),
+          avgLatencyMs: h.avgLatencyMs,
+          recentRateLimits: recent.filter(r => r.status === 429).length,
+          recentServerErrors: recent.filter(r => (r.status || 0) >= 500).length,
+          requestsToday: h.requestsToday,
+          quotaExhausted: h.quotaExhausted,
+          retryInMs: h.circuit === 'open' ? Math.max(0, (h.openedAt || 0) + h.cooldownMs - now) : undefined,
+          lastError: h.lastError
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Forget transient failures when starting a new generation.
+   * Quota-exhausted and rejected keys stay tripped until their cooldown probe succeeds.
+   */
+  resetTransientFailures(): void {
+    for (const h of this.health.values()) {
+      h.consecutiveFailures = 0;
+      h.probeInFlight = false;
+      h.recent = [];
+      if (!h.quotaExhausted && h.cooldownMs < QUOTA_COOLDOWN_MS) {
+        h.circuit = 'closed';
+        h.cooldownMs = BASE_COOLDOWN_MS;
+      }
+    }
+    console.log('🔄 Reset transient key failures - fresh start for new generation');
+  }
+
+  /**
+   * Health score 0-100: recent success rate, minus penalties for recent 429/5xx and slow responses
+   */
+  private score(provider: Provider, key: string): number {
+    const h = this.getHealth(provider, key);
+    const now = Date.now();
+    const recent = h.recent.filter(r => now - r.at <= RECENT_WINDOW_MS);
+    const rateLimits = recent.filter(r => r.status === 429).length;
+    const serverErrors = recent.filter(r => (r.status || 0) >= 500).length;
+    const latencyPenalty = h.avgLatencyMs ? Math.min(20, h.avgLatencyMs / 1000) : 0;
+    const score = this.successRate(h) * 100 - rateLimits * 10 - serverErrors * 5 - latencyPenalty;
+    return Math.max(0, Math.round(score));
+  }
+
+  private successRate(h: KeyHealth): number {
+    if (h.recent.length === 0) return 1;
+    return h.recent.filter(r => r.ok).length / h.recent.length;
+  }
+
+  private trip(provider: Provider, key: string, h: KeyHealth, cooldownMs: number, reason: string): void {
+    h.circuit = 'open';
+    h.openedAt = Date.now();
+    h.cooldownMs = cooldownMs;
+    console.warn(`⚠️ Tripped ${provider} key ${key.substring(0, 8)}... (${reason}); next probe in ${Math.round(cooldownMs / 1000)}s`);
+  }
+
+  private getHealth(provider: Provider, key: string): KeyHealth {
+    const id = `${provider}:${key}`;
+    const today = new Date().toDateString();
+    let h = this.health.get(id);
+    if (!h) {
+      h = {
+        requests: 0,
+        successes: 0,
+        failures: 0,
+        recent: [],
+        consecutiveFailures: 0,
+        day: today,
+        requestsToday: 0,
+        quotaExhausted: false,
+        circuit: 'closed',
+        cooldownMs: BASE_COOLDOWN_MS,
+        probeInFlight: false
+      };
+      this.health.set(id, h);
+    } else if (h.day !== today) {
+      h.day = today;
+      h.requestsToday = 0;
+    }
+    return h;
   }
 
   /**
@@ -195,7 +465,7 @@ class KeyPoolManager {
   /**
    * Reset the pool (reload from storage)
    */
-  async reset(provider: 'gemini' | 'mistral' | 'groq'): Promise<void> {
+  async reset(provider: Provider): Promise<void> {
     await this.initialize(provider);
   }
 }
@@ -0,0 +1,153 @@
+// Per-key usage counters, persisted in localStorage so they survive reloads.
+// Keys are stored by fingerprint only (never the key itself); daily counters roll over at local midnight.
+
+import { getJSON, setJSON } from './util';
+import type { Provider, TokenUsage } from './types';
+
+export type KeyErrorType = 'rate-limit' | 'quota' | 'auth' | 'server' | 'network' | 'other';
+
+// Outcome of one generate call made with a key
+export interface KeyResult {
+  status?: number;          // HTTP status of the generate call (or the provider status found in the row error)
+  error?: string;           // row/response error; "Warning: ..." counts as success
+  quotaExhausted?: boolean;
+  latencyMs?: number;
+  usage?: TokenUsage;       // tokens reported by the provider, when available
+  requests?: number;        // provider requests the result covers (generate plus translations; default 1)
+}
+
+export interface KeyUsage {
+  day: string;              // local date the daily counters belong to
+  requestsToday: number;
+  tokensToday: number;
+  requests: number;
+  successes: number;
+  failures: Partial<Record<KeyErrorType, number>>;
+  tokens: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastUsedAt?: string;
+}
+
+// Approximate free-tier daily limits per model - check the provider console for your account's exact quota
+export const FREE_TIER_DAILY_LIMITS: Record<string, { requests?: number; tokens?: number }> = {
+  'gemini-2.5-flash': { requests: 20 },
+  'gemini-2.5-flash-lite': { requests: 20 },
+  'meta-llama/llama-4-scout-17b-16e-instruct': { requests: 1000, tokens: 500000 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { requests: 1000, tokens: 500000 }
+};
+
+const STORAGE_KEY = 'smg_key_usage';
+const WARN_AT = 0.8; // Warn once 80% of a daily limit is used
+
+const QUOTA_PATTERNS = ['quota', 'free_tier', 'tokens per day', 'tpd', 'requests per day', 'rate limit exceeded'];
+
+/**
+ * Classify a key result: provider errors come back inside 200 rows (e.g. "Gemini API error (429): ..."),
+ * while other row errors (bad image, parse failures) say nothing about the key
+ */
+export function classifyKeyResult(result: KeyResult): { ok: boolean; status?: number; errorType?: KeyErrorType; quotaExhausted: boolean } {
+  const error = result.error && !result.error.startsWith('Warning:') ? result.error : undefined;
+  const errorStatus = Number(error?.match(/\((\d{3})\)/)?.[1]) || undefined;
+  const status = result.status !== undefined && result.status >= 400 ? result.status : errorStatus ?? result.status;
+  const lowerError = (error || '').toLowerCase();
+  const quotaExhausted = !!result.quotaExhausted ||
+    (status === 429 && QUOTA_PATTERNS.some(p => lowerError.includes(p))) ||
+    lowerError.includes('daily token quota exhausted');
+  const ok = !quotaExhausted && (status !== undefined ? status < 400 : !error);
+  if (ok) return { ok, status, quotaExhausted };
+
+  const errorType: KeyErrorType = quotaExhausted ? 'quota'
+    : status === 429 ? 'rate-limit'
+    : status === 401 || status === 403 ? 'auth'
+    : status !== undefined && status >= 500 ? 'server'
+    : status === undefined ? 'network'
+    : 'other';
+  return { ok, status, errorType, quotaExhausted };
+}
+
+/**
+ * Stable, non-reversible id for a key (FNV-1a)
+ */
+function keyFingerprint(provider: Provider, key: string): string {
+  let hash = 0x811c9dc5;
+  for (const ch of key.trim()) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${provider}:${hash.toString(16).padStart(8, '0')}`;
+}
+
+function emptyUsage(day: string): KeyUsage {
+  return { day, requestsToday: 0, tokensToday: 0, requests: 0, successes: 0, failures: {}, tokens: 0 };
+}
+
+/**
+ * Usage for a key, with daily counters rolled over if the day has changed
+ */
+export function getKeyUsage(provider: Provider, key: string): KeyUsage {
+  const today = new Date().toDateString();
+  const usage = getJSON<Record<string, KeyUsage>>(STORAGE_KEY, {})[keyFingerprint(provider, key)];
+  if (!usage) return emptyUsage(today);
+  return usage.day === today ? usage : { ...usage, day: today, requestsToday: 0, tokensToday: 0 };
+}
+
+/**
+ * Count a generate call made with a key, including the provider requests its translations made
+ */
+export function recordKeyUsage(provider: Provider, key: string, result: KeyResult): void {
+  if (!key) return;
+  const { ok, status, errorType } = classifyKeyResult(result);
+  const usage = getKeyUsage(provider, key);
+  const tokens = result.usage ? result.usage.inputTokens + result.usage.outputTokens : 0;
+  const now = new Date().toISOString();
+
+  const requests = result.requests ?? 1;
+  usage.requests += requests;
+  usage.requestsToday += requests;
+  usage.tokens += tokens;
+  usage.tokensToday += tokens;
+  usage.lastUsedAt = now;
+  if (ok) {
+    usage.successes++;
+  } else if (errorType) {
+    usage.failures[errorType] = (usage.failures[errorType] || 0) + 1;
+    usage.lastError = result.error || `Request failed (${status ?? 'network error'})`;
+    usage.lastErrorAt = now;
+  }
+
+  const all = getJSON<Record<string, KeyUsage>>(STORAGE_KEY, {});
+  all[keyFingerprint(provider, key)] = usage;
+  setJSON(STORAGE_KEY, all);
+}
+
+/**
+ * Clear a key's counters
+ */
+export function resetKeyUsage(provider: Provider, key: string): void {
+  const all = getJSON<Record<string, KeyUsage>>(STORAGE_KEY, {});
+  delete all[keyFingerprint(provider, key)];
+  setJSON(STORAGE_KEY, all);
+}
+
+/**
+ * Warning when today's use nears (or reaches) the model's free-tier daily limit
+ */
+export function getQuotaWarning(usage: KeyUsage, model?: string): { level: 'warning' | 'exhausted'; message: string } | undefined {
+  const limits = model ? FREE_TIER_DAILY_LIMITS[model] : undefined;
+  if (!limits) return undefined;
+
+  const ratios: { ratio: number; label: string }[] = [];
+  if (limits.requests) {
+    ratios.push({ ratio: usage.requestsToday / limits.requests, label: `${usage.requestsToday}/${limits.requests} requests` });
+  }
+  if (limits.tokens) {
+    ratios.push({ ratio: usage.tokensToday / limits.tokens, label: `${usage.tokensToday.toLocaleString()}/${limits.tokens.toLocaleString()} tokens` });
+  }
+  const worst = ratios.sort((a, b) => b.ratio - a.ratio)[0];
+  if (!worst || worst.ratio < WARN_AT) return undefined;
+
+  return worst.ratio >= 1
+    ? { level: 'exhausted', message: `Free-tier daily limit likely reached (${worst.label} today). Rotate to another key.` }
+    : { level: 'warning', message: `Nearing the free-tier daily limit (${worst.label} today). Consider rotating keys before a large batch.` };
+}
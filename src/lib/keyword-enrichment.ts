@@ -1,15 +1,22 @@
 // Keyword enrichment - adds synonyms, related terms, and hierarchy
 
+import type { Platform } from './types';
+import { PLATFORMS } from './platforms';
+import { keywordKey } from './languages';
+
 /**
  * Enrich keywords with related terms, synonyms, and hierarchy
  */
 export function enrichKeywords(
   keywords: string[],
   title: string,
-  platform: 'general' | 'adobe' | 'shutterstock'
+  platform: Platform
 ): string[] {
   const enriched = [...keywords];
-  const existing = new Set(keywords.map(k => k.toLowerCase()));
+  // "flowers" already covers "flower" unless the platform keeps plural variants apart
+  const allowPlurals = PLATFORMS[platform].allowPluralVariants ?? false;
+  const key = (k: string) => keywordKey(k, 'en', allowPlurals);
+  const existing = new Set(keywords.map(key));
   
   // Extract words from title for enrichment
   const titleWords = title.toLowerCase()
@@ -85,12 +92,12 @@ export function enrichKeywords(
   // Add related terms
   for (const keyword of keywords) {
     const lower = keyword.toLowerCase();
-    const related = relatedTerms[lower];
+    const related = relatedTerms[lower] ?? relatedTerms[keywordKey(lower)];
     if (related) {
       for (const term of related) {
-        if (!existing.has(term) && enriched.length < 60) {
+        if (!existing.has(key(term)) && enriched.length < 60) {
           enriched.push(term);
-          existing.add(term);
+          existing.add(key(term));
         }
       }
     }
@@ -102,9 +109,9 @@ export function enrichKeywords(
   if (hasLocation) {
     const locationTerms = ['north america', 'united states', 'usa'];
     for (const term of locationTerms) {
-      if (!existing.has(term) && enriched.length < 60) {
+      if (!existing.has(key(term)) && enriched.length < 60) {
         enriched.push(term);
-        existing.add(term);
+        existing.add(key(term));
       }
     }
   }
@@ -125,9 +132,9 @@ export function enrichKeywords(
     for (const [category, terms] of Object.entries(categoryMap)) {
       if (lower.includes(category) || category.includes(lower)) {
         for (const term of terms) {
-          if (!existing.has(term) && enriched.length < 60) {
+          if (!existing.has(key(term)) && enriched.length < 60) {
             enriched.push(term);
-            existing.add(term);
+            existing.add(key(term));
           }
         }
       }
@@ -139,9 +146,9 @@ export function enrichKeywords(
     // Adobe Stock: Focus on buyer-intent and commercial use keywords
     const buyerIntentTerms = ['commercial use', 'royalty free', 'stock photo', 'business', 'marketing'];
     for (const term of buyerIntentTerms) {
-      if (!existing.has(term) && enriched.length < 60) {
+      if (!existing.has(key(term)) && enriched.length < 60) {
         enriched.push(term);
-        existing.add(term);
+        existing.add(key(term));
       }
     }
   }
@@ -156,7 +163,7 @@ export function enrichKeywords(
 export function generateLongTailKeywords(
   keywords: string[],
   title: string,
-  platform: 'general' | 'adobe' | 'shutterstock'
+  platform: Platform
 ): string[] {
   const longTail: string[] = [];
   const existing = new Set(keywords.map(k => k.toLowerCase()));
@@ -0,0 +1,73 @@
+// Keyword ranking - orders the final keyword list by relevance, since Adobe Stock's search
+// weights the first ~10 keywords most. Runs after normalization, enrichment and validation,
+// so it only reorders the list and never adds or drops keywords.
+
+import { GENERIC_KEYWORDS } from './validation-rules';
+import { LANGUAGES, splitWords } from './languages';
+import type { Language } from './types';
+
+// Keywords ranked above this boundary carry the most search weight; the UI marks it
+export const TOP_KEYWORDS = 10;
+
+export type KeywordRankContext = {
+  title: string;
+  modelKeywords: string[];    // The model's own list, most important first (the prompt asks for that order)
+  language?: Language;
+};
+
+export type KeywordScore = {
+  keyword: string;
+  score: number;
+  titleOverlap: number;       // 0-40: share of the keyword's words that appear in the title
+  modelOrder: number;         // 0-30: earlier in the model's list scores higher; added terms get 0
+  specificity: number;        // -5-10: two-word phrases and longer words are more specific
+  genericness: number;        // 0 or -25 for catch-all terms like "design" or "background"
+};
+
+/**
+ * Relevance score of one keyword, with the parts that make it up
+ */
+export function scoreKeyword(keyword: string, ctx: KeywordRankContext): KeywordScore {
+  const { spaced, stem } = LANGUAGES[ctx.language ?? 'en'];
+  const k = keyword.toLowerCase().trim();
+  const words = splitWords(k);
+
+  let titleOverlap = 0;
+  if (spaced) {
+    const titleStems = new Set(splitWords(ctx.title).map(stem));
+    const inTitle = words.filter(w => titleStems.has(stem(w))).length;
+    titleOverlap = words.length > 0 ? Math.round((inTitle / words.length) * 40) : 0;
+  } else if (k && ctx.title.toLowerCase().includes(k)) {
+    titleOverlap = 40;
+  }
+
+  const position = ctx.modelKeywords.findIndex(m => m.toLowerCase().trim() === k);
+  const modelOrder = position === -1 ? 0 : Math.round(30 * (1 - position / ctx.modelKeywords.length));
+
+  let specificity = 0;
+  if (words.length === 2) specificity = 10;
+  else if (words.length > 2) specificity = 5;    // long-tail phrases: specific, but rarely searched verbatim
+  else if (spaced && k.length >= 7) specificity = 5;
+  else if (spaced && k.length <= 3) specificity = -5;
+
+  const genericness = GENERIC_KEYWORDS.has(k) || (words.length > 0 && words.every(w => GENERIC_KEYWORDS.has(w))) ? -25 : 0;
+
+  return {
+    keyword,
+    score: titleOverlap + modelOrder + specificity + genericness,
+    titleOverlap,
+    modelOrder,
+    specificity,
+    genericness
+  };
+}
+
+/**
+ * Keywords reordered by relevance, highest first (ties keep their current order)
+ */
+export function rankKeywords(keywords: string[], ctx: KeywordRankContext): string[] {
+  return keywords
+    .map((keyword, index) => ({ index, score: scoreKeyword(keyword, ctx).score }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ index }) => keywords[index]);
+}
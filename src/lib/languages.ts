@@ -0,0 +1,168 @@
+// Language registry - metadata target languages with the stopwords, stemming and script rules
+// keyword cleanup and validation use for each. English uses the plural lemmatizer; the other
+// stemmers are deliberately light (plural/inflection endings only) so they never merge two
+// different words, just two forms of one.
+
+import { lemmatize } from './lemmatizer';
+import type { Language } from './types';
+
+export type LanguageSpec = {
+  id: Language;
+  label: string;              // English name, used in prompts
+  nativeLabel: string;        // Shown in the language picker
+  spaced: boolean;            // Words are separated by spaces (false for Japanese)
+  minKeywordLength: number;   // Shorter keywords are dropped
+  stopwords: Set<string>;     // Never keywords on their own, ignored in title/keyword overlap
+  stem: (word: string) => string;
+  foreignLetter: RegExp;      // Matches a letter from a script this language doesn't use
+};
+
+// Strip the first matching ending, keeping at least 3 characters of the word
+const stripEndings = (...endings: RegExp[]) => (word: string) => {
+  let out = word;
+  for (const ending of endings) {
+    const next = out.replace(ending, '');
+    if (next.length >= 3) out = next;
+  }
+  return out;
+};
+
+const LATIN_ONLY = /(?!\p{scx=Latin})\p{L}/u;
+
+export const LANGUAGES: Record<Language, LanguageSpec> = {
+  en: {
+    id: 'en',
+    label: 'English',
+    nativeLabel: 'English',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+      'of', 'on', 'or', 'out', 'the', 'to', 'with'
+    ]),
+    stem: lemmatize,            // flowers/flower, leaves/leaf; glass and business stay as they are
+    foreignLetter: LATIN_ONLY
+  },
+  de: {
+    id: 'de',
+    label: 'German',
+    nativeLabel: 'Deutsch',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines', 'einem', 'einen',
+      'und', 'oder', 'mit', 'von', 'vom', 'zu', 'zum', 'zur', 'im', 'in', 'am', 'an', 'auf', 'aus',
+      'bei', 'für', 'nach', 'über', 'unter', 'vor', 'ist', 'sind', 'als'
+    ]),
+    // blumen/blume, kinder/kind, hauses/haus
+    stem: stripEndings(/(?:en|er|es|e|n|s)$/),
+    foreignLetter: LATIN_ONLY
+  },
+  es: {
+    id: 'es',
+    label: 'Spanish',
+    nativeLabel: 'Español',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'e', 'o', 'u', 'de', 'del', 'al',
+      'en', 'con', 'por', 'para', 'sin', 'sobre', 'es', 'son', 'que'
+    ]),
+    // flores/flor, calles/calle, mujeres/mujer
+    stem: stripEndings(/s$/, /e$/),
+    foreignLetter: LATIN_ONLY
+  },
+  fr: {
+    id: 'fr',
+    label: 'French',
+    nativeLabel: 'Français',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'le', 'la', 'les', 'un', 'une', 'des', 'et', 'ou', 'de', 'du', 'au', 'aux', 'en', 'avec',
+      'pour', 'par', 'sur', 'sans', 'dans', 'est', 'sont', 'que', 'qui'
+    ]),
+    // fleurs/fleur, belles/belle, bateaux/bateau
+    stem: stripEndings(/[sx]$/, /e$/),
+    foreignLetter: LATIN_ONLY
+  },
+  it: {
+    id: 'it',
+    label: 'Italian',
+    nativeLabel: 'Italiano',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'il', 'lo', 'la', 'i', 'gli', 'le', 'un', 'uno', 'una', 'e', 'ed', 'o', 'di', 'del', 'della',
+      'dei', 'delle', 'in', 'nel', 'nella', 'con', 'per', 'su', 'da', 'al', 'alla', 'è', 'sono', 'che'
+    ]),
+    // fiori/fiore, gatti/gatto, case/casa
+    stem: stripEndings(/[aeio]$/),
+    foreignLetter: LATIN_ONLY
+  },
+  pt: {
+    id: 'pt',
+    label: 'Portuguese',
+    nativeLabel: 'Português',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'de', 'do', 'da', 'dos', 'das',
+      'em', 'no', 'na', 'nos', 'nas', 'com', 'por', 'para', 'ao', 'sem', 'sobre', 'é', 'são', 'que'
+    ]),
+    // flores/flor, casas/casa
+    stem: stripEndings(/s$/, /e$/),
+    foreignLetter: LATIN_ONLY
+  },
+  nl: {
+    id: 'nl',
+    label: 'Dutch',
+    nativeLabel: 'Nederlands',
+    spaced: true,
+    minKeywordLength: 3,
+    stopwords: new Set([
+      'de', 'het', 'een', 'en', 'of', 'van', 'in', 'op', 'met', 'voor', 'aan', 'bij', 'uit', 'naar',
+      'over', 'onder', 'is', 'zijn', 'dat', 'te'
+    ]),
+    // bloemen/bloem, auto's/auto
+    stem: stripEndings(/(?:en|'s|s)$/),
+    foreignLetter: LATIN_ONLY
+  },
+  ja: {
+    id: 'ja',
+    label: 'Japanese',
+    nativeLabel: '日本語',
+    spaced: false,
+    minKeywordLength: 1,       // 猫, 花 and 空 are complete keywords
+    stopwords: new Set(['の', 'は', 'が', 'を', 'に', 'で', 'と', 'も', 'や', 'へ', 'から', 'まで', 'より']),
+    stem: word => word,        // No inflected plurals to merge
+    // Latin is allowed for loanwords and tech terms (4K, PNG)
+    foreignLetter: /(?![\p{scx=Han}\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Latin}])\p{L}/u
+  }
+};
+
+export const LANGUAGE_LIST: LanguageSpec[] = Object.values(LANGUAGES);
+
+/**
+ * Stem of a keyword for duplicate detection (a phrase is stemmed on its last word)
+ */
+export function stemKeyword(keyword: string, language: Language = 'en'): string {
+  const k = keyword.toLowerCase().trim();
+  const i = k.lastIndexOf(' ');
+  return k.slice(0, i + 1) + LANGUAGES[language].stem(k.slice(i + 1));
+}
+
+/**
+ * Duplicate-detection key under a platform's plural policy: singular and plural share a key
+ * unless the platform allows both forms as separate keywords
+ */
+export function keywordKey(keyword: string, language: Language = 'en', allowPluralVariants = false): string {
+  return allowPluralVariants ? keyword.toLowerCase().trim() : stemKeyword(keyword, language);
+}
+
+/**
+ * Lowercased words of a text (Unicode-aware; a whole unspaced Japanese phrase is one word)
+ */
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 0);
+}
@@ -0,0 +1,65 @@
+// English keyword lemmatizer - maps plural nouns to their singular so "flower"/"flowers" and
+// "leaf"/"leaves" count as one keyword, without the collisions of suffix stripping
+// ("glass" stays "glass", "business" stays "business").
+// Only noun plurals are handled: -ing and -er forms are left alone because in stock metadata
+// they are usually keywords of their own ("painting", "building", "wedding", "hiker").
+
+// Irregular and -ves/-oes plurals that the suffix rules would get wrong
+const IRREGULAR_PLURALS = new Map<string, string>(Object.entries({
+  // Vowel change and -en
+  men: 'man', women: 'woman', children: 'child', people: 'person', mice: 'mouse', lice: 'louse',
+  geese: 'goose', feet: 'foot', teeth: 'tooth', oxen: 'ox', dice: 'die',
+  businessmen: 'businessman', businesswomen: 'businesswoman', firemen: 'fireman', fishermen: 'fisherman',
+  policemen: 'policeman', snowmen: 'snowman', grandchildren: 'grandchild',
+  // -f/-fe to -ves
+  leaves: 'leaf', wolves: 'wolf', knives: 'knife', wives: 'wife', lives: 'life', halves: 'half',
+  shelves: 'shelf', loaves: 'loaf', calves: 'calf', thieves: 'thief', scarves: 'scarf', elves: 'elf',
+  selves: 'self', hooves: 'hoof', wharves: 'wharf', sheaves: 'sheaf',
+  // -o to -oes
+  potatoes: 'potato', tomatoes: 'tomato', heroes: 'hero', echoes: 'echo', volcanoes: 'volcano',
+  mangoes: 'mango', mosquitoes: 'mosquito', torpedoes: 'torpedo', dominoes: 'domino', tornadoes: 'tornado',
+  // Latin and Greek
+  cacti: 'cactus', fungi: 'fungus', nuclei: 'nucleus', stimuli: 'stimulus', alumni: 'alumnus',
+  larvae: 'larva', algae: 'alga', antennae: 'antenna', vertebrae: 'vertebra',
+  indices: 'index', matrices: 'matrix', vertices: 'vertex', appendices: 'appendix',
+  analyses: 'analysis', crises: 'crisis', theses: 'thesis', diagnoses: 'diagnosis', oases: 'oasis',
+  phenomena: 'phenomenon', criteria: 'criterion', bacteria: 'bacterium',
+  // -zes with a doubled z, -ches from -che
+  quizzes: 'quiz', aches: 'ache', headaches: 'headache', niches: 'niche', caches: 'cache',
+  avalanches: 'avalanche', mustaches: 'mustache', moustaches: 'moustache', cliches: 'cliche', quiches: 'quiche'
+}));
+
+// Words that end like a plural but are not one, or whose singular means something else (glasses/glass)
+const INVARIANT = new Set([
+  'news', 'series', 'species', 'means', 'headquarters', 'clothes', 'jeans', 'pants', 'shorts', 'trousers', 'pajamas',
+  'scissors', 'binoculars', 'glasses', 'sunglasses', 'goggles', 'tongs', 'thanks', 'outskirts', 'goods',
+  'physics', 'mathematics', 'economics', 'athletics', 'gymnastics', 'politics', 'aerobics', 'ethics',
+  'billiards', 'darts', 'diabetes', 'measles', 'mumps', 'lens', 'canvas', 'atlas', 'bias', 'gas',
+  'yes', 'always', 'perhaps', 'sometimes', 'overseas', 'whereas', 'nowadays', 'upstairs', 'downstairs',
+  'indoors', 'outdoors', 'towards', 'afterwards', 'backwards', 'forwards', 'across', 'plus', 'versus'
+]);
+
+// -ies plurals of -ie nouns (the default rule would give "cooky", "movy")
+const IE_PLURALS = new Set([
+  'cookies', 'movies', 'pies', 'ties', 'lies', 'zombies', 'selfies', 'brownies', 'smoothies', 'calories',
+  'rookies', 'hoodies', 'goalies', 'veggies', 'pixies', 'aunties', 'prairies', 'genies', 'eyries', 'birdies',
+  'hippies', 'yuppies', 'newbies', 'magpies', 'budgies', 'collies', 'groupies', 'walkies', 'lassies'
+]);
+
+/**
+ * Singular form of an English word (words that aren't plural nouns come back unchanged)
+ */
+export function lemmatize(word: string): string {
+  const w = word.toLowerCase();
+  const irregular = IRREGULAR_PLURALS.get(w);
+  if (irregular) return irregular;
+  if (w.length <= 3 || !w.endsWith('s') || INVARIANT.has(w)) return w;
+
+  // Not plurals: glass, business, cactus, iris, famous
+  if (/(?:ss|us|is)$/.test(w)) return w;
+
+  if (IE_PLURALS.has(w)) return w.slice(0, -1);
+  if (w.endsWith('ies') && w.length > 4) return `${w.slice(0, -3)}y`;     // berries -> berry
+  if (/(?:ss|sh|ch|x)es$/.test(w)) return w.slice(0, -2);                  // classes, dishes, beaches, boxes
+  return w.slice(0, -1);                                                    // flowers, shoes, houses, gloves
+}
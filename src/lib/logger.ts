@@ -0,0 +1,108 @@
+// Structured server logger - one JSON object per line: {time, level, msg, ...context}.
+// LOG_LEVEL (debug | info | warn | error) sets the minimum level; the default is info in
+// production and debug otherwise. Messages and fields are redacted before they are written,
+// so API keys, bearer tokens and base64 image payloads never reach the log output.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function minLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || '').trim().toLowerCase();
+  if (level in LEVELS) return level as LogLevel;
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+// Fields whose values are dropped whatever they contain
+const SECRET_FIELDS = /^(authorization|bearer|api[-_]?key|key|token|secret|password|image[-_]?data|base64)$/i;
+const MAX_DEPTH = 6;
+
+// Patterns replaced inside any logged string
+const REDACTIONS: [RegExp, string | ((match: string, ...groups: string[]) => string)][] = [
+  [/data:([\w/+.-]+);base64,[A-Za-z0-9+/=]+/g, (m, mime) => `data:${mime};base64,[${m.length} chars redacted]`],
+  [/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, 'Bearer [REDACTED]'],
+  [/([?&](?:key|api_key|apikey|access_token|token)=)[^&\s"']+/gi, '$1[REDACTED]'],
+  [/\bAIza[0-9A-Za-z_-]{20,}/g, '[REDACTED_KEY]'],          // Google / Gemini
+  [/\bgsk_[0-9A-Za-z]{20,}/g, '[REDACTED_KEY]'],            // Groq
+  [/\bsk-[0-9A-Za-z_-]{16,}/g, '[REDACTED_KEY]'],           // OpenAI-style
+  // Prefix-less keys (e.g. Mistral): 32+ mixed-case alphanumerics with digits - hex hashes are left alone
+  [/\b(?=[A-Za-z0-9]*[a-z])(?=[A-Za-z0-9]*[A-Z])(?=[A-Za-z0-9]*\d)[A-Za-z0-9]{32,}\b/g, '[REDACTED_KEY]'],
+  [/[A-Za-z0-9+/]{200,}={0,2}/g, m => `[base64 ${m.length} chars redacted]`]
+];
+
+/**
+ * Strip secrets and image payloads from a string
+ */
+export function redactString(value: string): string {
+  let out = value;
+  for (const [pattern, replacement] of REDACTIONS) {
+    out = out.replace(pattern, replacement as any);
+  }
+  return out;
+}
+
+/**
+ * Deep copy of a value with secrets removed (Errors become {name, message, stack})
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(typeof (value as any).status === 'number' ? { status: (value as any).status } : {}),
+      ...(value.stack ? { stack: redactString(value.stack) } : {})
+    };
+  }
+  if (Array.isArray(value)) return value.map(v => redact(v, depth + 1));
+
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = SECRET_FIELDS.test(k) && v !== undefined && v !== null && typeof v !== 'boolean'
+      ? '[REDACTED]'
+      : redact(v, depth + 1);
+  }
+  return out;
+}
+
+export class Logger {
+  constructor(private readonly context: LogFields = {}) {}
+
+  // Logger whose entries also carry these fields (e.g. correlationId, requestId)
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.context, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[minLevel()]) return;
+    const entry = redact({ time: new Date().toISOString(), level, msg, ...this.context, ...fields });
+    const line = JSON.stringify(entry);
+    if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+// Root logger; use logger.child({...}) to attach request context
+export const logger = new Logger();
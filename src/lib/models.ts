@@ -1,10 +1,15 @@
 // src/lib/models.ts
-import { filenameHints, truncateByChars, dedupe, filterFilenameBasedKeywords } from './util';
+import { filenameHints, truncateByChars, dedupe, filterFilenameBasedKeywords, sleep, isAbortError } from './util';
 
-import type { GeminiModel, MistralModel, GroqModel } from './types';
+import type { GeminiModel, MistralModel, GroqModel, Platform, TokenUsage, CustomDictionaries, Language } from './types';
+import { PLATFORMS } from './platforms';
+import { LANGUAGES } from './languages';
+import { BUILTIN_BANNED_TERMS, TITLE_FILLER_TERMS, KEYWORD_FILLER_TERMS } from './dictionaries';
+import { exceedsMaxWait, quotaWaitError } from './rate-limiter';
+import { logger, type Logger } from './logger';
 
 export type ModelArgs = {
-  platform: 'general' | 'adobe' | 'shutterstock';
+  platform: Platform;
   titleLen: number;
   descLen: number;           // usually 150
   keywordMode?: 'auto' | 'fixed';
@@ -16,6 +21,9 @@ export type ModelArgs = {
   suffix?: string;
   negativeTitle: string[];
   negativeKeywords: string[];
+  dictionary?: CustomDictionaries; // User's custom trademark/banned lists and whitelist
+  language?: Language;        // Language the model writes in (default English)
+  translateTo?: Language[];   // Translated after generation; not in the prompt, but part of the cache key
   preview?: boolean;          // Deprecated: use geminiModel instead
   bearer?: string;           // optional key override from Authorization header
   videoHints?: { style?: string[]; tech?: string[] };
@@ -34,6 +42,13 @@ export type ModelArgs = {
   geminiModel?: GeminiModel;  // Selected Gemini model
   mistralModel?: MistralModel; // Selected Mistral model
   groqModel?: GroqModel; // Selected Groq model
+  openaiBaseUrl?: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  openaiModel?: string;   // Model name on that server
+  existingMetadata?: { title: string; description: string; keywords: string[] }; // Re-optimize: metadata already in the file
+  promptVersion?: string;     // Key of PROMPT_BUILDERS to build the prompt with (default PROMPT_VERSION)
+  retryBatchId?: string;      // Retry events go to this batch's /api/retry-events subscribers
+  requestId?: string;         // RetryTracker request ID (also the log correlation ID for this file)
+  signal?: AbortSignal;       // Aborts provider fetches and retry waits when the client cancels
 };
 
 export type ModelOut = { 
@@ -41,29 +56,21 @@ export type ModelOut = {
   description: string; 
   keywords: string[];
   error?: string; // Error message if generation failed
+  usage?: TokenUsage; // Tokens reported by the provider, when available
+  fallback?: boolean; // Filename-based placeholder from fallback(), never cached
 };
 
 // ---------- Prompt pieces
-const BANNED_TITLE = [
-  'professional','high quality','stock','commercial','royalty free','royalty-free',
-  'image','photo','photograph','picture','wallpaper'
-];
-const BANNED_KEYWORDS = [
-  ...BANNED_TITLE,
-  'vector file','jpeg','jpg','png','webp','svg','eps','ai','file','download',
-  'copy','generated','gemini','mistral','watermark','logo',
-  'artist','style of','inspired by','influenced by','in the tradition of','drawing on'
-];
-const PLATFORM_TIPS = {
-  adobe: `Commercial-safe. No brands, no celebrities, no private names, no artist names, no creative work names.
-Titles can be up to 200 characters. Use short, factual phrases (NOT formal sentences, NOT keyword lists).
-Include specific details: animal species names, location names (city/state/country), equipment names, specific actions.
-Example: "Young woman playing catch with Jack Russel Terrier at beach in Portland, Oregon, USA"
-Structure: [Subject] [action/description] [location/context]. Be precise and descriptive.
-Use caring, engaged language when describing people. Never use demeaning or derogatory language.`,
-  shutterstock: 'Rich synonyms but no repetition or stuffing.',
-  general: 'Platform-agnostic, balanced metadata suitable for most stock sites.'
-} as const;
+// Bump when rules(), buildUserPrompt() or the /api/generate post-processing change; evaluation
+// reports are labeled with it and cached generations from older versions are not reused
+export const PROMPT_VERSION = '2026-10-metadata-v5';
+
+// User-prompt builders by version. While a prompt change is being evaluated, keep the previous
+// builder registered under its old version so /api/eval can run both from the same tree
+export const PROMPT_BUILDERS: Record<string, (a: ModelArgs) => string> = {
+  [PROMPT_VERSION]: currentUserPrompt
+};
+
 const ASSET_TIPS = {
   photo: 'Photo terms allowed; do not invent camera models or releases.',
   illustration: 'Illustration terms; avoid camera/video jargon.',
@@ -78,7 +85,7 @@ function rules(
   keywordCount: number,
   titleLen: number,
   hasImage: boolean = false,
-  platform?: 'general' | 'adobe' | 'shutterstock',
+  platform?: Platform,
   isVideo?: boolean
 ) {
   // Keyword target:
@@ -428,7 +435,7 @@ CRITICAL:
 The title must be a complete phrase, not truncated or cut off mid-sentence.
 ${generalTitleGuidance}
 Write a natural, descriptive title (a short phrase or sentence), not a keyword list. Subject-first; DO NOT use filler words:
-[${BANNED_TITLE.join(', ')}].
+[${TITLE_FILLER_TERMS.join(', ')}].
 ${adobeTitleGuidance}
 ${fewShotExamples}
 Description: ≤150 chars, 1 sentence, subject + style/setting/use-case; no brand/celebrity/release claims.
@@ -444,11 +451,20 @@ Order keywords by importance (MOST CRITICAL for Adobe Stock search visibility).
 ${adobeKeywordGuidance}
 All keywords: lowercase, unique, no quotes, no duplicates.
 CRITICAL DUPLICATE PREVENTION: Before returning JSON, verify all keywords are unique (case-insensitive). If you find duplicates like ["design", "art", "design"], remove duplicates and ensure each keyword appears only once.
-NEVER include banned keywords: [${BANNED_KEYWORDS.join(', ')}].
+NEVER include banned keywords: [${[...TITLE_FILLER_TERMS, ...KEYWORD_FILLER_TERMS, ...BUILTIN_BANNED_TERMS].join(', ')}].
 `.trim();
 }
 
-export function buildUserPrompt(a: ModelArgs) {
+/**
+ * User prompt for the requested prompt version (the current one unless a.promptVersion says otherwise)
+ */
+export function buildUserPrompt(a: ModelArgs): string {
+  const build = PROMPT_BUILDERS[a.promptVersion ?? PROMPT_VERSION];
+  if (!build) throw new Error(`Unknown prompt version: ${a.promptVersion}`);
+  return build(a);
+}
+
+function currentUserPrompt(a: ModelArgs) {
   const hints = filenameHints(a.filename);
   const hasImage = !!(a.imageData || a.imageUrl);
   const isPNG = a.extension?.toLowerCase() === 'png';
@@ -516,6 +532,17 @@ Technical attributes: ${a.objectNames.technical_attributes.join(', ') || 'none'}
 CRITICAL: Incorporate these detected names naturally into the title. Use scientific names when available. Include technical attributes like "high resolution", "perfectly cutout", "isolated PNG" when applicable.
 ` : '';
   
+  // Re-optimize mode - existing curated metadata is context to improve, not a draft to throw away
+  const existing = a.existingMetadata;
+  const existingMetadataText = existing && (existing.title || existing.keywords.length > 0) ? `\n\n♻️ EXISTING METADATA (IMPROVE, DO NOT REPLACE):
+Current title: ${existing.title || 'none'}
+Current description: ${existing.description || 'none'}
+Current keywords: ${existing.keywords.join(', ') || 'none'}
+
+Keep every existing keyword that accurately describes the content - these were curated by hand. Drop only ones that are wrong, banned or duplicates, then add missing relevant keywords up to the target count.
+Rewrite the title only where it can be made more specific, accurate or compliant; keep its key subject terms.
+` : '';
+
   // Filename rule - only mention if NO image is provided
   const filenameRule = hasImage
     ? '' // Don't mention filename at all when image is provided
@@ -530,12 +557,20 @@ CRITICAL: Incorporate these detected names naturally into the title. Use scienti
   
   // If we have an image (photo/vector/video frame), ignore filename hints entirely
   const shouldUseFilenameHints = !hasImage;
+
+  // Native generation in another language - the rules above are written in English
+  const language = LANGUAGES[a.language ?? 'en'];
+  const languageText = language.id !== 'en' ? `🌐 OUTPUT LANGUAGE: ${language.label} (${language.nativeLabel}).
+Write the title, description and EVERY keyword in natural ${language.label}, the way a native-speaking stock editor would - not word-for-word translations of English.
+English phrases quoted in these instructions (e.g. "isolated on white background") must also be written in ${language.label}.
+Keep scientific (Latin) names unchanged and keep the JSON field names in English.
+` : '';
   
   return `
 ${filenameRestriction}${mandatoryOverride}${rules(a.keywordMode, a.keywordCount, a.titleLen, hasImage, a.platform, isVideo)}
-Platform: ${a.platform} (${PLATFORM_TIPS[a.platform]}).
+${languageText}Platform: ${a.platform} (${PLATFORMS[a.platform].tips}).
 Asset: ${a.assetType} (${ASSET_TIPS[a.assetType]}); ext: ${a.extension}.
-${filenameRule ? `${filenameRule}\n` : ''}${fileAttributesText}${objectNamesText}${hasImage ? `${imageContext}
+${filenameRule ? `${filenameRule}\n` : ''}${fileAttributesText}${objectNamesText}${existingMetadataText}${hasImage ? `${imageContext}
 - Subjects and objects
 - Colors and textures
 - Setting and background (CRITICAL: 
@@ -549,6 +584,9 @@ ${filenameRule ? `${filenameRule}\n` : ''}${fileAttributesText}${objectNamesText
 Apply prefix="${a.prefix || ''}" and suffix="${a.suffix || ''}" to the title if provided.
 Avoid title words: [${a.negativeTitle.join(', ')}].
 Exclude keywords: [${a.negativeKeywords.join(', ')}].
+${a.dictionary && (a.dictionary.trademarks.length > 0 || a.dictionary.banned.length > 0)
+  ? `NEVER use these brand or banned terms in the title, description or keywords: [${[...a.dictionary.trademarks, ...a.dictionary.banned].join(', ')}].`
+  : ''}
 ${shouldUseFilenameHints
   ? `Filename hints: ${hints.join(', ') || 'none'}.`
   : ''}
@@ -570,25 +608,42 @@ Return ONLY one JSON object like:
 `.trim();
 }
 
-// ---------- Providers
+// ---------- Shared provider helpers (provider implementations live in ./providers)
 
 /**
  * Retry helper with exponential backoff
+ * Honors error.retryAfterMs (from Retry-After / provider hints) when the provider supplies one,
+ * up to MAX_WAIT_MS; longer waits are thrown as quota errors
  * Supports retry event callbacks for real-time tracking
+ * Stops at once (rethrowing the AbortError) when the signal is aborted, including mid-wait
+ * Retries are logged to `log` (pass the request's child logger)
  */
-async function retryWithBackoff<T>(
+export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
   baseDelay: number = 1000,
-  onRetry?: (attempt: number, error: any, delay: number) => void
+  onRetry?: (attempt: number, error: any, delay: number) => void,
+  signal?: AbortSignal,
+  log: Logger = logger
 ): Promise<T> {
   let lastError: any;
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
+      signal?.throwIfAborted();
       return await fn();
     } catch (error: any) {
       lastError = error;
       
+      // Cancelled by the caller - never retry
+      if (isAbortError(error) || signal?.aborted) {
+        throw error;
+      }
+      
+      // Asked to come back in hours (daily quota): report it rather than sleep inside the request
+      if (exceedsMaxWait(error?.retryAfterMs)) {
+        throw quotaWaitError(error);
+      }
+      
       // Don't retry on certain errors (auth, validation, bad request)
       const isNonRetryable = 
         error?.status === 400 || 
@@ -620,690 +675,36 @@ async function retryWithBackoff<T>(
         // Use longer delays for server overload errors (503)
         const isOverloaded = error?.status === 503 || error?.message?.includes('overloaded');
         const delayMultiplier = isOverloaded ? 2 : 1; // Double delay for overloaded errors
-        const delay = baseDelay * Math.pow(2, attempt) * delayMultiplier;
+        const delay = error?.retryAfterMs ?? baseDelay * Math.pow(2, attempt) * delayMultiplier;
         
         const errorType = isOverloaded ? 'Server overloaded' : 'Temporary error';
-        console.log(`⚠ ${errorType} (${error?.status || 'unknown'}), retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms delay...`);
+        log.warn(`${errorType}; retrying`, { status: error?.status, attempt: attempt + 1, maxRetries, delayMs: delay });
         
         // Emit retry event if callback provided
         if (onRetry) {
           onRetry(attempt + 1, error, delay);
         }
         
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       } else if (attempt < maxRetries - 1) {
         // For other retryable errors, use standard exponential backoff
         const delay = baseDelay * Math.pow(2, attempt);
-        console.log(`⚠ Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms delay...`);
+        log.warn('Retrying', { status: error?.status, attempt: attempt + 1, maxRetries, delayMs: delay, error: error?.message });
         
         // Emit retry event if callback provided
         if (onRetry) {
           onRetry(attempt + 1, error, delay);
         }
         
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       }
     }
   }
   throw lastError;
 }
 
-export async function generateWithGemini(a: ModelArgs): Promise<ModelOut> {
-  // Use bearer token if provided and not empty, otherwise fall back to environment variable
-  let key: string | undefined;
-  
-  // Debug: Log what we're receiving
-  console.log(`🔍 generateWithGemini - bearer provided: ${!!a.bearer}, bearer length: ${a.bearer?.length || 0}`);
-  console.log(`🔍 generateWithGemini - env var exists: ${!!process.env.GEMINI_API_KEY}, env var length: ${process.env.GEMINI_API_KEY?.length || 0}`);
-  
-  if (a.bearer && a.bearer.trim().length > 0) {
-    key = a.bearer.trim();
-    console.log(`✓ Using bearer token from request (length: ${key.length})`);
-  } else if (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY.trim().length > 0) {
-    key = process.env.GEMINI_API_KEY.trim();
-    console.log(`✓ Using API key from environment variable (length: ${key.length})`);
-  } else {
-    console.error(`❌ No valid API key found - bearer: ${!!a.bearer}, env var: ${!!process.env.GEMINI_API_KEY}`);
-  }
-  
-  // Validate key exists and is not empty
-  if (!key || key.length === 0) {
-    const errorMsg = a.bearer 
-      ? 'Invalid API key: The Authorization header contains an empty or invalid key. Please check your API key in the "API Secrets" modal and ensure it is set as active.'
-      : 'GEMINI_API_KEY environment variable is not set. Please set it in your .env.local file or provide an API key via the Authorization header in the "API Secrets" modal.';
-    console.error(`❌ ${errorMsg}`);
-    throw new Error(errorMsg);
-  }
-  
-  // Additional validation: Gemini API keys are typically alphanumeric with some special chars
-  // But we'll let the API validate the actual format
-  if (key.length < 20) {
-    console.warn(`⚠ API key seems unusually short (${key.length} chars). Gemini keys are typically longer.`);
-  }
-  
-  // Log API key source for debugging (without exposing the actual key)
-  const keySource = a.bearer ? 'Authorization header' : 'environment variable';
-  const keyPreview = key.length > 8 ? `${key.substring(0, 4)}...${key.substring(key.length - 4)}` : '***';
-  console.log(`🔑 Using Gemini API key from ${keySource} (${keyPreview}, length: ${key.length})`);
-  
-  // Additional validation: Check if key looks like a valid Gemini API key
-  // Clean whitespace that might have been accidentally included
-  if (key.includes(' ') || key.includes('\n') || key.includes('\t')) {
-    console.warn(`⚠ API key contains whitespace characters. Cleaning...`);
-    const originalLength = key.length;
-    key = key.replace(/\s+/g, '').trim();
-    console.log(`🔧 Cleaned API key (${originalLength} -> ${key.length} chars)`);
-  }
-  
-  // Check for common placeholder values
-  if (key === 'undefined' || key === 'null' || key.toLowerCase() === 'your_api_key_here') {
-    throw new Error(`Invalid API key detected: The key appears to be a placeholder. Please provide a valid Gemini API key.`);
-  }
-
-  // Import retry tracker (dynamic import to avoid circular dependencies)
-  const { retryTracker } = await import('@/lib/retry-tracker');
-  const requestId = retryTracker.generateRequestId(a.filename);
-  
-  try {
-    const result = await retryWithBackoff(async () => {
-    try {
-    const prompt = buildUserPrompt(a);
-    const parts: any[] = [];
-    let imageAdded = false;
-    
-    // Add image if provided (multimodal) - image must come BEFORE text per Gemini docs
-    if (a.imageData) {
-      console.log(`📸 Image data received, length: ${a.imageData.length} chars, first 50: ${a.imageData.substring(0, 50)}`);
-      const match = a.imageData.match(/^data:([^;]+);base64,(.+)$/);
-      if (match) {
-        const mimeType = match[1];
-        const base64Data = match[2];
-        console.log(`✓ Image format matched - MIME: ${mimeType}, Base64 length: ${base64Data.length}`);
-        parts.push({
-          inline_data: {
-            mime_type: mimeType,
-            data: base64Data
-          }
-        });
-        imageAdded = true;
-        console.log(`✓ Image part added to request`);
-      } else {
-        console.error(`❌ CRITICAL: imageData exists but regex did not match! Expected format: data:image/jpeg;base64,{data}`);
-        console.error(`   Actual format (first 100 chars): ${a.imageData.substring(0, 100)}`);
-        throw new Error('Invalid image data format - must be data:image/{type};base64,{data}');
-      }
-    } else if (a.imageUrl) {
-      console.log(`📸 Image URL provided: ${a.imageUrl}`);
-      parts.push({
-        file_data: {
-          mime_type: 'image/jpeg',
-          file_uri: a.imageUrl
-        }
-      });
-      imageAdded = true;
-      console.log(`✓ Image URL part added to request`);
-    } else {
-      console.log(`ℹ No image data or URL provided - text-only request`);
-    }
-    
-    // Text prompt comes AFTER image (per Gemini best practices)
-    parts.push({ text: prompt });
-    
-    // Validate that if imageData was provided, it was actually added
-    if (a.imageData && !imageAdded) {
-      throw new Error('Image data was provided but failed to be added to request parts');
-    }
-    
-    const imageCount = parts.filter(p => p.inline_data || p.file_data).length;
-    const textCount = parts.filter(p => p.text).length;
-    console.log(`📤 Sending to Gemini: ${parts.length} parts (${imageCount} image(s), ${textCount} text)`);
-
-    const body = { contents: [{ role: 'user', parts }] };
-    
-    // Debug: Log request structure (without full base64 data)
-    const debugBody = JSON.parse(JSON.stringify(body));
-    if (debugBody.contents[0].parts[0]?.inline_data) {
-      const dataPreview = debugBody.contents[0].parts[0].inline_data.data.substring(0, 50);
-      console.log(`🔍 Request structure: inline_data with mime_type="${debugBody.contents[0].parts[0].inline_data.mime_type}", data preview="${dataPreview}..."`);
-    }
-    
-    // URL encode the key to handle any special characters safely
-    const encodedKey = encodeURIComponent(key);
-    
-    // Select model based on geminiModel parameter or fallback to preview flag (for backward compatibility)
-    // Map UI model names to API model names
-    let modelName: string;
-    if (a.geminiModel) {
-      // Map from UI model names to API model names
-      const modelMap: Record<GeminiModel, string> = {
-        'gemini-2.5-flash': 'gemini-2.5-flash',
-        'gemini-2.5-flash-lite': 'gemini-2.5-flash-lite'
-      };
-      modelName = modelMap[a.geminiModel] || 'gemini-2.5-flash';
-    } else if (a.preview) {
-      // Backward compatibility: use preview flag if geminiModel not provided
-      modelName = 'gemini-1.5-pro-latest';
-    } else {
-      // Default fallback
-      modelName = 'gemini-2.5-flash';
-    }
-    
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${encodedKey}`;
-    
-    console.log(`📡 Making request to Gemini API using model: ${modelName} (selected: ${a.geminiModel || 'default'})`);
-    
-    const res = await fetch(
-      apiUrl,
-      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
-    );
-    if (!res.ok) {
-      const errorText = await res.text().catch(() => 'Unknown error');
-      let errorMessage = `Gemini API error (${res.status}): ${errorText.substring(0, 200)}`;
-      
-      // Parse error JSON if available
-      let errorJson: any = null;
-      try {
-        errorJson = JSON.parse(errorText);
-        if (errorJson?.error?.message) {
-          errorMessage = `Gemini API error (${res.status}): ${errorJson.error.message}`;
-        }
-      } catch {
-        // If parsing fails, use the original error message
-      }
-      
-      // Determine if this is a retryable error
-      const isRetryable = res.status === 503 || res.status === 429 || res.status === 500 || res.status === 502 || res.status === 504;
-      const isNonRetryable = res.status === 400 || res.status === 401 || res.status === 403;
-      
-      // Provide more specific error messages for common issues
-      if (res.status === 400) {
-        if (errorJson?.error?.message?.includes('API key not valid') || errorJson?.error?.message?.includes('invalid')) {
-          errorMessage = `Invalid API key (400): ${errorJson.error.message}. ` +
-            `Please verify your API key is correct. ` +
-            `If using Authorization header, check the Key Modal. ` +
-            `If using environment variable, check your .env.local file.`;
-        }
-      }
-      
-      // For retryable errors, throw so retry logic can catch and retry
-      if (isRetryable) {
-        const error = new Error(errorMessage);
-        (error as any).status = res.status;
-        (error as any).isRetryable = true;
-        console.error(`❌ ${errorMessage} (will retry)`);
-        throw error; // This will trigger retryWithBackoff
-      }
-      
-      // For non-retryable errors, log and return error object
-      console.error(`❌ ${errorMessage}`);
-      if (a.imageData) {
-        errorMessage += ' Image was provided but API call failed.';
-        console.error('   Note: Image was provided but API call failed. Check image format and size limits.');
-      }
-      
-      // Return error instead of fallback when image is provided
-      if (a.imageData) {
-        return { title: '', description: '', keywords: [], error: errorMessage };
-      }
-      return fallback(a);
-    }
-
-    const data = await res.json();
-    console.log(`📥 Gemini API response received, candidates: ${data?.candidates?.length || 0}`);
-    let text = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '{}';
-    console.log('📄 Gemini raw response (first 300 chars):', text.substring(0, 300));
-    
-    // Extract JSON from markdown code blocks if present
-    // Gemini often returns: ```json\n{...}\n```
-    if (text.includes('```json')) {
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch && jsonMatch[1]) {
-        text = jsonMatch[1].trim();
-        console.log('✓ Extracted JSON from markdown code block');
-      }
-    } else if (text.includes('```')) {
-      // Handle generic code blocks without language specifier
-      const codeMatch = text.match(/```\s*([\s\S]*?)\s*```/);
-      if (codeMatch && codeMatch[1]) {
-        text = codeMatch[1].trim();
-        console.log('✓ Extracted JSON from generic code block');
-      }
-    }
-    
-    try { 
-      const parsed = asModelOut(JSON.parse(text));
-      console.log(`✓ Parsed successfully - Title: "${parsed.title || '(empty)'}", Keywords: ${parsed.keywords?.length || 0}`);
-      if (a.imageData && (!parsed.title || parsed.title.length < 10)) {
-        console.warn(`⚠ WARNING: Image was provided but title is very short or empty. This may indicate image wasn't analyzed.`);
-        // Return error if image provided but result is clearly wrong
-        if (parsed.title.length < 5) {
-          return { 
-            title: '', 
-            description: '', 
-            keywords: [], 
-            error: 'Image analysis failed: AI returned empty or invalid title despite image being provided.' 
-          };
-        }
-      }
-      return parsed;
-    } catch (parseError: any) {
-      console.error('❌ JSON parse error:', parseError?.message);
-      console.error('   Raw text (first 500 chars):', text.substring(0, 500));
-      // Try to extract JSON more aggressively
-      const jsonStart = text.indexOf('{');
-      const jsonEnd = text.lastIndexOf('}');
-      if (jsonStart >= 0 && jsonEnd > jsonStart) {
-        try {
-          const extractedJson = text.substring(jsonStart, jsonEnd + 1);
-          console.log('🔄 Attempting to extract JSON from response...');
-          const parsed = asModelOut(JSON.parse(extractedJson));
-          console.log('✓ Successfully parsed extracted JSON');
-          return parsed;
-        } catch (retryError) {
-          console.error('❌ Failed to parse extracted JSON:', retryError);
-        }
-      }
-      // Return error instead of fallback when image is provided
-      if (a.imageData) {
-        return { 
-          title: '', 
-          description: '', 
-          keywords: [], 
-          error: `Failed to parse AI response: ${parseError?.message}. Raw response: ${text.substring(0, 100)}...` 
-        };
-      }
-      return fallback(a);
-    }
-    } catch (error: any) {
-      // If this is a retryable error that wasn't caught by retry logic, re-throw it
-      // (This shouldn't happen since retry logic should catch it, but just in case)
-      if (error?.isRetryable || error?.status === 503 || error?.status === 429 || error?.status === 500) {
-        throw error; // Re-throw to let retry logic handle it
-      }
-      
-      console.error('❌ generateWithGemini error:', error?.message || error);
-      if (a.imageData) {
-        const errorMsg = `Image analysis failed: ${error?.message || 'Unknown error'}. Check API key and image format.`;
-        console.error('   Image was provided but request failed. Check logs above for details.');
-        return { title: '', description: '', keywords: [], error: errorMsg };
-      }
-      return fallback(a);
-    }
-    }, 5, 2000, (attempt, error, delay) => {
-    // Emit retry event for real-time tracking
-    const isOverloaded = error?.status === 503 || error?.message?.includes('overloaded');
-    const errorType = isOverloaded ? 'overloaded' : 
-                     error?.status === 429 ? 'rate-limit' : 'server-error';
-    
-    retryTracker.emit({
-      requestId,
-      filename: a.filename,
-      attempt,
-      maxAttempts: 5,
-      errorType,
-      delay,
-      status: 'retrying'
-    });
-  });
-  
-    // Emit success event after successful completion
-    retryTracker.emit({
-      requestId,
-      filename: a.filename,
-      attempt: 0,
-      maxAttempts: 5,
-      errorType: 'server-error',
-      status: 'success'
-    });
-    
-    return result;
-  } catch (error) {
-    // Emit failed event
-    retryTracker.emit({
-      requestId,
-      filename: a.filename,
-      attempt: 5,
-      maxAttempts: 5,
-      errorType: 'server-error',
-      status: 'failed'
-    });
-    throw error;
-  }
-}
-
-export async function generateWithMistral(a: ModelArgs): Promise<ModelOut> {
-  // Use bearer token if provided and not empty, otherwise fall back to environment variable
-  const key = (a.bearer && a.bearer.trim().length > 0) ? a.bearer.trim() : process.env.MISTRAL_API_KEY;
-  if (!key || key.trim().length === 0) {
-    throw new Error('MISTRAL_API_KEY missing. Please provide an API key via Authorization header or set MISTRAL_API_KEY environment variable.');
-  }
-
-  // Respect the selected Mistral model when provided; fall back to small latest.
-  const modelName = a.mistralModel || 'mistral-small-latest';
-
-  const body = {
-    model: modelName,
-    temperature: 0.7,
-    messages: [
-      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
-      { role: 'user', content: buildUserPrompt(a) }
-    ]
-  };
-
-  const res = await fetch('https://api.mistral.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${key}` },
-    body: JSON.stringify(body)
-  });
-  if (!res.ok) return fallback(a);
-
-  const data = await res.json();
-  const text = data?.choices?.[0]?.message?.content ?? '{}';
-  try { return asModelOut(JSON.parse(text)); } catch { return fallback(a); }
-}
-
-// Simple cooldown + retry config for Groq
-// Track cooldown per API key rather than globally so that
-// multiple Groq keys (e.g., from different accounts/orgs)
-// can be used in parallel without blocking each other.
-const groqLastCallTimes = new Map<string, number>();
-// Be conservative with Groq to avoid TPM rate limits for each key, but only
-// for the Maverick model. The Scout model is handled via small per-key queues
-// on the client side and should NOT be artificially delayed here.
-const GROQ_COOLDOWN_MAVERICK_MS = 20000;     // 20 seconds between generations per key (Maverick only)
-const GROQ_COOLDOWN_SCOUT_IMAGE_MS = 7000;  // 7 seconds between generations for Scout when processing images (to prevent token limit issues)
-const GROQ_MAX_RETRIES = 3;         // 3 additional attempts after the first try
-const GROQ_RETRY_DELAY_MAVERICK_MS = 25000;  // 25 seconds between retries for Maverick
-const GROQ_RETRY_DELAY_SCOUT_MS = 14000;     // 14 seconds between retries for Scout
-
-export async function generateWithGroq(a: ModelArgs): Promise<ModelOut> {
-  // Use bearer token if provided and not empty, otherwise fall back to environment variable
-  const key = (a.bearer && a.bearer.trim().length > 0) ? a.bearer.trim() : process.env.GROQ_API_KEY;
-  if (!key || key.trim().length === 0) {
-    throw new Error('GROQ_API_KEY missing. Please provide an API key via Authorization header or set GROQ_API_KEY environment variable.');
-  }
-
-  const keyId = key.trim();
-
-  // Supported Groq models
-  const MAVERICK_MODEL = 'meta-llama/llama-4-maverick-17b-128e-instruct';
-  const SCOUT_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
-
-  const requestedGroqModel = a.groqModel;
-  const isScoutModel = requestedGroqModel === SCOUT_MODEL;
-
-  const hasImage = !!(a.imageData || a.imageUrl);
-
-  // Respect a per-key cooldown between Groq generations to avoid TPM/token rate limits.
-  // Maverick: Always uses cooldown. Scout: Only uses cooldown when processing images (to prevent token limit issues).
-  // Scout without images uses client-side queuing and should not be throttled here.
-  // Each key has its own separate token limit, so cooldown is tracked per-key.
-  if (!isScoutModel) {
-    // Maverick model: Always use cooldown
-    const lastTime = groqLastCallTimes.get(keyId);
-    if (lastTime && lastTime > 0) {
-      const elapsed = Date.now() - lastTime;
-      if (elapsed < GROQ_COOLDOWN_MAVERICK_MS) {
-        const wait = GROQ_COOLDOWN_MAVERICK_MS - elapsed;
-        console.log(`⏳ Groq cooldown (Maverick) for key ${keyId.substring(0, 8)}...: waiting ${wait}ms before next generation`);
-        await new Promise(resolve => setTimeout(resolve, wait));
-      }
-    }
-  } else if (hasImage) {
-    // Scout model: Only use cooldown when processing images (to prevent token limit issues)
-    // Each key from different Gmail accounts has its own 300K token limit
-    const lastTime = groqLastCallTimes.get(keyId);
-    if (lastTime && lastTime > 0) {
-      const elapsed = Date.now() - lastTime;
-      if (elapsed < GROQ_COOLDOWN_SCOUT_IMAGE_MS) {
-        const wait = GROQ_COOLDOWN_SCOUT_IMAGE_MS - elapsed;
-        console.log(`⏳ Groq cooldown (Scout with image) for key ${keyId.substring(0, 8)}...: waiting ${wait}ms before next generation to avoid token limits`);
-        await new Promise(resolve => setTimeout(resolve, wait));
-      }
-    }
-  }
-
-  // Normalize incoming Groq model to the supported set.
-  // Default to Scout; treat Maverick as legacy-only.
-  const effectiveModel =
-    requestedGroqModel === SCOUT_MODEL || !requestedGroqModel
-      ? SCOUT_MODEL
-      : requestedGroqModel === MAVERICK_MODEL
-      ? MAVERICK_MODEL
-      : SCOUT_MODEL;
-
-  // Use the same model for both text-only and vision to keep behavior consistent.
-  const modelName = effectiveModel;
-  
-  const prompt = buildUserPrompt(a);
-  
-  let messages: any[];
-
-  if (hasImage) {
-    // Vision request: send both text prompt and image
-    const userContent: any[] = [
-      { type: 'text', text: prompt }
-    ];
-
-    if (a.imageUrl) {
-      userContent.push({
-        type: 'image_url',
-        image_url: { url: a.imageUrl }
-      });
-    } else if (a.imageData) {
-      // a.imageData is a data URL (data:image/...;base64,...) - Groq supports image_url with data URLs
-      userContent.push({
-        type: 'image_url',
-        image_url: { url: a.imageData }
-      });
-    }
-
-    messages = [
-      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
-      { role: 'user', content: userContent }
-    ];
-  } else {
-    // Text-only request (no image)
-    messages = [
-      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
-      { role: 'user', content: prompt }
-    ];
-  }
-
-  const body = {
-    model: modelName,
-    messages: messages,
-    temperature: 0.7,
-    response_format: { type: 'json_object' }
-  };
-
-  let lastError: any = null;
-
-  // First attempt + up to GROQ_MAX_RETRIES additional attempts
-  for (let attempt = 0; attempt <= GROQ_MAX_RETRIES; attempt++) {
-    try {
-      if (attempt > 0) {
-        const retryDelay = isScoutModel ? GROQ_RETRY_DELAY_SCOUT_MS : GROQ_RETRY_DELAY_MAVERICK_MS;
-        console.warn(`⚠ Groq retry attempt ${attempt}/${GROQ_MAX_RETRIES} after previous failure. Waiting ${retryDelay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
-      }
-
-      const res = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json', 
-          'Authorization': `Bearer ${key}` 
-        },
-        body: JSON.stringify(body)
-      });
-
-      if (!res.ok) {
-        const errorText = await res.text().catch(() => 'Unknown error');
-        const baseMessage = `Groq API error (${res.status}): ${errorText.substring(0, 200)}`;
-        console.error(baseMessage);
-
-        const error: any = new Error(baseMessage);
-        error.status = res.status;
-        error.errorText = errorText; // Store full error text for detection
-
-        // Detect TPD (tokens per day) errors - these are daily quota limits, NOT retryable
-        const status = res.status;
-        const lowerText = errorText.toLowerCase();
-        const isTPDError = status === 429 && (
-          lowerText.includes('tokens per day') ||
-          lowerText.includes('tpd') ||
-          (lowerText.includes('daily') && lowerText.includes('limit'))
-        );
-
-        // TPD errors are permanent until daily quota resets - don't retry
-        if (isTPDError) {
-          error.isTPDError = true;
-          error.isQuotaExhausted = true;
-          // Don't retry - this key's daily quota is exhausted
-          // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-          if (!isScoutModel || hasImage) {
-            groqLastCallTimes.set(keyId, Date.now());
-          }
-          const tpdMessage = `Daily token quota exhausted for this API key. The quota resets daily. Please use a different key or wait until the quota resets. Original error: ${baseMessage}`;
-          if (a.imageData) {
-            return { 
-              title: '', 
-              description: '', 
-              keywords: [], 
-              error: tpdMessage
-            };
-          }
-          return { 
-            title: '', 
-            description: '', 
-            keywords: [], 
-            error: tpdMessage
-          };
-        }
-
-        // Decide if this is a retryable error (temporary rate limits, server errors)
-        const isRetryable = 
-          (status === 429 && !isTPDError) || // Temporary rate limit (not TPD)
-          status === 500 ||
-          status === 502 ||
-          status === 503 ||
-          status === 504 ||
-          lowerText.includes('temporarily') ||
-          lowerText.includes('overloaded') ||
-          lowerText.includes('try again');
-
-        if (isRetryable && attempt < GROQ_MAX_RETRIES) {
-          lastError = error;
-          continue; // go to next retry attempt
-        }
-
-        // Non-retryable error or out of retries: return structured error/fallback
-        // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-        if (!isScoutModel || hasImage) {
-          groqLastCallTimes.set(keyId, Date.now());
-        }
-        if (a.imageData) {
-          return { 
-            title: '', 
-            description: '', 
-            keywords: [], 
-            error: baseMessage
-          };
-        }
-        return fallback(a);
-      }
-
-      const data = await res.json();
-      const text = data?.choices?.[0]?.message?.content ?? '{}';
-      
-      try {
-        const parsed = asModelOut(JSON.parse(text));
-        const safeTitle = parsed.title || '';
-        if (a.imageData && safeTitle.length < 10) {
-          console.warn(`⚠ WARNING: Image was provided but title is very short or empty. Groq may not have analyzed the image.`);
-          if (safeTitle.length < 5) {
-            // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-            if (!isScoutModel || hasImage) {
-              groqLastCallTimes.set(keyId, Date.now());
-            }
-            return { 
-              title: '', 
-              description: '', 
-              keywords: [], 
-              error: 'Image analysis failed: Groq returned empty or invalid title despite image being provided.' 
-            };
-          }
-        }
-        // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-        if (!isScoutModel || hasImage) {
-          groqLastCallTimes.set(keyId, Date.now());
-        }
-        return parsed;
-      } catch (parseError: any) {
-        console.error('❌ JSON parse error:', parseError?.message);
-        // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-        if (!isScoutModel || hasImage) {
-          groqLastCallTimes.set(keyId, Date.now());
-        }
-        if (a.imageData) {
-          return { 
-            title: '', 
-            description: '', 
-            keywords: [], 
-            error: `Failed to parse Groq response: ${parseError?.message}` 
-          };
-        }
-        return fallback(a);
-      }
-    } catch (error: any) {
-      // Network or other unexpected error
-      console.error('❌ generateWithGroq error:', error?.message || error);
-      lastError = error;
-
-      const status = (error as any)?.status;
-      const msg = String(error?.message || '').toLowerCase();
-      const isRetryable =
-        status === 429 ||
-        status === 500 ||
-        status === 502 ||
-        status === 503 ||
-        status === 504 ||
-        msg.includes('rate limit') ||
-        msg.includes('temporarily') ||
-        msg.includes('overloaded') ||
-        msg.includes('try again') ||
-        msg.includes('timeout');
-
-      if (isRetryable && attempt < GROQ_MAX_RETRIES) {
-        continue; // retry after delay at top of loop
-      }
-
-      // Non-retryable error or out of retries
-      break;
-    }
-  }
-
-  // If we reach here, all retries have failed
-  // Update last call time for cooldown tracking (Maverick always, Scout only with images)
-  if (!isScoutModel || hasImage) {
-    groqLastCallTimes.set(keyId, Date.now());
-  }
-  const finalMessage = `Groq API request failed after ${GROQ_MAX_RETRIES + 1} attempt(s): ${lastError?.message || 'Unknown error'}`;
-  console.error(finalMessage);
-
-  if (a.imageData) {
-    return { 
-      title: '', 
-      description: '', 
-      keywords: [], 
-      error: finalMessage
-    };
-  }
-  return fallback(a);
-}
-
 // ---------- Guards & fallback
-function asModelOut(x: any): { title: string; description: string; keywords: string[] } {
+export function asModelOut(x: any): { title: string; description: string; keywords: string[] } {
   let t = String(x?.title ?? '').trim();
   let d = String(x?.description ?? '').trim();
   let k = Array.isArray(x?.keywords) ? x.keywords : [];
@@ -1311,16 +712,19 @@ function asModelOut(x: any): { title: string; description: string; keywords: str
   return { title: t, description: d, keywords: k };
 }
 
-function fallback(a: ModelArgs) {
+export function fallback(a: ModelArgs): ModelOut {
   const base = filenameHints(a.filename).slice(0, 8).join(' ') || 'commercial stock asset';
   if (a.imageData) {
-    console.warn(`⚠ Fallback used despite image being provided. This indicates AI analysis failed.`);
-    console.warn(`   Using filename-based fallback: "${base}"`);
+    logger.child({ requestId: a.requestId, file: a.filename }).warn(
+      'Filename-based fallback used although an image was provided; AI analysis failed',
+      { fallback: base }
+    );
   }
   return {
     title: truncateByChars(`${a.prefix ? a.prefix + ' ' : ''}${base}${a.suffix ? ' ' + a.suffix : ''}`, a.titleLen),
     description: truncateByChars(`Commercial ${a.assetType} of ${base}.`, a.descLen),
-    keywords: dedupe([base, a.assetType, 'design', 'graphic', 'template'])
+    keywords: dedupe([base, a.assetType, 'design', 'graphic', 'template']),
+    fallback: true
   };
 }
 
@@ -1332,6 +736,8 @@ export type VisionCaptionArgs = {
   assetType: 'image' | 'video';
   bearer?: string;
   geminiModel?: GeminiModel;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
 };
 
 export type VisionCaptionOutput = {
@@ -1361,16 +767,17 @@ export type VisionCaptionOutput = {
 
 export type PromptWriterArgs = {
   caption: VisionCaptionOutput;
-  platform: 'general' | 'adobe' | 'shutterstock';
+  platform: Platform;
   assetType: 'image' | 'video';
   minWords: number;
   stylePolicy: string;
   negativePolicy: string;
-  provider: 'gemini' | 'mistral' | 'groq';
   bearer?: string;
   geminiModel?: GeminiModel;
   mistralModel?: MistralModel;
   groqModel?: GroqModel;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
 };
 
 export type PromptWriterOutput = {
@@ -1381,8 +788,35 @@ export type PromptWriterOutput = {
   error?: string;
 };
 
-export async function generateVisionCaption(args: VisionCaptionArgs): Promise<VisionCaptionOutput> {
-  const { imageData, imageUrl, assetType, bearer, geminiModel = 'gemini-2.5-flash' } = args;
+// One-step image-to-prompt for providers that read the image directly (no separate caption step)
+export type DirectPromptArgs = Omit<PromptWriterArgs, 'caption'> & {
+  imageData?: string;
+  imageUrl?: string;
+};
+
+/**
+ * Provider-neutral completion used by the image-to-prompt pipeline.
+ * Each provider implements it over its own HTTP API and returns the raw reply text.
+ */
+export type CompletionRequest = {
+  systemPrompt: string;
+  userPrompt: string;
+  imageData?: string;   // data URL
+  imageUrl?: string;
+  temperature: number;
+  maxTokens: number;
+  json?: boolean;       // Request a JSON object reply where the API supports it
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Receives the reply's token counts when the API reports them
+};
+
+export type CompleteFn = (req: CompletionRequest) => Promise<string>;
+
+/**
+ * Step 1 of image-to-prompt: structured visual analysis via a vision-capable provider's `complete`
+ */
+export async function generateVisionCaption(args: VisionCaptionArgs, complete: CompleteFn): Promise<VisionCaptionOutput> {
+  const { imageData, imageUrl, assetType } = args;
 
   if (!imageData && !imageUrl) {
     return {
@@ -1467,43 +901,7 @@ Return JSON with this exact structure:
 Be extremely detailed and specific in every field.`;
 
   try {
-    const key = bearer || process.env.GEMINI_API_KEY;
-    if (!key) throw new Error('No Gemini API key available');
-
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${key}`;
-
-    const parts: any[] = [{ text: systemPrompt + '\n\n' + userPrompt }];
-
-    if (imageData) {
-      const m = imageData.match(/^data:image\/(\w+);base64,(.+)$/);
-      if (m) {
-        parts.push({
-          inline_data: {
-            mime_type: `image/${m[1]}`,
-            data: m[2]
-          }
-        });
-      }
-    } else if (imageUrl) {
-      parts.push({ fileData: { fileUri: imageUrl } });
-    }
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: { temperature: 0.3, maxOutputTokens: 2048 }
-      })
-    });
-
-    if (!response.ok) {
-      const t = await response.text();
-      throw new Error(`Gemini Vision API error (${response.status}): ${t.substring(0, 200)}`);
-    }
-
-    const data = await response.json();
-    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    const text = await complete({ systemPrompt, userPrompt, imageData, imageUrl, temperature: 0.3, maxTokens: 2048 });
 
     let jsonText = String(text).trim();
     const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
@@ -1548,20 +946,11 @@ Be extremely detailed and specific in every field.`;
   }
 }
 
-export async function generateImagePrompt(args: PromptWriterArgs): Promise<PromptWriterOutput> {
-  const {
-    caption,
-    platform,
-    assetType,
-    minWords,
-    stylePolicy,
-    negativePolicy,
-    provider,
-    bearer,
-    geminiModel = 'gemini-2.5-flash',
-    mistralModel = 'mistral-large-latest',
-    groqModel = 'meta-llama/llama-4-scout-17b-16e-instruct'
-  } = args;
+/**
+ * Step 2 of image-to-prompt: turn a vision caption into a recreation prompt via the provider's `complete`
+ */
+export async function generateImagePrompt(args: PromptWriterArgs, complete: CompleteFn): Promise<PromptWriterOutput> {
+  const { caption, platform, assetType, minWords, stylePolicy, negativePolicy } = args;
 
   if (caption.error) {
     return { prompt: '', negative_prompt: '', title: '', keywords: [], error: `Caption failed: ${caption.error}` };
@@ -1719,99 +1108,94 @@ Return ONLY a valid JSON object with this structure:
 Generate the prompt now, ensuring maximum accuracy and detail.`;
 
   try {
-    let responseText = '';
-
-    if (provider === 'gemini') {
-      const key = bearer || process.env.GEMINI_API_KEY;
-      if (!key) throw new Error('No Gemini API key available');
-
-      const url = `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${key}`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: systemPrompt + '\n\n' + userPrompt }] }],
-          generationConfig: { temperature: 0.7, maxOutputTokens: 2048 }
-        })
-      });
-
-      if (!response.ok) {
-        const t = await response.text();
-        throw new Error(`Gemini API error (${response.status}): ${t.substring(0, 200)}`);
-      }
+    const responseText = await complete({ systemPrompt, userPrompt, temperature: 0.7, maxTokens: 2048, json: true });
+    return parsePromptReply(responseText, minWords, negativePolicy);
+  } catch (error: any) {
+    return {
+      prompt: '',
+      negative_prompt: '',
+      title: '',
+      keywords: [],
+      error: error?.message || 'Prompt generation failed'
+    };
+  }
+}
 
-      const data = await response.json();
-      responseText = data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    } else if (provider === 'groq') {
-      const key = bearer || process.env.GROQ_API_KEY;
-      if (!key) throw new Error('No Groq API key available');
-
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${key}` },
-        body: JSON.stringify({
-          model: groqModel,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 2048,
-          response_format: { type: 'json_object' }
-        })
-      });
-
-      if (!response.ok) {
-        const t = await response.text();
-        throw new Error(`Groq API error (${response.status}): ${t.substring(0, 200)}`);
-      }
+/**
+ * One-step image-to-prompt: the provider sees the image and writes the prompt in a single call
+ */
+export async function generateDirectImagePrompt(args: DirectPromptArgs, complete: CompleteFn): Promise<PromptWriterOutput> {
+  const { imageData, imageUrl, platform, assetType, minWords, stylePolicy, negativePolicy } = args;
 
-      const data = await response.json();
-      responseText = data?.choices?.[0]?.message?.content || '';
-    } else {
-      const key = bearer || process.env.MISTRAL_API_KEY;
-      if (!key) throw new Error('No Mistral API key available');
-
-      const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${key}` },
-        body: JSON.stringify({
-          model: mistralModel,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 2048
-        })
-      });
-
-      if (!response.ok) {
-        const t = await response.text();
-        throw new Error(`Mistral API error (${response.status}): ${t.substring(0, 200)}`);
-      }
+  const systemPrompt = `You are an expert prompt engineer specializing in reverse-engineering visual content into highly detailed, accurate AI image generation prompts. Your goal is to analyze the provided image/video and create a prompt that will recreate the exact same scene, composition, lighting, and style.
 
-      const data = await response.json();
-      responseText = data?.choices?.[0]?.message?.content || '';
-    }
+CORE PRINCIPLES:
+1. ACCURACY FIRST: Analyze every detail in the image and reflect it accurately in the prompt
+2. TECHNICAL PRECISION: Use proper photography, art, and technical terminology
+3. STRUCTURED APPROACH: Organize logically: subject → environment → composition → technical → style
+4. SPECIFICITY: Be extremely specific - vague terms produce poor results
+5. COMMERCIAL SAFETY: Ensure all content is stock-photo safe
 
-    let jsonText = String(responseText).trim();
-    const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-    if (jsonMatch) jsonText = jsonMatch[1];
+PROMPT STRUCTURE (follow this order):
+1. MAIN SUBJECT: Primary subject(s) with detailed appearance, pose, expression, clothing, accessories
+2. ENVIRONMENT & BACKGROUND: Setting, location, background elements, spatial relationships
+3. COMPOSITION & FRAMING: Camera angle, shot type, framing, focal point, foreground/background
+4. TECHNICAL CAMERA: Lens type, focal length, depth of field, perspective, aperture
+5. LIGHTING: Source, direction, quality, color temperature, shadows, highlights
+6. COLORS & PALETTE: Dominant colors, harmony, saturation, specific color names
+7. MATERIALS & TEXTURES: Visible textures, materials, surface qualities
+8. STYLE & MOOD: Artistic style, realism level, mood, atmosphere
+9. DETAILS: Important small details, atmospheric effects
+${assetType === 'video' ? `10. MOTION: Subject motion, camera movement, pacing` : ''}
 
-    const parsed = JSON.parse(jsonText);
-    const prompt = String(parsed.prompt || '').trim();
-    
-    // Count words for validation
-    const wordCount = prompt.split(/\s+/).filter(word => word.length > 0).length;
+HARD RULES:
+- Output ONLY valid JSON (no markdown, no commentary)
+- The "prompt" must be at least ${minWords} words - be comprehensive
+- Do NOT include brand names, logos, trademarks, artist names, or copyrighted content
+- Do NOT include visible text instructions (no "add text", no "logo")
+- The prompt must be a single, flowing text string
+- Use commas to separate concepts, periods for distinct ideas
+- Place most important elements first
 
-    return {
-      prompt,
-      negative_prompt: String(parsed.negative_prompt || negativePolicy).trim(),
-      title: String(parsed.title || '').trim().slice(0, 70),
-      keywords: Array.isArray(parsed.keywords) ? parsed.keywords.slice(0, 45) : [],
-      error: wordCount < minWords ? `Warning: Prompt is shorter than minimum (${wordCount}/${minWords} words)` : undefined
-    };
+NEGATIVE PROMPT: Exclude text, watermark, logo, artifacts, blur, noise, extra limbs, deformed anatomy, oversaturation, compression, low quality, jpeg artifacts, pixelation.
+
+JSON SCHEMA:
+{
+  "prompt": "string (comprehensive, detailed, at least ${minWords} words)",
+  "negative_prompt": "string (stock-safety and quality exclusions)",
+  "title": "string (SEO-friendly, <= 70 characters)",
+  "keywords": ["string", ...] (30-45 keywords, lowercase, no duplicates)
+}`;
+
+  const userPrompt = `Analyze this ${assetType} systematically and generate a highly detailed recreation prompt.
+
+ANALYSIS APPROACH:
+1. Examine the main subject(s) - appearance, pose, expression, clothing, accessories
+2. Analyze the environment - location, background, spatial relationships
+3. Study composition - camera angle, framing, focal point, foreground/background
+4. Identify technical details - lens type, depth of field, perspective, shot type
+5. Analyze lighting - source, direction, quality, color temperature, shadows
+6. Identify colors - dominant palette, harmony, saturation, specific names
+7. Note materials/textures - visible textures, materials, surface qualities
+8. Determine style - photo/3d/illustration, realism level, artistic style
+9. List important details - small elements, atmospheric effects
+${assetType === 'video' ? `10. Analyze motion - subject movement, camera movement, pacing` : ''}
+
+REQUIREMENTS:
+- PLATFORM: ${platform}
+- MIN_WORDS: ${minWords} (comprehensive detail required)
+- STYLE_POLICY: ${stylePolicy}
+- NEGATIVE_POLICY: ${negativePolicy}
+- Output must be stock-photo safe (no brands, logos, copyrighted content)
+- Prompt must be a single, flowing text string (not a list)
+
+Generate a prompt that accurately recreates this ${assetType} with maximum detail and precision.
+
+Return ONLY the JSON object.`;
+
+  try {
+    const responseText = await complete({ systemPrompt, userPrompt, imageData, imageUrl, temperature: 0.7, maxTokens: 2048, json: true });
+    return parsePromptReply(responseText, minWords, negativePolicy);
   } catch (error: any) {
     return {
       prompt: '',
@@ -1822,3 +1206,100 @@ Generate the prompt now, ensuring maximum accuracy and detail.`;
     };
   }
 }
+
+/**
+ * Parse a prompt-writer JSON reply (tolerates ```json fences and text around the object)
+ */
+function parsePromptReply(responseText: string, minWords: number, negativePolicy: string): PromptWriterOutput {
+  let jsonText = String(responseText).trim();
+  const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  if (jsonMatch) jsonText = jsonMatch[1];
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (parseError: any) {
+    // More aggressive extraction: between the first { and the last }
+    const jsonStart = jsonText.indexOf('{');
+    const jsonEnd = jsonText.lastIndexOf('}');
+    try {
+      if (jsonStart < 0 || jsonEnd <= jsonStart) throw parseError;
+      parsed = JSON.parse(jsonText.substring(jsonStart, jsonEnd + 1));
+    } catch {
+      throw new Error(`Failed to parse JSON response: ${parseError?.message || 'Invalid JSON'}. Raw response preview: ${jsonText.substring(0, 200)}`);
+    }
+  }
+
+  const prompt = String(parsed.prompt || '').trim();
+
+  // Count words for validation
+  const wordCount = prompt.split(/\s+/).filter(word => word.length > 0).length;
+
+  return {
+    prompt,
+    negative_prompt: String(parsed.negative_prompt || negativePolicy).trim(),
+    title: String(parsed.title || '').trim().slice(0, 70),
+    keywords: Array.isArray(parsed.keywords) ? parsed.keywords.slice(0, 45) : [],
+    error: wordCount < minWords ? `Warning: Prompt is shorter than minimum (${wordCount}/${minWords} words)` : undefined
+  };
+}
+
+// ========== METADATA TRANSLATION ==========
+
+export type TranslateArgs = {
+  metadata: { title: string; description: string; keywords: string[] };
+  from: Language;
+  to: Language;
+  platform: Platform;
+  titleLen: number;
+  descLen: number;
+  bearer?: string;
+  geminiModel?: GeminiModel;
+  mistralModel?: MistralModel;
+  groqModel?: GroqModel;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  signal?: AbortSignal;
+};
+
+/**
+ * Translate finished metadata into another language via the provider's `complete`.
+ * Keywords are localized (the terms a buyer would search for), not translated word for word;
+ * throws when the reply is not usable so the caller can keep the untranslated metadata.
+ * The result carries the call's token usage so translations are billed like generations.
+ */
+export async function translateMetadata(args: TranslateArgs, complete: CompleteFn): Promise<ModelOut> {
+  const from = LANGUAGES[args.from];
+  const to = LANGUAGES[args.to];
+
+  const systemPrompt = `You are a professional translator of stock photo metadata from ${from.label} to ${to.label}.
+Translate the title and description naturally and idiomatically for ${to.label}-speaking buyers on ${PLATFORMS[args.platform].label}.
+For keywords, use the terms a ${to.label}-speaking buyer would actually search for; one keyword per input keyword, drop any that have no sensible ${to.label} equivalent, and never add new concepts.
+Keep scientific (Latin) names, numbers and technical terms such as 4K or PNG unchanged.
+Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}`;
+
+  const userPrompt = `Title must stay within ${args.titleLen} characters and the description within ${args.descLen} characters.
+${JSON.stringify(args.metadata)}`;
+
+  let usage: TokenUsage | undefined;
+  const text = await complete({
+    systemPrompt,
+    userPrompt,
+    temperature: 0.2,
+    maxTokens: 2048,
+    json: true,
+    signal: args.signal,
+    onUsage: u => { usage = u; }
+  });
+
+  let jsonText = String(text).trim();
+  const jsonStart = jsonText.indexOf('{');
+  const jsonEnd = jsonText.lastIndexOf('}');
+  if (jsonStart >= 0 && jsonEnd > jsonStart) jsonText = jsonText.substring(jsonStart, jsonEnd + 1);
+
+  const out = asModelOut(JSON.parse(jsonText));
+  if (!out.title || out.keywords.length === 0) {
+    throw new Error(`${to.label} translation came back without a title or keywords`);
+  }
+  return { ...out, usage };
+}
@@ -0,0 +1,321 @@
+// Platform registry - per-agency export schema, length rules, categories and prompt tips
+
+import type { Row } from './csv';
+import type { Platform } from './types';
+import { detectAdobeCategory } from './adobe-categories';
+
+export type PlatformLabel =
+  | 'General'
+  | 'Adobe Stock'
+  | 'Shutterstock'
+  | 'Freepik'
+  | 'Dreamstime'
+  | '123RF'
+  | 'Depositphotos'
+  | 'Alamy'
+  | 'Pond5'
+  | 'Vecteezy';
+
+export type ExportColumn = {
+  header: string;
+  // `keywords` is the row's keyword list already joined with the schema's separator
+  value: (row: Row, keywords: string) => string | number;
+};
+
+export type ExportSchema = {
+  format: 'csv' | 'xlsx';
+  fileName: string;
+  delimiter: string;          // CSV field delimiter (ignored for xlsx)
+  keywordSeparator: string;
+  columns: ExportColumn[];
+};
+
+export type PlatformSpec = {
+  id: Platform;
+  label: PlatformLabel;
+  icon: string;
+  limits: {
+    titleMax: number;
+    descMax: number;
+    keywordsMax: number;
+  };
+  tips: string;               // Injected into the generation prompt
+  allowPluralVariants?: boolean; // Keep "flower" and "flowers" as separate keywords (search matches words literally)
+  categories?: Record<number, string>; // Adobe category ID -> agency category name
+  export: ExportSchema | null; // null = app's standard CSV format
+};
+
+const yesNo = (v: boolean) => (v ? 'yes' : 'no');
+const isIllustrative = (r: Row) => r.assetType === 'illustration' || r.assetType === 'vector';
+
+export const PLATFORMS: Record<Platform, PlatformSpec> = {
+  general: {
+    id: 'general',
+    label: 'General',
+    icon: '✨',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Platform-agnostic, balanced metadata suitable for most stock sites.',
+    export: null
+  },
+  adobe: {
+    id: 'adobe',
+    label: 'Adobe Stock',
+    icon: '🎨',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: `Commercial-safe. No brands, no celebrities, no private names, no artist names, no creative work names.
+Titles can be up to 200 characters. Use short, factual phrases (NOT formal sentences, NOT keyword lists).
+Include specific details: animal species names, location names (city/state/country), equipment names, specific actions.
+Example: "Young woman playing catch with Jack Russel Terrier at beach in Portland, Oregon, USA"
+Structure: [Subject] [action/description] [location/context]. Be precise and descriptive.
+Use caring, engaged language when describing people. Never use demeaning or derogatory language.`,
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Adobe.csv',
+      delimiter: ',',
+      keywordSeparator: ', ',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Title', value: r => r.title },
+        { header: 'Keywords', value: (_r, kw) => kw },
+        { header: 'Category', value: r => detectAdobeCategory(r) ?? '' }, // Numeric portal category ID
+        { header: 'Releases', value: () => '' } // Model/property release names, filled in the portal
+      ]
+    }
+  },
+  shutterstock: {
+    id: 'shutterstock',
+    label: 'Shutterstock',
+    icon: '📸',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Rich synonyms but no repetition or stuffing.',
+    categories: {
+      1: 'Animals/Wildlife', 2: 'Buildings/Landmarks', 3: 'Business/Finance', 4: 'Food and drink',
+      5: 'Nature', 6: 'People', 7: 'Food and drink', 8: 'Backgrounds/Textures', 9: 'Sports/Recreation',
+      10: 'Industrial', 11: 'Nature', 12: 'People', 13: 'People', 14: 'Nature', 15: 'Religion',
+      16: 'Science', 17: 'People', 18: 'Sports/Recreation', 19: 'Technology', 20: 'Transportation',
+      21: 'Parks/Outdoor'
+    },
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_ShutterStock.csv',
+      delimiter: ',',
+      keywordSeparator: ',',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Description', value: r => r.description },
+        { header: 'Keywords', value: (_r, kw) => kw },
+        { header: 'Categories', value: r => platformCategory(r, 'shutterstock') },
+        { header: 'Editorial', value: () => 'no' },
+        { header: 'Mature content', value: () => 'no' },
+        { header: 'illustration', value: r => yesNo(isIllustrative(r)) }
+      ]
+    }
+  },
+  freepik: {
+    id: 'freepik',
+    label: 'Freepik',
+    icon: '🅵',
+    limits: { titleMax: 100, descMax: 150, keywordsMax: 49 },
+    tips: 'Short, clear titles (under 100 characters) naming the main subject and style. Keywords ordered by relevance, no repetition.',
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Freepik.csv',
+      delimiter: ';',
+      keywordSeparator: ', ',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Title', value: r => r.title },
+        { header: 'Keywords', value: (_r, kw) => kw },
+        { header: 'Prompt', value: r => r.generatedPrompt || '' },
+        { header: 'Model', value: () => '' }
+      ]
+    }
+  },
+  dreamstime: {
+    id: 'dreamstime',
+    label: 'Dreamstime',
+    icon: '💭',
+    limits: { titleMax: 115, descMax: 150, keywordsMax: 49 },
+    tips: 'Title is a short image name; description must be a full descriptive sentence of at least 5 words. Avoid repeating the title verbatim in the description.',
+    categories: {
+      1: 'Animals', 2: 'Arts & Architecture', 3: 'Business', 4: 'Objects', 5: 'Nature', 6: 'People',
+      7: 'Objects', 8: 'Illustrations & Clipart', 9: 'Holidays', 10: 'Industries', 11: 'Nature',
+      12: 'People', 13: 'People', 14: 'Nature', 15: 'Holidays', 16: 'Technology', 17: 'People',
+      18: 'People', 19: 'Technology', 20: 'Industries', 21: 'Travel'
+    },
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Dreamstime.csv',
+      delimiter: ',',
+      keywordSeparator: ',',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Image Name', value: r => r.title },
+        { header: 'Description', value: r => r.description },
+        { header: 'Category 1', value: r => platformCategory(r, 'dreamstime') },
+        { header: 'Category 2', value: () => '' },
+        { header: 'Category 3', value: () => '' },
+        { header: 'keywords', value: (_r, kw) => kw },
+        { header: 'Free', value: () => 0 },
+        { header: 'W-EL', value: () => 1 },
+        { header: 'P-EL', value: () => 1 },
+        { header: 'SR-EL', value: () => 0 },
+        { header: 'SR-Price', value: () => 0 },
+        { header: 'Editorial', value: () => 0 },
+        { header: 'MR doc Ids', value: () => '' },
+        { header: 'Pr Docs', value: () => '' }
+      ]
+    }
+  },
+  '123rf': {
+    id: '123rf',
+    label: '123RF',
+    icon: '🔢',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Single description field doubles as the title: make it a factual, keyword-rich phrase. No brand or trademark names.',
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_123RF.csv',
+      delimiter: ',',
+      keywordSeparator: ',',
+      columns: [
+        { header: 'oldfilename', value: r => r.filename },
+        { header: '123rf_filename', value: () => '' },
+        { header: 'description', value: r => r.description || r.title },
+        { header: 'keywords', value: (_r, kw) => kw },
+        { header: 'country', value: () => '' }
+      ]
+    }
+  },
+  depositphotos: {
+    id: 'depositphotos',
+    label: 'Depositphotos',
+    icon: '🗄️',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Description of at least 5 words stating subject, action and setting. Keywords in English only, most relevant first.',
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Depositphotos.csv',
+      delimiter: ',',
+      keywordSeparator: ',',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Description', value: r => r.description || r.title },
+        { header: 'Keywords', value: (_r, kw) => kw },
+        { header: 'Nudity', value: () => 'no' },
+        { header: 'Editorial', value: () => 'no' }
+      ]
+    }
+  },
+  alamy: {
+    id: 'alamy',
+    label: 'Alamy',
+    icon: '🅰️',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Caption is a descriptive sentence (who, what, where). Put the 10 most important keywords first; they become Alamy supertags.',
+    allowPluralVariants: true,
+    export: {
+      format: 'xlsx',
+      fileName: 'StockXLSX_Alamy.xlsx',
+      delimiter: ',',
+      keywordSeparator: ', ',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Caption', value: r => r.title },
+        { header: 'Description', value: r => r.description },
+        { header: 'Supertags', value: r => r.keywords.slice(0, 10).join(', ') },
+        { header: 'Tags', value: r => r.keywords.slice(10).join(', ') }
+      ]
+    }
+  },
+  pond5: {
+    id: 'pond5',
+    label: 'Pond5',
+    icon: '🎬',
+    limits: { titleMax: 100, descMax: 150, keywordsMax: 49 },
+    tips: 'Title of at least 5 words naming subject and action; footage titles should mention motion or camera work. Description adds setting and context.',
+    allowPluralVariants: true,
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Pond5.csv',
+      delimiter: ',',
+      keywordSeparator: ', ',
+      columns: [
+        { header: 'originalfilename', value: r => r.filename },
+        { header: 'title', value: r => r.title },
+        { header: 'description', value: r => r.description },
+        { header: 'keywords', value: (_r, kw) => kw },
+        { header: 'location', value: () => '' },
+        { header: 'price', value: () => '' }
+      ]
+    }
+  },
+  vecteezy: {
+    id: 'vecteezy',
+    label: 'Vecteezy',
+    icon: '🖌️',
+    limits: { titleMax: 200, descMax: 150, keywordsMax: 49 },
+    tips: 'Describe the design plainly (subject, style, use case). Vector and illustration terms welcome; no camera terms.',
+    export: {
+      format: 'csv',
+      fileName: 'StockCSV_Vecteezy.csv',
+      delimiter: ',',
+      keywordSeparator: ', ',
+      columns: [
+        { header: 'Filename', value: r => r.filename },
+        { header: 'Title', value: r => r.title },
+        { header: 'Description', value: r => r.description },
+        { header: 'Keywords', value: (_r, kw) => kw },
+        { header: 'License', value: () => 'pro' }
+      ]
+    }
+  }
+};
+
+export const PLATFORM_LIST: PlatformSpec[] = Object.values(PLATFORMS);
+
+/**
+ * Display label stored on Row.platform for a platform id
+ */
+export function platformLabel(platform: Platform): PlatformLabel {
+  return PLATFORMS[platform].label;
+}
+
+/**
+ * Reverse lookup from Row.platform label to platform id (defaults to 'general')
+ */
+export function platformFromLabel(label: string): Platform {
+  return PLATFORM_LIST.find(p => p.label === label)?.id ?? 'general';
+}
+
+/**
+ * Agency category name for a row, derived from the detected Adobe category
+ */
+export function platformCategory(row: Row, platform: Platform): string {
+  const categories = PLATFORMS[platform].categories;
+  const adobeId = detectAdobeCategory(row);
+  if (!categories || adobeId === undefined) return '';
+  return categories[adobeId] ?? '';
+}
+
+/**
+ * Clamp requested title length and keyword count to the platform's limits
+ */
+export function applyPlatformLimits<T extends { platform: Platform; titleLen: number; keywordCount: number }>(form: T): T {
+  const { limits } = PLATFORMS[form.platform];
+  return {
+    ...form,
+    titleLen: Math.min(form.titleLen, limits.titleMax),
+    keywordCount: Math.min(form.keywordCount, limits.keywordsMax)
+  };
+}
+
+/**
+ * Build header + data rows for a platform export schema
+ */
+export function exportTable(rows: Row[], schema: ExportSchema): Array<Array<string | number>> {
+  return [
+    schema.columns.map(c => c.header),
+    ...rows.map(r => schema.columns.map(c => c.value(r, r.keywords.join(schema.keywordSeparator))))
+  ];
+}
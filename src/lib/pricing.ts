@@ -0,0 +1,110 @@
+// Token prices per model for cost estimates and per-batch budgets (shared by the client and /api/generate).
+// Prices are USD per 1M tokens. Override or extend them with NEXT_PUBLIC_MODEL_PRICES, e.g.
+// NEXT_PUBLIC_MODEL_PRICES='{"gemini-2.5-flash":{"input":0.3,"output":2.5},"llava:13b":{"input":0,"output":0}}'
+
+import type { Provider, TokenUsage } from './types';
+
+export type ModelPrice = { input: number; output: number };
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+  'meta-llama/llama-4-maverick-17b-128e-instruct': { input: 0.20, output: 0.60 },
+  'mistral-small-latest': { input: 0.10, output: 0.30 },
+  'mistral-medium-latest': { input: 0.40, output: 2.00 },
+  'mistral-large-latest': { input: 2.00, output: 6.00 },
+  'mock-deterministic': { input: 0, output: 0 }
+};
+
+// Per-file estimate inputs: the metadata prompt, the model's JSON reply, and image tiles
+// (vision models bill roughly 258 tokens per 768x768 tile; pixels are guessed from the compressed size)
+const PROMPT_TOKENS_PER_FILE = 2000;
+const OUTPUT_TOKENS_PER_FILE = 800;
+const TOKENS_PER_IMAGE_TILE = 258;
+const TILE_PIXELS = 768 * 768;
+const MAX_IMAGE_PIXELS = 2048 * 2048;  // Images are compressed to 2048px before upload
+const JPEG_BYTES_PER_PIXEL = 0.3;
+
+let priceTable: Record<string, ModelPrice> | undefined;
+
+/**
+ * Default prices merged with NEXT_PUBLIC_MODEL_PRICES
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+      overrides = JSON.parse(process.env.NEXT_PUBLIC_MODEL_PRICES || '{}');
+    } catch {
+      console.warn('⚠ NEXT_PUBLIC_MODEL_PRICES is not valid JSON - using default prices');
+    }
+    priceTable = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return priceTable;
+}
+
+/**
+ * Model id a request will run on (same defaults as the providers)
+ */
+export function modelIdFor(
+  provider: Provider,
+  models: { geminiModel?: string; mistralModel?: string; groqModel?: string; openaiModel?: string }
+): string | undefined {
+  switch (provider) {
+    case 'gemini': return models.geminiModel || 'gemini-2.5-flash';
+    case 'groq': return models.groqModel || 'meta-llama/llama-4-scout-17b-16e-instruct';
+    case 'mistral': return models.mistralModel || 'mistral-small-latest';
+    case 'openai': return models.openaiModel || undefined;
+    case 'mock': return 'mock-deterministic';
+  }
+}
+
+/**
+ * Cost in USD of one call, or undefined when the model has no price
+ */
+export function costOf(model: string | undefined, usage: TokenUsage | undefined): number | undefined {
+  const price = model ? getPriceTable()[model] : undefined;
+  if (!price || !usage) return undefined;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Token counts of several calls added together (undefined when none reported any)
+ */
+export function sumUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+/**
+ * Rough cost of a batch before it runs, from the file count and average (compressed) image size
+ */
+export function estimateBatchCost(
+  model: string | undefined,
+  files: { size: number }[]
+): { inputTokens: number; outputTokens: number; cost?: number } {
+  if (files.length === 0) return { inputTokens: 0, outputTokens: 0, cost: 0 };
+  const avgBytes = files.reduce((sum, f) => sum + f.size, 0) / files.length;
+  const pixels = Math.min(avgBytes / JPEG_BYTES_PER_PIXEL, MAX_IMAGE_PIXELS);
+  const imageTokens = Math.max(1, Math.ceil(pixels / TILE_PIXELS)) * TOKENS_PER_IMAGE_TILE;
+
+  const inputTokens = Math.round(files.length * (PROMPT_TOKENS_PER_FILE + imageTokens));
+  const outputTokens = files.length * OUTPUT_TOKENS_PER_FILE;
+  return { inputTokens, outputTokens, cost: costOf(model, { inputTokens, outputTokens }) };
+}
+
+/**
+ * Estimated cost of one file from its base64 image data, held against a budget while the call runs
+ */
+export function estimateFileCost(model: string | undefined, imageData: string | undefined): number {
+  const size = imageData ? Math.round(imageData.length * 0.75) : 0;
+  return estimateBatchCost(model, [{ size }]).cost ?? 0;
+}
+
+/**
+ * "$0.0123" for small amounts, "$1.23" otherwise
+ */
+export function formatUsd(amount: number): string {
+  return amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
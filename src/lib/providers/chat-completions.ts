@@ -0,0 +1,130 @@
+// Shared transport for OpenAI-style /chat/completions APIs (Mistral, Groq, OpenAI-compatible servers)
+
+import type { CompletionRequest } from '../models';
+import type { TokenUsage } from '../types';
+import type { KeyTestResult } from './types';
+import { providerFetch } from './fixtures';
+
+// Authorization is omitted for keyless local servers
+function chatHeaders(apiKey: string | undefined): Record<string, string> {
+  return apiKey
+    ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` }
+    : { 'Content-Type': 'application/json' };
+}
+
+/**
+ * Token counts from a /chat/completions response
+ */
+export function readChatUsage(data: any): TokenUsage | undefined {
+  const u = data?.usage;
+  if (!u) return undefined;
+  return { inputTokens: u.prompt_tokens || 0, outputTokens: u.completion_tokens || 0 };
+}
+
+/**
+ * Send a system + user prompt (optionally with an image) and return the reply text with its token usage
+ */
+export async function chatCompleteWithUsage(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  req: CompletionRequest,
+  label: string
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const image = req.imageUrl || req.imageData;
+  const userContent = image
+    ? [{ type: 'text', text: req.userPrompt }, { type: 'image_url', image_url: { url: image } }]
+    : req.userPrompt;
+
+  const response = await providerFetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: chatHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: req.systemPrompt },
+        { role: 'user', content: userContent }
+      ],
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      ...(req.json ? { response_format: { type: 'json_object' } } : {})
+    }),
+    signal: req.signal
+  });
+
+  if (!response.ok) {
+    const t = await response.text();
+    throw new Error(`${label} API error (${response.status}): ${t.substring(0, 200)}`);
+  }
+
+  const data = await response.json();
+  return { text: data?.choices?.[0]?.message?.content || '', usage: readChatUsage(data) };
+}
+
+/**
+ * Send a system + user prompt (optionally with an image) and return the reply text
+ */
+export async function chatComplete(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  req: CompletionRequest,
+  label: string
+): Promise<string> {
+  const { text, usage } = await chatCompleteWithUsage(baseUrl, apiKey, model, req, label);
+  if (usage) req.onUsage?.(usage);
+  return text;
+}
+
+/**
+ * Key check: a minimal chat completion against `model`
+ */
+export async function testChatKey(baseUrl: string, apiKey: string | undefined, model: string): Promise<KeyTestResult> {
+  const res = await providerFetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: chatHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'user', content: 'Say "test" if you can read this.' }
+      ],
+      max_tokens: 10
+    })
+  });
+
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}));
+    return {
+      success: false,
+      error: errorData.error?.message || `API request failed with status ${res.status}`,
+      status: res.status
+    };
+  }
+
+  const data = await res.json();
+  if (data.choices?.[0]?.message?.content) {
+    return { success: true, message: 'API key is valid and working correctly' };
+  }
+  return { success: false, error: 'Unexpected response format from API' };
+}
+
+/**
+ * Model ids from GET /models, or `fallback` on failure (or without a key, unless `keyOptional`)
+ */
+export async function listChatModels(
+  baseUrl: string,
+  apiKey: string | undefined,
+  fallback: readonly string[],
+  keyOptional = false
+): Promise<string[]> {
+  if (!apiKey && !keyOptional) return [...fallback];
+  try {
+    const res = await providerFetch(`${baseUrl}/models`, { headers: chatHeaders(apiKey) });
+    if (!res.ok) return [...fallback];
+    const data = await res.json();
+    const ids = (data?.data || []).map((m: any) => String(m?.id || '')).filter(Boolean);
+    return ids.length ? ids : [...fallback];
+  } catch {
+    return [...fallback];
+  }
+}
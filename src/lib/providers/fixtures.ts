@@ -0,0 +1,129 @@
+// Record/replay for provider HTTP calls - lets /api/generate run offline against saved responses
+// PROVIDER_FIXTURES=record saves every provider exchange; PROVIDER_FIXTURES=replay serves them back.
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { rateLimiter, rateLimitScope } from '../rate-limiter';
+import { logger } from '../logger';
+
+export type FixtureMode = 'record' | 'replay' | 'off';
+
+interface Fixture {
+  request: { method: string; url: string; bodyHash: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers?: Record<string, string>;   // Retry-After, x-ratelimit-* etc. (auth and cookies are never stored)
+    contentType?: string;               // fixtures recorded before headers were kept
+    body: string;
+  };
+  recordedAt: string;
+}
+
+// Response headers left out of fixtures: credentials, and framing that no longer matches the stored body
+const UNRECORDED_HEADERS = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|x-goog-api-key|content-encoding|content-length|transfer-encoding|connection)$/i;
+
+function recordedHeaders(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!UNRECORDED_HEADERS.test(name)) out[name.toLowerCase()] = value;
+  });
+  return out;
+}
+
+export function fixtureMode(): FixtureMode {
+  const mode = (process.env.PROVIDER_FIXTURES || '').trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function fixtureDir(): string {
+  return path.resolve(process.env.PROVIDER_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'providers'));
+}
+
+/**
+ * Strip API keys from a URL so fixtures are shareable and match regardless of which key replays them
+ */
+function redactUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    if (u.searchParams.has('key')) u.searchParams.set('key', 'REDACTED');
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Fixture key: method + redacted URL + request body (headers are ignored, they only carry auth)
+ */
+function fixtureKey(method: string, url: string, body: string): string {
+  return createHash('sha256').update(`${method} ${url}\n${body}`).digest('hex').substring(0, 24);
+}
+
+/**
+ * Live provider call, paced per API key by the shared rate limiter
+ */
+async function limitedFetch(url: string, init: RequestInit): Promise<Response> {
+  const scope = rateLimitScope(url, init);
+  await rateLimiter.acquire(scope, init.signal ?? undefined);
+  const res = await fetch(url, init);
+  rateLimiter.observe(scope, res.status, res.headers);
+  return res;
+}
+
+/**
+ * Drop-in replacement for fetch() in provider modules. Passes straight through (rate limited)
+ * unless PROVIDER_FIXTURES is set. Replayed responses keep their recorded headers and go through
+ * the rate limiter too, so a recorded 429 paces and retries exactly like the live one did.
+ */
+export async function providerFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = fixtureMode();
+  if (mode === 'off') return limitedFetch(url, init);
+
+  const method = (init.method || 'GET').toUpperCase();
+  const safeUrl = redactUrl(url);
+  const body = typeof init.body === 'string' ? init.body : '';
+  const file = path.join(fixtureDir(), `${fixtureKey(method, safeUrl, body)}.json`);
+
+  if (mode === 'replay') {
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      throw new Error(`No recorded fixture for ${method} ${safeUrl} (${path.basename(file)}). Run once with PROVIDER_FIXTURES=record to capture it.`);
+    }
+    logger.debug('Replaying provider fixture', { fixture: path.basename(file), method, url: safeUrl });
+    const scope = rateLimitScope(url, init);
+    await rateLimiter.acquire(scope, init.signal ?? undefined);
+    const headers = new Headers(fixture.response.headers ?? { 'Content-Type': fixture.response.contentType || 'application/json' });
+    rateLimiter.observe(scope, fixture.response.status, headers);
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers
+    });
+  }
+
+  const res = await limitedFetch(url, init);
+  const text = await res.text();
+  const fixture: Fixture = {
+    request: { method, url: safeUrl, bodyHash: createHash('sha256').update(body).digest('hex') },
+    response: {
+      status: res.status,
+      statusText: res.statusText,
+      headers: recordedHeaders(res.headers),
+      body: text
+    },
+    recordedAt: new Date().toISOString()
+  };
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(fixture, null, 2));
+    logger.debug('Recorded provider fixture', { fixture: path.basename(file), method, url: safeUrl });
+  } catch (error) {
+    logger.error('Failed to write provider fixture', { fixture: path.basename(file), error });
+  }
+
+  // The body was consumed for recording; hand the caller an equivalent response
+  return new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
@@ -0,0 +1,496 @@
+// Gemini provider - multimodal generation, vision captioning (used by other providers too) and key checks
+
+import {
+  buildUserPrompt,
+  retryWithBackoff,
+  asModelOut,
+  fallback,
+  generateVisionCaption,
+  generateImagePrompt,
+  translateMetadata,
+  type ModelArgs,
+  type ModelOut,
+  type CompleteFn
+} from '../models';
+import { GeminiModelEnum, type GeminiModel, type TokenUsage } from '../types';
+import type { KeyTestResult, MetadataProvider } from './types';
+import { providerFetch } from './fixtures';
+import { retryAfterMs, parseDuration } from '../rate-limiter';
+import { isAbortError } from '../util';
+import { logger } from '../logger';
+
+const GEMINI_API = 'https://generativelanguage.googleapis.com';
+
+/**
+ * Token counts from a generateContent response (thinking tokens are billed as output)
+ */
+function readUsage(data: any): TokenUsage | undefined {
+  const u = data?.usageMetadata;
+  if (!u) return undefined;
+  return { inputTokens: u.promptTokenCount || 0, outputTokens: (u.candidatesTokenCount || 0) + (u.thoughtsTokenCount || 0) };
+}
+
+async function generateWithGemini(a: ModelArgs): Promise<ModelOut> {
+  // Import retry tracker (dynamic import to avoid circular dependencies)
+  const { retryTracker } = await import('@/lib/retry-tracker');
+  const requestId = a.requestId || retryTracker.generateRequestId(a.filename, a.retryBatchId);
+  const log = logger.child({ requestId, file: a.filename, provider: 'gemini' });
+
+  // Use bearer token if provided and not empty, otherwise fall back to environment variable
+  let key: string | undefined;
+  if (a.bearer && a.bearer.trim().length > 0) {
+    key = a.bearer.trim();
+  } else if (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY.trim().length > 0) {
+    key = process.env.GEMINI_API_KEY.trim();
+  }
+  
+  // Validate key exists and is not empty
+  if (!key || key.length === 0) {
+    const errorMsg = a.bearer 
+      ? 'Invalid API key: The Authorization header contains an empty or invalid key. Please check your API key in the "API Secrets" modal and ensure it is set as active.'
+      : 'GEMINI_API_KEY environment variable is not set. Please set it in your .env.local file or provide an API key via the Authorization header in the "API Secrets" modal.';
+    log.error('No Gemini API key available', { keySource: a.bearer ? 'header' : 'env' });
+    throw new Error(errorMsg);
+  }
+  
+  // Additional validation: Gemini API keys are typically alphanumeric with some special chars
+  // But we'll let the API validate the actual format
+  if (key.length < 20) {
+    log.warn('API key is unusually short; Gemini keys are typically longer');
+  }
+  log.debug('Using Gemini API key', { keySource: a.bearer ? 'header' : 'env' });
+  
+  // Additional validation: Check if key looks like a valid Gemini API key
+  // Clean whitespace that might have been accidentally included
+  if (key.includes(' ') || key.includes('\n') || key.includes('\t')) {
+    log.warn('API key contains whitespace; removing it');
+    key = key.replace(/\s+/g, '').trim();
+  }
+  
+  // Check for common placeholder values
+  if (key === 'undefined' || key === 'null' || key.toLowerCase() === 'your_api_key_here') {
+    throw new Error(`Invalid API key detected: The key appears to be a placeholder. Please provide a valid Gemini API key.`);
+  }
+
+  try {
+    const result = await retryWithBackoff(async () => {
+    try {
+    const prompt = buildUserPrompt(a);
+    const parts: any[] = [];
+    let imageAdded = false;
+    
+    // Add image if provided (multimodal) - image must come BEFORE text per Gemini docs
+    if (a.imageData) {
+      const match = a.imageData.match(/^data:([^;]+);base64,(.+)$/);
+      if (match) {
+        const mimeType = match[1];
+        const base64Data = match[2];
+        parts.push({
+          inline_data: {
+            mime_type: mimeType,
+            data: base64Data
+          }
+        });
+        imageAdded = true;
+      } else {
+        log.error('Image data is not a base64 data URL', { mimePrefix: a.imageData.substring(0, 30) });
+        throw new Error('Invalid image data format - must be data:image/{type};base64,{data}');
+      }
+    } else if (a.imageUrl) {
+      parts.push({
+        file_data: {
+          mime_type: 'image/jpeg',
+          file_uri: a.imageUrl
+        }
+      });
+      imageAdded = true;
+    } else {
+      log.debug('No image data or URL provided; text-only request');
+    }
+    
+    // Text prompt comes AFTER image (per Gemini best practices)
+    parts.push({ text: prompt });
+    
+    // Validate that if imageData was provided, it was actually added
+    if (a.imageData && !imageAdded) {
+      throw new Error('Image data was provided but failed to be added to request parts');
+    }
+    
+    const imageCount = parts.filter(p => p.inline_data || p.file_data).length;
+    const textCount = parts.filter(p => p.text).length;
+
+    const body = { contents: [{ role: 'user', parts }] };
+    
+    // URL encode the key to handle any special characters safely
+    const encodedKey = encodeURIComponent(key);
+    
+    // Select model based on geminiModel parameter or fallback to preview flag (for backward compatibility)
+    // Map UI model names to API model names
+    let modelName: string;
+    if (a.geminiModel) {
+      // Map from UI model names to API model names
+      const modelMap: Record<GeminiModel, string> = {
+        'gemini-2.5-flash': 'gemini-2.5-flash',
+        'gemini-2.5-flash-lite': 'gemini-2.5-flash-lite'
+      };
+      modelName = modelMap[a.geminiModel] || 'gemini-2.5-flash';
+    } else if (a.preview) {
+      // Backward compatibility: use preview flag if geminiModel not provided
+      modelName = 'gemini-1.5-pro-latest';
+    } else {
+      // Default fallback
+      modelName = 'gemini-2.5-flash';
+    }
+    
+    const apiUrl = `${GEMINI_API}/v1beta/models/${modelName}:generateContent?key=${encodedKey}`;
+    
+    log.debug('Sending request to Gemini', { model: modelName, images: imageCount, textParts: textCount });
+    
+    const res = await providerFetch(
+      apiUrl,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal: a.signal }
+    );
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => 'Unknown error');
+      let errorMessage = `Gemini API error (${res.status}): ${errorText.substring(0, 200)}`;
+      
+      // Parse error JSON if available
+      let errorJson: any = null;
+      try {
+        errorJson = JSON.parse(errorText);
+        if (errorJson?.error?.message) {
+          errorMessage = `Gemini API error (${res.status}): ${errorJson.error.message}`;
+        }
+      } catch {
+        // If parsing fails, use the original error message
+      }
+      
+      // Determine if this is a retryable error
+      const isRetryable = res.status === 503 || res.status === 429 || res.status === 500 || res.status === 502 || res.status === 504;
+      const isNonRetryable = res.status === 400 || res.status === 401 || res.status === 403;
+      
+      // Provide more specific error messages for common issues
+      if (res.status === 400) {
+        if (errorJson?.error?.message?.includes('API key not valid') || errorJson?.error?.message?.includes('invalid')) {
+          errorMessage = `Invalid API key (400): ${errorJson.error.message}. ` +
+            `Please verify your API key is correct. ` +
+            `If using Authorization header, check the Key Modal. ` +
+            `If using environment variable, check your .env.local file.`;
+        }
+      }
+      
+      // For retryable errors, throw so retry logic can catch and retry
+      if (isRetryable) {
+        const error = new Error(errorMessage);
+        (error as any).status = res.status;
+        (error as any).isRetryable = true;
+        // Retry-After header, or the RetryInfo hint Gemini puts in 429 bodies (e.g. "retryDelay": "34s")
+        const retryInfo = errorJson?.error?.details?.find((d: any) => d?.retryDelay);
+        (error as any).retryAfterMs = retryAfterMs(res.headers) ?? parseDuration(retryInfo?.retryDelay);
+        log.warn('Gemini request failed; will retry', { status: res.status, error: errorMessage });
+        throw error; // This will trigger retryWithBackoff
+      }
+      
+      // For non-retryable errors, log and return error object
+      if (a.imageData) {
+        errorMessage += ' Image was provided but API call failed.';
+      }
+      log.error('Gemini request failed', { status: res.status, error: errorMessage });
+      
+      // Return error instead of fallback when image is provided
+      if (a.imageData) {
+        return { title: '', description: '', keywords: [], error: errorMessage };
+      }
+      return fallback(a);
+    }
+
+    const data = await res.json();
+    let text = data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '{}';
+    log.debug('Gemini response received', { candidates: data?.candidates?.length || 0, preview: text.substring(0, 300) });
+    
+    // Extract JSON from markdown code blocks if present
+    // Gemini often returns: ```json\n{...}\n```
+    if (text.includes('```json')) {
+      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
+      if (jsonMatch && jsonMatch[1]) {
+        text = jsonMatch[1].trim();
+      }
+    } else if (text.includes('```')) {
+      // Handle generic code blocks without language specifier
+      const codeMatch = text.match(/```\s*([\s\S]*?)\s*```/);
+      if (codeMatch && codeMatch[1]) {
+        text = codeMatch[1].trim();
+      }
+    }
+    
+    try { 
+      const parsed = asModelOut(JSON.parse(text));
+      if (a.imageData && (!parsed.title || parsed.title.length < 10)) {
+        log.warn('Title is very short although an image was provided; the image may not have been analyzed', { title: parsed.title });
+        // Return error if image provided but result is clearly wrong
+        if (parsed.title.length < 5) {
+          return { 
+            title: '', 
+            description: '', 
+            keywords: [], 
+            error: 'Image analysis failed: AI returned empty or invalid title despite image being provided.' 
+          };
+        }
+      }
+      return { ...parsed, usage: readUsage(data) };
+    } catch (parseError: any) {
+      log.warn('Could not parse Gemini response as JSON', { error: parseError?.message, preview: text.substring(0, 500) });
+      // Try to extract JSON more aggressively
+      const jsonStart = text.indexOf('{');
+      const jsonEnd = text.lastIndexOf('}');
+      if (jsonStart >= 0 && jsonEnd > jsonStart) {
+        try {
+          const extractedJson = text.substring(jsonStart, jsonEnd + 1);
+          const parsed = asModelOut(JSON.parse(extractedJson));
+          return { ...parsed, usage: readUsage(data) };
+        } catch (retryError) {
+          log.error('Failed to parse JSON extracted from Gemini response', { error: retryError });
+        }
+      }
+      // Return error instead of fallback when image is provided
+      if (a.imageData) {
+        return { 
+          title: '', 
+          description: '', 
+          keywords: [], 
+          error: `Failed to parse AI response: ${parseError?.message}. Raw response: ${text.substring(0, 100)}...` 
+        };
+      }
+      return fallback(a);
+    }
+    } catch (error: any) {
+      // Cancelled by the client - let the route mark the row as cancelled
+      if (isAbortError(error)) throw error;
+
+      // If this is a retryable error that wasn't caught by retry logic, re-throw it
+      // (This shouldn't happen since retry logic should catch it, but just in case)
+      if (error?.isRetryable || error?.status === 503 || error?.status === 429 || error?.status === 500) {
+        throw error; // Re-throw to let retry logic handle it
+      }
+      
+      log.error('Gemini generation failed', { error });
+      if (a.imageData) {
+        const errorMsg = `Image analysis failed: ${error?.message || 'Unknown error'}. Check API key and image format.`;
+        return { title: '', description: '', keywords: [], error: errorMsg };
+      }
+      return fallback(a);
+    }
+    }, 5, 2000, (attempt, error, delay) => {
+    // Emit retry event for real-time tracking
+    const isOverloaded = error?.status === 503 || error?.message?.includes('overloaded');
+    const errorType = isOverloaded ? 'overloaded' : 
+                     error?.status === 429 ? 'rate-limit' : 'server-error';
+    
+    retryTracker.emit({
+      requestId,
+      filename: a.filename,
+      attempt,
+      maxAttempts: 5,
+      errorType,
+      delay,
+      status: 'retrying'
+    });
+  }, a.signal, log);
+  
+    // Emit success event after successful completion
+    retryTracker.emit({
+      requestId,
+      filename: a.filename,
+      attempt: 0,
+      maxAttempts: 5,
+      errorType: 'server-error',
+      status: 'success'
+    });
+    
+    return result;
+  } catch (error) {
+    // Emit failed event (a cancelled request did not fail)
+    if (!isAbortError(error)) {
+      retryTracker.emit({
+        requestId,
+        filename: a.filename,
+        attempt: 5,
+        maxAttempts: 5,
+        errorType: 'server-error',
+        status: 'failed'
+      });
+    }
+    throw error;
+  }
+}
+
+// Image-to-prompt transport: system + user text in one part, image after the text
+function geminiComplete(bearer: string | undefined, model: string | undefined): CompleteFn {
+  const key = bearer || process.env.GEMINI_API_KEY;
+  return async req => {
+    if (!key) throw new Error('No Gemini API key available');
+
+    const parts: any[] = [{ text: req.systemPrompt + '\n\n' + req.userPrompt }];
+    if (req.imageData) {
+      const m = req.imageData.match(/^data:image\/(\w+);base64,(.+)$/);
+      if (m) {
+        parts.push({
+          inline_data: {
+            mime_type: `image/${m[1]}`,
+            data: m[2]
+          }
+        });
+      }
+    } else if (req.imageUrl) {
+      parts.push({ fileData: { fileUri: req.imageUrl } });
+    }
+
+    const response = await providerFetch(`${GEMINI_API}/v1beta/models/${model || 'gemini-2.5-flash'}:generateContent?key=${key}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts }],
+        generationConfig: { temperature: req.temperature, maxOutputTokens: req.maxTokens }
+      }),
+      signal: req.signal
+    });
+
+    if (!response.ok) {
+      const t = await response.text();
+      throw new Error(`Gemini API error (${response.status}): ${t.substring(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const usage = readUsage(data);
+    if (usage) req.onUsage?.(usage);
+    return data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  };
+}
+
+// First listed model (per API version) whose name matches one of `families` and supports generateContent
+async function findListedModel(apiKey: string, version: 'v1' | 'v1beta', families: string[]): Promise<string | null> {
+  try {
+    const listRes = await providerFetch(`${GEMINI_API}/${version}/models?key=${apiKey}`);
+    if (!listRes.ok) return null;
+    const listData = await listRes.json();
+    const models = listData.models || [];
+    const geminiModel = models.find((m: any) =>
+      m.name && families.some(f => m.name.includes(f)) &&
+      m.supportedGenerationMethods?.includes('generateContent')
+    );
+    return geminiModel ? geminiModel.name.replace('models/', '') : null;
+  } catch {
+    // If listing fails, we'll try direct calls
+    return null;
+  }
+}
+
+async function testGeminiKey(apiKey: string): Promise<KeyTestResult> {
+  // First, try to list available models to find one that works (v1, then v1beta)
+  let apiVersion: 'v1' | 'v1beta' = 'v1';
+  let availableModel = await findListedModel(apiKey, 'v1', ['gemini-2.5', 'gemini-2.0', 'gemini-1.5', 'gemini-pro']);
+  if (!availableModel) {
+    availableModel = await findListedModel(apiKey, 'v1beta', ['gemini-pro', 'gemini-1.5', 'gemini-2.0']);
+    if (availableModel) apiVersion = 'v1beta';
+  }
+
+  // Fallback: try common models in order (using currently available models)
+  const fallbackModels = [
+    { model: 'gemini-2.5-flash', version: 'v1beta' }, // Current default model
+    { model: 'gemini-2.0-flash-exp', version: 'v1beta' },
+    { model: 'gemini-1.5-flash-latest', version: 'v1beta' },
+    { model: 'gemini-1.5-pro-latest', version: 'v1beta' },
+    { model: 'gemini-1.5-flash', version: 'v1beta' },
+    { model: 'gemini-1.5-pro', version: 'v1beta' },
+    { model: 'gemini-pro', version: 'v1' } // Only try v1 for gemini-pro
+  ];
+
+  const testBody = {
+    contents: [{
+      role: 'user',
+      parts: [{ text: 'Say "test" if you can read this.' }]
+    }]
+  };
+
+  let res: Response | null = null;
+  let lastError: any = null;
+
+  // If we found a model from listing, try it first
+  if (availableModel) {
+    res = await providerFetch(`${GEMINI_API}/${apiVersion}/models/${availableModel}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(testBody)
+    });
+
+    if (res.ok) {
+      const data = await res.json();
+      if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
+        return { success: true, message: 'API key is valid and working correctly' };
+      }
+    } else {
+      lastError = await res.json().catch(() => ({}));
+    }
+  }
+
+  // Try fallback models
+  for (const { model, version } of fallbackModels) {
+    try {
+      res = await providerFetch(`${GEMINI_API}/${version}/models/${model}:generateContent?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(testBody)
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
+          return { success: true, message: `API key is valid and working correctly (tested with ${model})` };
+        }
+      } else {
+        const errorData = await res.json().catch(() => ({}));
+        // Only store error if it's not a "model not found" error (we'll try next model)
+        if (!errorData?.error?.message?.includes('not found') && !errorData?.error?.message?.includes('not supported')) {
+          lastError = errorData;
+        }
+      }
+    } catch {
+      // Continue to next model on fetch errors
+    }
+  }
+
+  // If all attempts failed
+  return {
+    success: false,
+    error: lastError?.error?.message || 'No available Gemini models found. Please check your API key and ensure it has access to Gemini models.',
+    status: res?.status || 400
+  };
+}
+
+async function listGeminiModels(apiKey?: string): Promise<string[]> {
+  const fallbackModels = [...GeminiModelEnum.options];
+  if (!apiKey) return fallbackModels;
+  try {
+    const res = await providerFetch(`${GEMINI_API}/v1beta/models?key=${apiKey}`);
+    if (!res.ok) return fallbackModels;
+    const data = await res.json();
+    const ids: string[] = (data.models || [])
+      .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+      .map((m: any) => String(m.name || '').replace('models/', ''))
+      .filter(Boolean);
+    return ids.length ? ids : fallbackModels;
+  } catch {
+    return fallbackModels;
+  }
+}
+
+export const geminiProvider: MetadataProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  generate: generateWithGemini,
+  visionCaption: args => generateVisionCaption(args, geminiComplete(args.bearer, args.geminiModel)),
+  writePrompt: args => generateImagePrompt(args, geminiComplete(args.bearer, args.geminiModel)),
+  translate: args => translateMetadata(args, geminiComplete(args.bearer, args.geminiModel)),
+  testKey: testGeminiKey,
+  listModels: listGeminiModels
+};
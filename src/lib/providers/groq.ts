@@ -0,0 +1,288 @@
+// Groq provider - Llama 4 vision models; image-to-prompt runs in one step (no separate caption)
+
+import {
+  buildUserPrompt,
+  asModelOut,
+  fallback,
+  generateImagePrompt,
+  generateDirectImagePrompt,
+  translateMetadata,
+  type ModelArgs,
+  type ModelOut,
+  type CompleteFn
+} from '../models';
+import { GroqModelEnum } from '../types';
+import { chatComplete, testChatKey, listChatModels, readChatUsage } from './chat-completions';
+import type { MetadataProvider } from './types';
+import { providerFetch } from './fixtures';
+import { retryAfterMs, exceedsMaxWait, quotaWaitError } from '../rate-limiter';
+import { sleep, isAbortError } from '../util';
+import { logger } from '../logger';
+
+const GROQ_API = 'https://api.groq.com/openai/v1';
+
+// Pacing between calls is handled per key by the shared rate limiter (see providerFetch);
+// retries wait for the provider's Retry-After, or back off exponentially without one.
+const GROQ_MAX_RETRIES = 3;         // 3 additional attempts after the first try
+const GROQ_RETRY_BASE_DELAY_MS = 2000;
+
+async function generateWithGroq(a: ModelArgs): Promise<ModelOut> {
+  const log = logger.child({ requestId: a.requestId, file: a.filename, provider: 'groq' });
+  // Use bearer token if provided and not empty, otherwise fall back to environment variable
+  const key = (a.bearer && a.bearer.trim().length > 0) ? a.bearer.trim() : process.env.GROQ_API_KEY;
+  if (!key || key.trim().length === 0) {
+    throw new Error('GROQ_API_KEY missing. Please provide an API key via Authorization header or set GROQ_API_KEY environment variable.');
+  }
+
+  // Supported Groq models
+  const MAVERICK_MODEL = 'meta-llama/llama-4-maverick-17b-128e-instruct';
+  const SCOUT_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
+
+  const requestedGroqModel = a.groqModel;
+
+  const hasImage = !!(a.imageData || a.imageUrl);
+
+  // Normalize incoming Groq model to the supported set.
+  // Default to Scout; treat Maverick as legacy-only.
+  const effectiveModel =
+    requestedGroqModel === SCOUT_MODEL || !requestedGroqModel
+      ? SCOUT_MODEL
+      : requestedGroqModel === MAVERICK_MODEL
+      ? MAVERICK_MODEL
+      : SCOUT_MODEL;
+
+  // Use the same model for both text-only and vision to keep behavior consistent.
+  const modelName = effectiveModel;
+  
+  const prompt = buildUserPrompt(a);
+  
+  let messages: any[];
+
+  if (hasImage) {
+    // Vision request: send both text prompt and image
+    const userContent: any[] = [
+      { type: 'text', text: prompt }
+    ];
+
+    if (a.imageUrl) {
+      userContent.push({
+        type: 'image_url',
+        image_url: { url: a.imageUrl }
+      });
+    } else if (a.imageData) {
+      // a.imageData is a data URL (data:image/...;base64,...) - Groq supports image_url with data URLs
+      userContent.push({
+        type: 'image_url',
+        image_url: { url: a.imageData }
+      });
+    }
+
+    messages = [
+      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
+      { role: 'user', content: userContent }
+    ];
+  } else {
+    // Text-only request (no image)
+    messages = [
+      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  const body = {
+    model: modelName,
+    messages: messages,
+    temperature: 0.7,
+    response_format: { type: 'json_object' }
+  };
+
+  let lastError: any = null;
+
+  // First attempt + up to GROQ_MAX_RETRIES additional attempts
+  for (let attempt = 0; attempt <= GROQ_MAX_RETRIES; attempt++) {
+    try {
+      if (attempt > 0) {
+        const retryDelay = lastError?.retryAfterMs ?? GROQ_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+        log.warn('Retrying Groq request', { attempt, maxRetries: GROQ_MAX_RETRIES, delayMs: retryDelay });
+        await sleep(retryDelay, a.signal);
+      }
+
+      const res = await providerFetch(`${GROQ_API}/chat/completions`, {
+        method: 'POST',
+        headers: { 
+          'Content-Type': 'application/json', 
+          'Authorization': `Bearer ${key}` 
+        },
+        body: JSON.stringify(body),
+        signal: a.signal
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text().catch(() => 'Unknown error');
+        const baseMessage = `Groq API error (${res.status}): ${errorText.substring(0, 200)}`;
+        log.error('Groq request failed', { status: res.status, error: baseMessage });
+
+        const error: any = new Error(baseMessage);
+        error.status = res.status;
+        error.errorText = errorText; // Store full error text for detection
+        error.retryAfterMs = retryAfterMs(res.headers);
+
+        // Detect TPD (tokens per day) errors - these are daily quota limits, NOT retryable
+        const status = res.status;
+        const lowerText = errorText.toLowerCase();
+        const isTPDError = status === 429 && (
+          lowerText.includes('tokens per day') ||
+          lowerText.includes('tpd') ||
+          (lowerText.includes('daily') && lowerText.includes('limit'))
+        );
+
+        // TPD errors are permanent until daily quota resets - don't retry
+        if (isTPDError) {
+          error.isTPDError = true;
+          error.isQuotaExhausted = true;
+          // Don't retry - this key's daily quota is exhausted
+          const tpdMessage = `Daily token quota exhausted for this API key. The quota resets daily. Please use a different key or wait until the quota resets. Original error: ${baseMessage}`;
+          if (a.imageData) {
+            return { 
+              title: '', 
+              description: '', 
+              keywords: [], 
+              error: tpdMessage
+            };
+          }
+          return { 
+            title: '', 
+            description: '', 
+            keywords: [], 
+            error: tpdMessage
+          };
+        }
+
+        // Decide if this is a retryable error (temporary rate limits, server errors)
+        const isRetryable = 
+          (status === 429 && !isTPDError) || // Temporary rate limit (not TPD)
+          status === 500 ||
+          status === 502 ||
+          status === 503 ||
+          status === 504 ||
+          lowerText.includes('temporarily') ||
+          lowerText.includes('overloaded') ||
+          lowerText.includes('try again');
+
+        // A Retry-After of hours can't be waited out inside the request
+        if (isRetryable && exceedsMaxWait(error.retryAfterMs)) {
+          return { title: '', description: '', keywords: [], error: quotaWaitError(error).message };
+        }
+
+        if (isRetryable && attempt < GROQ_MAX_RETRIES) {
+          lastError = error;
+          continue; // go to next retry attempt
+        }
+
+        // Non-retryable error or out of retries: return structured error/fallback
+        if (a.imageData) {
+          return { 
+            title: '', 
+            description: '', 
+            keywords: [], 
+            error: baseMessage
+          };
+        }
+        return fallback(a);
+      }
+
+      const data = await res.json();
+      const text = data?.choices?.[0]?.message?.content ?? '{}';
+      
+      try {
+        const parsed = asModelOut(JSON.parse(text));
+        const safeTitle = parsed.title || '';
+        if (a.imageData && safeTitle.length < 10) {
+          log.warn('Title is very short although an image was provided; the image may not have been analyzed', { title: safeTitle });
+          if (safeTitle.length < 5) {
+            return { 
+              title: '', 
+              description: '', 
+              keywords: [], 
+              error: 'Image analysis failed: Groq returned empty or invalid title despite image being provided.' 
+            };
+          }
+        }
+        return { ...parsed, usage: readChatUsage(data) };
+      } catch (parseError: any) {
+        log.warn('Could not parse Groq response as JSON', { error: parseError?.message });
+        if (a.imageData) {
+          return { 
+            title: '', 
+            description: '', 
+            keywords: [], 
+            error: `Failed to parse Groq response: ${parseError?.message}` 
+          };
+        }
+        return fallback(a);
+      }
+    } catch (error: any) {
+      // Cancelled by the client - stop retrying
+      if (isAbortError(error)) throw error;
+
+      // Network or other unexpected error
+      log.error('Groq generation failed', { error });
+      lastError = error;
+
+      const status = (error as any)?.status;
+      const msg = String(error?.message || '').toLowerCase();
+      const isRetryable =
+        status === 429 ||
+        status === 500 ||
+        status === 502 ||
+        status === 503 ||
+        status === 504 ||
+        msg.includes('rate limit') ||
+        msg.includes('temporarily') ||
+        msg.includes('overloaded') ||
+        msg.includes('try again') ||
+        msg.includes('timeout');
+
+      if (isRetryable && attempt < GROQ_MAX_RETRIES) {
+        continue; // retry after delay at top of loop
+      }
+
+      // Non-retryable error or out of retries
+      break;
+    }
+  }
+
+  // If we reach here, all retries have failed
+  const finalMessage = `Groq API request failed after ${GROQ_MAX_RETRIES + 1} attempt(s): ${lastError?.message || 'Unknown error'}`;
+  log.error('Groq request failed after all retries', { error: finalMessage });
+
+  if (a.imageData) {
+    return { 
+      title: '', 
+      description: '', 
+      keywords: [], 
+      error: finalMessage
+    };
+  }
+  return fallback(a);
+}
+
+// Image-to-prompt transport for a request's key/model
+function groqComplete(bearer: string | undefined, model: string | undefined): CompleteFn {
+  const key = bearer || process.env.GROQ_API_KEY;
+  return req => {
+    if (!key) throw new Error('No Groq API key available');
+    return chatComplete(GROQ_API, key, model || 'meta-llama/llama-4-scout-17b-16e-instruct', req, 'Groq');
+  };
+}
+
+export const groqProvider: MetadataProvider = {
+  id: 'groq',
+  label: 'Groq',
+  generate: generateWithGroq,
+  writePrompt: args => generateImagePrompt(args, groqComplete(args.bearer, args.groqModel)),
+  imageToPrompt: args => generateDirectImagePrompt(args, groqComplete(args.bearer, args.groqModel)),
+  translate: args => translateMetadata(args, groqComplete(args.bearer, args.groqModel)),
+  testKey: apiKey => testChatKey(GROQ_API, apiKey, 'meta-llama/llama-4-maverick-17b-128e-instruct'),
+  listModels: apiKey => listChatModels(GROQ_API, apiKey, GroqModelEnum.options)
+};
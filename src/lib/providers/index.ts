@@ -0,0 +1,36 @@
+// Provider registry - routes dispatch through getProvider() instead of branching on the provider id
+
+import type { Provider } from '../types';
+import type { MetadataProvider } from './types';
+import { geminiProvider } from './gemini';
+import { mistralProvider } from './mistral';
+import { groqProvider } from './groq';
+import { openaiCompatibleProvider } from './openai-compatible';
+import { mockProvider } from './mock';
+
+export type { MetadataProvider, KeyTestResult, ProviderEndpoint } from './types';
+
+const PROVIDERS: Record<Provider, MetadataProvider> = {
+  gemini: geminiProvider,
+  mistral: mistralProvider,
+  groq: groqProvider,
+  openai: openaiCompatibleProvider,
+  mock: mockProvider
+};
+
+export const PROVIDER_LIST: MetadataProvider[] = Object.values(PROVIDERS);
+
+/**
+ * Provider implementation for an id (ids are validated with ProviderEnum at the route boundary)
+ */
+export function getProvider(id: Provider): MetadataProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * Provider used for image-to-prompt captioning: the selected one if it has vision, otherwise Gemini
+ */
+export function getVisionProvider(id: Provider): MetadataProvider {
+  const selected = getProvider(id);
+  return selected.visionCaption ? selected : geminiProvider;
+}
@@ -0,0 +1,63 @@
+// Mistral provider - text-only; image-to-prompt captioning is done by a vision provider
+
+import { buildUserPrompt, asModelOut, fallback, generateImagePrompt, translateMetadata, type ModelArgs, type ModelOut, type PromptWriterArgs, type TranslateArgs } from '../models';
+import { MistralModelEnum } from '../types';
+import { chatComplete, testChatKey, listChatModels, readChatUsage } from './chat-completions';
+import type { MetadataProvider } from './types';
+import { providerFetch } from './fixtures';
+
+const MISTRAL_API = 'https://api.mistral.ai/v1';
+
+async function generateWithMistral(a: ModelArgs): Promise<ModelOut> {
+  // Use bearer token if provided and not empty, otherwise fall back to environment variable
+  const key = (a.bearer && a.bearer.trim().length > 0) ? a.bearer.trim() : process.env.MISTRAL_API_KEY;
+  if (!key || key.trim().length === 0) {
+    throw new Error('MISTRAL_API_KEY missing. Please provide an API key via Authorization header or set MISTRAL_API_KEY environment variable.');
+  }
+
+  // Respect the selected Mistral model when provided; fall back to small latest.
+  const modelName = a.mistralModel || 'mistral-small-latest';
+
+  const body = {
+    model: modelName,
+    temperature: 0.7,
+    messages: [
+      { role: 'system', content: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}' },
+      { role: 'user', content: buildUserPrompt(a) }
+    ]
+  };
+
+  const res = await providerFetch(`${MISTRAL_API}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${key}` },
+    body: JSON.stringify(body),
+    signal: a.signal
+  });
+  if (!res.ok) return fallback(a);
+
+  const data = await res.json();
+  const text = data?.choices?.[0]?.message?.content ?? '{}';
+  try { return { ...asModelOut(JSON.parse(text)), usage: readChatUsage(data) }; } catch { return fallback(a); }
+}
+
+export const mistralProvider: MetadataProvider = {
+  id: 'mistral',
+  label: 'Mistral',
+  generate: generateWithMistral,
+  writePrompt(args: PromptWriterArgs) {
+    const key = args.bearer || process.env.MISTRAL_API_KEY;
+    return generateImagePrompt(args, req => {
+      if (!key) throw new Error('No Mistral API key available');
+      return chatComplete(MISTRAL_API, key, args.mistralModel || 'mistral-large-latest', req, 'Mistral');
+    });
+  },
+  translate(args: TranslateArgs) {
+    const key = args.bearer || process.env.MISTRAL_API_KEY;
+    return translateMetadata(args, req => {
+      if (!key) throw new Error('No Mistral API key available');
+      return chatComplete(MISTRAL_API, key, args.mistralModel || 'mistral-small-latest', req, 'Mistral');
+    });
+  },
+  testKey: apiKey => testChatKey(MISTRAL_API, apiKey, 'mistral-small-latest'),
+  listModels: apiKey => listChatModels(MISTRAL_API, apiKey, MistralModelEnum.options)
+};
@@ -0,0 +1,142 @@
+// Mock provider - deterministic metadata from the filename and settings, no network or API key.
+// Same input always gives the same output, so the route's post-processing can be exercised offline.
+
+import { createHash } from 'crypto';
+import { filenameHints, dedupe } from '../util';
+import { PLATFORMS } from '../platforms';
+import type {
+  ModelArgs,
+  ModelOut,
+  VisionCaptionArgs,
+  VisionCaptionOutput,
+  PromptWriterArgs,
+  PromptWriterOutput,
+  TranslateArgs
+} from '../models';
+import type { MetadataProvider } from './types';
+
+const MOCK_MODEL = 'mock-deterministic';
+
+// Filler vocabulary; picked by a hash of the input so different files get different but stable keywords
+const MOCK_KEYWORDS = [
+  'background', 'closeup', 'detail', 'texture', 'natural', 'bright', 'colorful', 'modern',
+  'outdoor', 'indoor', 'concept', 'creative', 'minimal', 'vibrant', 'soft light', 'copy space',
+  'horizontal', 'nobody', 'daylight', 'abstract', 'organic', 'fresh', 'studio', 'clean',
+  'simple', 'elegant', 'high resolution', 'pattern', 'seasonal', 'lifestyle', 'scenic', 'calm'
+];
+
+const ASSET_NOUN: Record<ModelArgs['assetType'], string> = {
+  photo: 'photo',
+  illustration: 'illustration',
+  vector: 'vector illustration',
+  '3d': '3D render',
+  icon: 'icon',
+  video: 'video footage'
+};
+
+function seedOf(...parts: string[]): number {
+  return parseInt(createHash('sha256').update(parts.join('|')).digest('hex').substring(0, 8), 16);
+}
+
+function pick<T>(list: readonly T[], seed: number, count: number): T[] {
+  const out: T[] = [];
+  for (let i = 0; i < count && out.length < list.length; i++) {
+    const item = list[(seed + i * 7) % list.length];
+    if (!out.includes(item)) out.push(item);
+  }
+  return out;
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Deterministic metadata. The title runs past titleLen on purpose so the route's trimming is exercised.
+ */
+function generateMock(a: ModelArgs): ModelOut {
+  if (a.existingMetadata) {
+    // Re-optimize: echo the existing metadata back so post-processing sees realistic input
+    return {
+      title: a.existingMetadata.title,
+      description: a.existingMetadata.description,
+      keywords: dedupe([...a.existingMetadata.keywords, ...filenameHints(a.filename)])
+    };
+  }
+
+  const words = filenameHints(a.filename);
+  const subject = words.slice(0, 4).join(' ') || 'stock subject';
+  const noun = ASSET_NOUN[a.assetType];
+  const seed = seedOf(a.filename, a.platform, a.assetType, String(a.keywordCount));
+  const [mood, setting] = pick(MOCK_KEYWORDS, seed, 2);
+
+  const isolation = a.isolatedOnTransparentBackground
+    ? ' isolated on transparent background'
+    : a.isolatedOnWhiteBackground
+    ? ' isolated on white background'
+    : '';
+  const title = `${capitalize(subject)} ${noun}${isolation} with ${mood} ${setting} details for ${PLATFORMS[a.platform].label} collections and commercial design projects`;
+  const description = `${capitalize(noun)} of ${subject}${isolation}, ${mood} and ${setting}, suitable for web, print and editorial use.`;
+
+  const target = a.keywordMode === 'auto' ? 30 : a.keywordCount;
+  const keywords = dedupe([
+    ...words,
+    ...noun.split(' '),
+    ...(a.isVector ? ['vector'] : []),
+    ...(a.isIllustration ? ['illustration'] : []),
+    ...pick(MOCK_KEYWORDS, seed, MOCK_KEYWORDS.length)
+  ]).slice(0, target);
+
+  return { title, description, keywords };
+}
+
+function mockCaption(args: VisionCaptionArgs): VisionCaptionOutput {
+  const seed = seedOf(args.imageUrl || '', (args.imageData || '').substring(0, 4096), args.assetType);
+  const [mood, setting, texture] = pick(MOCK_KEYWORDS, seed, 3);
+  return {
+    summary: `A ${mood} ${args.assetType} with ${setting} details`,
+    subject: `${mood} subject`,
+    environment: setting,
+    composition: 'centered subject, rule of thirds',
+    camera: '50mm lens, eye level',
+    lighting: 'soft diffused daylight',
+    colors: 'balanced natural palette',
+    materials_textures: texture,
+    style: 'photorealistic',
+    details: [mood, setting, texture]
+  };
+}
+
+function mockPrompt(args: PromptWriterArgs): PromptWriterOutput {
+  const c = args.caption;
+  if (c.error) {
+    return { prompt: '', negative_prompt: '', title: '', keywords: [], error: c.error };
+  }
+  const prompt = [c.summary, c.environment, c.composition, c.camera, c.lighting, c.colors, c.materials_textures, c.style]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    prompt,
+    negative_prompt: args.negativePolicy,
+    title: capitalize(c.summary),
+    keywords: dedupe(c.details)
+  };
+}
+
+/**
+ * No offline dictionary: the "translation" is the source metadata, so per-language rows and
+ * exports can still be exercised without a model.
+ */
+function mockTranslate(args: TranslateArgs): ModelOut {
+  return { ...args.metadata, keywords: [...args.metadata.keywords] };
+}
+
+export const mockProvider: MetadataProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  keyOptional: true,
+  generate: async a => generateMock(a),
+  visionCaption: async args => mockCaption(args),
+  writePrompt: async args => mockPrompt(args),
+  translate: async args => mockTranslate(args),
+  testKey: async () => ({ success: true, message: 'Mock provider needs no API key' }),
+  listModels: async () => [MOCK_MODEL]
+};
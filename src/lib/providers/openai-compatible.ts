@@ -0,0 +1,130 @@
+// OpenAI-compatible provider - any /v1/chat/completions server (Ollama, LM Studio, vLLM, llama.cpp, ...)
+// Base URL and model are user-configured; the API key is optional for local servers.
+
+import {
+  buildUserPrompt,
+  asModelOut,
+  fallback,
+  generateVisionCaption,
+  generateImagePrompt,
+  translateMetadata,
+  type ModelArgs,
+  type ModelOut,
+  type CompleteFn
+} from '../models';
+import { chatComplete, chatCompleteWithUsage, testChatKey, listChatModels } from './chat-completions';
+import type { MetadataProvider, ProviderEndpoint } from './types';
+import { isAbortError } from '../util';
+import { logger } from '../logger';
+
+// Ollama's default OpenAI endpoint; override with OPENAI_COMPAT_BASE_URL
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+type ResolvedEndpoint = {
+  baseUrl: string;
+  model: string;
+  serverConfigured: boolean;  // baseUrl is the server's own (env/default), not one sent by the client
+};
+
+const trimBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+// Base URLs a client may send (OPENAI_COMPAT_ALLOWED_BASE_URLS, comma-separated)
+function allowedBaseUrls(): string[] {
+  return (process.env.OPENAI_COMPAT_ALLOWED_BASE_URLS || '').split(',').map(trimBaseUrl).filter(Boolean);
+}
+
+// A client-supplied base URL must be on the allowlist; without one it is only accepted outside production
+function resolveEndpoint(endpoint: ProviderEndpoint = {}): ResolvedEndpoint {
+  const serverBaseUrl = trimBaseUrl(process.env.OPENAI_COMPAT_BASE_URL || DEFAULT_BASE_URL);
+  const requested = endpoint.baseUrl?.trim() ? trimBaseUrl(endpoint.baseUrl) : '';
+  if (requested && requested !== serverBaseUrl) {
+    const allowed = allowedBaseUrls();
+    const permitted = allowed.length > 0 ? allowed.includes(requested) : process.env.NODE_ENV !== 'production';
+    if (!permitted) {
+      throw new Error(`Base URL ${requested} is not allowed on this server. Add it to OPENAI_COMPAT_ALLOWED_BASE_URLS.`);
+    }
+  }
+  const baseUrl = requested || serverBaseUrl;
+  const model = endpoint.model?.trim() || process.env.OPENAI_COMPAT_MODEL || '';
+  return { baseUrl, model, serverConfigured: baseUrl === serverBaseUrl };
+}
+
+// The server's key is only ever sent to the server's own base URL, never to a client-supplied one
+function resolveKey(bearer: string | undefined, { serverConfigured }: ResolvedEndpoint): string | undefined {
+  const key = bearer?.trim() || (serverConfigured ? process.env.OPENAI_COMPAT_API_KEY?.trim() : undefined);
+  return key || undefined;
+}
+
+// Pull the JSON object out of replies that wrap it in ```json fences or prose (common with local models)
+function extractJson(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? candidate.substring(start, end + 1) : candidate);
+}
+
+async function generateWithOpenAICompatible(a: ModelArgs): Promise<ModelOut> {
+  const endpoint = resolveEndpoint({ baseUrl: a.openaiBaseUrl, model: a.openaiModel });
+  const { baseUrl, model } = endpoint;
+  if (!model) {
+    throw new Error('No model configured for the OpenAI-compatible provider. Set it in the "API Secrets" modal or via OPENAI_COMPAT_MODEL.');
+  }
+
+  try {
+    const { text, usage } = await chatCompleteWithUsage(baseUrl, resolveKey(a.bearer, endpoint), model, {
+      systemPrompt: 'Respond with PURE JSON only: {"title": string, "description": string, "keywords": string[]}',
+      userPrompt: buildUserPrompt(a),
+      imageData: a.imageData,
+      imageUrl: a.imageUrl,
+      temperature: 0.7,
+      maxTokens: 2048,
+      signal: a.signal
+    }, 'OpenAI-compatible');
+    return { ...asModelOut(extractJson(text)), usage };
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    const message = `OpenAI-compatible request to ${baseUrl} failed: ${error?.message || 'Unknown error'}`;
+    logger.error('OpenAI-compatible generation failed', { requestId: a.requestId, file: a.filename, error: message });
+    // With an image the metadata must come from visual analysis, so surface the error instead of guessing
+    if (a.imageData || a.imageUrl) {
+      return { title: '', description: '', keywords: [], error: message };
+    }
+    return fallback(a);
+  }
+}
+
+// Image-to-prompt transport for a request's endpoint/key
+function openaiComplete(bearer: string | undefined, endpoint: ProviderEndpoint): CompleteFn {
+  return async req => {
+    const resolved = resolveEndpoint(endpoint);
+    if (!resolved.model) throw new Error('No model configured for the OpenAI-compatible provider');
+    return chatComplete(resolved.baseUrl, resolveKey(bearer, resolved), resolved.model, { ...req, json: false }, 'OpenAI-compatible');
+  };
+}
+
+export const openaiCompatibleProvider: MetadataProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  keyOptional: true,
+  generate: generateWithOpenAICompatible,
+  visionCaption: args => generateVisionCaption(args, openaiComplete(args.bearer, { baseUrl: args.openaiBaseUrl, model: args.openaiModel })),
+  writePrompt: args => generateImagePrompt(args, openaiComplete(args.bearer, { baseUrl: args.openaiBaseUrl, model: args.openaiModel })),
+  translate: args => translateMetadata(args, openaiComplete(args.bearer, { baseUrl: args.openaiBaseUrl, model: args.openaiModel })),
+  async testKey(apiKey, endpoint) {
+    const resolved = resolveEndpoint(endpoint);
+    const { baseUrl, model } = resolved;
+    if (!model) {
+      // Without a model we can still confirm the server answers
+      const models = await listChatModels(baseUrl, resolveKey(apiKey, resolved), [], true);
+      return models.length
+        ? { success: true, message: `Server is reachable (${models.length} model(s) available)` }
+        : { success: false, error: `No models found at ${baseUrl}. Check the base URL and that the server is running.` };
+    }
+    return testChatKey(baseUrl, resolveKey(apiKey, resolved), model);
+  },
+  async listModels(apiKey, endpoint) {
+    const resolved = resolveEndpoint(endpoint);
+    return listChatModels(resolved.baseUrl, resolveKey(apiKey, resolved), [], true);
+  }
+};
@@ -0,0 +1,47 @@
+// Provider contract - every AI backend implements this and is registered in ./index.ts
+
+import type { Provider } from '../types';
+import type {
+  ModelArgs,
+  ModelOut,
+  VisionCaptionArgs,
+  VisionCaptionOutput,
+  PromptWriterArgs,
+  PromptWriterOutput,
+  DirectPromptArgs,
+  TranslateArgs
+} from '../models';
+
+// Endpoint settings for providers without a fixed API (OpenAI-compatible servers)
+export type ProviderEndpoint = { baseUrl?: string; model?: string };
+
+export type KeyTestResult =
+  | { success: true; message: string }
+  | { success: false; error: string; status?: number };
+
+export interface MetadataProvider {
+  id: Provider;
+  label: string;
+  keyOptional?: boolean;      // Local servers usually run without an API key
+
+  /** Title/description/keywords for one file */
+  generate(args: ModelArgs): Promise<ModelOut>;
+
+  /** Structured vision analysis (image-to-prompt step 1). Omit if the provider can't caption images. */
+  visionCaption?(args: VisionCaptionArgs): Promise<VisionCaptionOutput>;
+
+  /** Recreation prompt from a vision caption (image-to-prompt step 2) */
+  writePrompt(args: PromptWriterArgs): Promise<PromptWriterOutput>;
+
+  /** One-step image-to-prompt; when present it replaces the caption + writer pipeline */
+  imageToPrompt?(args: DirectPromptArgs): Promise<PromptWriterOutput>;
+
+  /** Finished metadata translated into another language (translate mode and extra languages) */
+  translate(args: TranslateArgs): Promise<ModelOut>;
+
+  /** Verify an API key with a minimal request */
+  testKey(apiKey: string, endpoint?: ProviderEndpoint): Promise<KeyTestResult>;
+
+  /** Model ids usable for generation (static list when no key is given or the lookup fails) */
+  listModels(apiKey?: string, endpoint?: ProviderEndpoint): Promise<string[]>;
+}
@@ -0,0 +1,162 @@
+// Adaptive per-key rate limiter shared by all providers.
+// Every provider response is fed to observe(); Retry-After and x-ratelimit-* headers decide when
+// that key may be called again, so a throttled key waits exactly as long as the provider asks
+// while other keys keep working.
+import { createHash } from 'crypto';
+import { sleep } from './util';
+import { logger } from './logger';
+
+const DEFAULT_429_WAIT_MS = 5000;     // 429 without any timing headers
+export const MAX_WAIT_MS = 10 * 60 * 1000; // Never wait longer than this for a key (daily quotas are reported as errors instead)
+const LOW_TOKENS_THRESHOLD = 1500;    // Roughly one vision request; pause until reset below this
+const SCOPE_TTL = 30 * 60 * 1000;     // Forget idle keys after 30 minutes
+
+interface ScopeState {
+  nextAllowedAt: number;   // epoch ms before which no call should be made with this key
+  reason?: string;
+  updatedAt: number;
+}
+
+/**
+ * Parse a rate-limit duration: "7.66s", "1m2.5s", "2h0m0s", "120ms" or a bare number of seconds
+ */
+export function parseDuration(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const v = value.trim();
+  if (/^\d+(\.\d+)?$/.test(v)) return Math.round(parseFloat(v) * 1000);
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  for (const m of v.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(m[1]) * units[m[2]];
+    matched += m[0];
+  }
+  return matched.length > 0 && matched.length === v.length ? Math.round(total) : undefined;
+}
+
+/**
+ * Retry-After header in ms (delta-seconds or HTTP date)
+ */
+export function retryAfterMs(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = parseDuration(value);
+  if (seconds !== undefined) return seconds;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * A provider asked to retry later than MAX_WAIT_MS (usually a daily quota) - too long to wait out in a request
+ */
+export function exceedsMaxWait(retryAfterMs: number | undefined): boolean {
+  return retryAfterMs !== undefined && retryAfterMs > MAX_WAIT_MS;
+}
+
+/**
+ * Quota error reported instead of sleeping through a retry wait above MAX_WAIT_MS
+ */
+export function quotaWaitError(error: any): Error {
+  const minutes = Math.ceil((error?.retryAfterMs ?? MAX_WAIT_MS) / 60000);
+  const quotaError: any = new Error(
+    `Quota exhausted for this API key: the provider asks to wait ${minutes} min before retrying. Use a different key or try again later. Original error: ${error?.message || 'unknown error'}`
+  );
+  quotaError.status = error?.status ?? 429;
+  quotaError.retryAfterMs = error?.retryAfterMs;
+  quotaError.isQuotaExhausted = true;
+  return quotaError;
+}
+
+/**
+ * Limiter scope for a provider call: API host + a hash of the key (never the key itself)
+ */
+export function rateLimitScope(url: string, init: RequestInit = {}): string {
+  let host = url;
+  let key = '';
+  try {
+    const u = new URL(url);
+    host = u.host;
+    key = u.searchParams.get('key') || '';
+  } catch {
+    // Keep the raw URL as scope
+  }
+  const headers = new Headers(init.headers);
+  const auth = headers.get('authorization') || headers.get('x-api-key') || headers.get('x-goog-api-key') || '';
+  key = key || auth.replace(/^Bearer\s+/i, '');
+  const keyHash = key ? createHash('sha256').update(key).digest('hex').substring(0, 12) : 'env';
+  return `${host}:${keyHash}`;
+}
+
+class RateLimiter {
+  private scopes: Map<string, ScopeState> = new Map();
+
+  // Wait until the key is allowed to make another call (rejects if the signal aborts first)
+  async acquire(scope: string, signal?: AbortSignal): Promise<void> {
+    const state = this.scopes.get(scope);
+    const wait = state ? state.nextAllowedAt - Date.now() : 0;
+    if (wait > 0) {
+      logger.info('Waiting for provider rate limit', { scope, waitMs: wait, reason: state?.reason || 'provider limit' });
+      await sleep(wait, signal);
+    }
+  }
+
+  // Update a key's schedule from a provider response; returns the wait now in effect (ms)
+  observe(scope: string, status: number, headers: Headers): number {
+    const now = Date.now();
+    let wait = 0;
+    let reason: string | undefined;
+
+    const retryAfter = retryAfterMs(headers);
+    if (retryAfter !== undefined && (status === 429 || status === 503)) {
+      wait = retryAfter;
+      reason = `Retry-After (${status})`;
+    } else {
+      // x-ratelimit-remaining-<bucket> / x-ratelimit-reset-<bucket>, e.g. requests, tokens
+      const exhausted: number[] = [];
+      headers.forEach((value, name) => {
+        const bucket = name.toLowerCase().match(/^x-ratelimit-remaining-(.+)$/)?.[1];
+        if (!bucket) return;
+        const remaining = parseFloat(value);
+        if (isNaN(remaining)) return;
+        const isLow = remaining <= 0 || (bucket.startsWith('tokens') && remaining < LOW_TOKENS_THRESHOLD);
+        if (!isLow && status !== 429) return;
+        const reset = parseDuration(headers.get(`x-ratelimit-reset-${bucket}`));
+        if (reset !== undefined) exhausted.push(reset);
+      });
+      if (exhausted.length > 0) {
+        wait = Math.max(...exhausted);
+        reason = status === 429 ? 'rate limited (429)' : 'quota nearly used';
+      } else if (status === 429) {
+        wait = DEFAULT_429_WAIT_MS;
+        reason = 'rate limited (429), no timing headers';
+      }
+    }
+
+    wait = Math.min(wait, MAX_WAIT_MS);
+    const state = this.scopes.get(scope);
+    const nextAllowedAt = Math.max(state?.nextAllowedAt ?? 0, now + wait);
+    this.scopes.set(scope, { nextAllowedAt, reason: wait > 0 ? reason : state?.reason, updatedAt: now });
+    return Math.max(0, nextAllowedAt - now);
+  }
+
+  // Remove keys that have not been used recently
+  cleanup(): void {
+    const cutoff = Date.now() - SCOPE_TTL;
+    for (const [scope, state] of this.scopes.entries()) {
+      if (state.updatedAt < cutoff && state.nextAllowedAt < Date.now()) {
+        this.scopes.delete(scope);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const rateLimiter = new RateLimiter();
+
+// Cleanup idle keys every 10 minutes
+if (typeof setInterval !== 'undefined') {
+  setInterval(() => {
+    rateLimiter.cleanup();
+  }, 10 * 60 * 1000);
+}
@@ -1,10 +1,21 @@
 // Client-side SSE connection for retry events
 'use client';
 
+// Random per-session batch ID; sent with /api/generate requests so the server only
+// streams this session's retry events back to it
+function createBatchId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
 export class RetrySSEClient {
+  readonly batchId = createBatchId();
   private eventSource: EventSource | null = null;
   private listeners: Map<string, Set<(event: any) => void>> = new Map();
   private connected = false;
+  private lastEventId: string | null = null;
 
   connect(): void {
     // Only connect once for all files
@@ -15,14 +26,20 @@ export class RetrySSEClient {
     // Close existing connection if any
     this.disconnect();
 
-    // Connect without filename filter to get all events
-    const url = `/api/retry-events`;
+    // Subscribe to this session's batch only. EventSource resends Last-Event-ID on its own
+    // reconnects; manual reconnects pass it as a query param so missed events are replayed.
+    const params = new URLSearchParams({ batchId: this.batchId });
+    if (this.lastEventId) params.set('lastEventId', this.lastEventId);
+    const url = `/api/retry-events?${params.toString()}`;
     this.eventSource = new EventSource(url);
     this.connected = true;
 
     this.eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
+        if (event.lastEventId) {
+          this.lastEventId = event.lastEventId;
+        }
         
         if (data.type === 'retry-event' && data.filename) {
           // Notify listeners for the specific filename
@@ -1,5 +1,7 @@
 // Retry event tracker for real-time retry attempt updates
-// Uses in-memory storage to track retry attempts per request
+// Uses in-memory storage to track retry attempts per request.
+// Events are scoped to the batch (browser session) that started the request, so clients only
+// ever see their own files; a short per-batch history lets reconnecting clients catch up.
 
 interface RetryEvent {
   requestId: string;
@@ -11,36 +13,76 @@ interface RetryEvent {
   status: 'retrying' | 'success' | 'failed';
 }
 
+// What subscribers receive: the event plus its batch and a sequence id (used as the SSE event id)
+export interface ScopedRetryEvent extends RetryEvent {
+  id: number;
+  batchId: string;
+  timestamp: number;
+}
+
+const HISTORY_LIMIT = 200;          // Events kept per batch for Last-Event-ID replay
+const EVENT_TTL = 5 * 60 * 1000;    // 5 minutes
+
 class RetryTracker {
   private events: Map<string, RetryEvent> = new Map();
-  private listeners: Set<(event: RetryEvent) => void> = new Set();
+  private requestBatches: Map<string, string> = new Map();
+  private history: Map<string, ScopedRetryEvent[]> = new Map();
+  private listeners: Map<string, Set<(event: ScopedRetryEvent) => void>> = new Map();
+  private nextId = 1;
 
-  // Generate unique request ID
-  generateRequestId(filename: string): string {
-    return `${filename}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Generate unique request ID and bind it to the caller's batch.
+  // Without a batch ID the request gets a private one, so its events reach no other client.
+  generateRequestId(filename: string, batchId?: string): string {
+    const requestId = `${filename}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.requestBatches.set(requestId, batchId || `anon-${requestId}`);
+    return requestId;
   }
 
-  // Emit retry event
+  // Emit retry event to the request's batch only
   emit(event: RetryEvent): void {
     this.events.set(event.requestId, event);
-    
-    // Notify all listeners
-    this.listeners.forEach(listener => {
+
+    const batchId = this.requestBatches.get(event.requestId);
+    if (!batchId) return;
+
+    const scoped: ScopedRetryEvent = { ...event, id: this.nextId++, batchId, timestamp: Date.now() };
+    const batchHistory = this.history.get(batchId) || [];
+    batchHistory.push(scoped);
+    if (batchHistory.length > HISTORY_LIMIT) batchHistory.splice(0, batchHistory.length - HISTORY_LIMIT);
+    this.history.set(batchId, batchHistory);
+
+    // Notify this batch's listeners
+    this.listeners.get(batchId)?.forEach(listener => {
       try {
-        listener(event);
+        listener(scoped);
       } catch (error) {
         console.error('Error in retry event listener:', error);
       }
     });
   }
 
-  // Subscribe to retry events
-  subscribe(listener: (event: RetryEvent) => void): () => void {
-    this.listeners.add(listener);
-    
+  // Subscribe to a batch's retry events; events after lastEventId are replayed first
+  subscribe(batchId: string, listener: (event: ScopedRetryEvent) => void, lastEventId?: number): () => void {
+    if (lastEventId !== undefined) {
+      for (const event of this.history.get(batchId) || []) {
+        if (event.id > lastEventId) listener(event);
+      }
+    }
+
+    if (!this.listeners.has(batchId)) {
+      this.listeners.set(batchId, new Set());
+    }
+    this.listeners.get(batchId)!.add(listener);
+
     // Return unsubscribe function
     return () => {
-      this.listeners.delete(listener);
+      const batchListeners = this.listeners.get(batchId);
+      if (batchListeners) {
+        batchListeners.delete(listener);
+        if (batchListeners.size === 0) {
+          this.listeners.delete(batchId);
+        }
+      }
     };
   }
 
@@ -49,31 +91,40 @@ class RetryTracker {
     return this.events.get(requestId);
   }
 
-  // Get all active retries for a filename
-  getActiveRetries(filename: string): RetryEvent[] {
+  // Get all active retries for a filename within a batch
+  getActiveRetries(batchId: string, filename: string): RetryEvent[] {
     return Array.from(this.events.values())
-      .filter(e => e.filename === filename && e.status === 'retrying');
+      .filter(e => e.filename === filename && e.status === 'retrying' && this.requestBatches.get(e.requestId) === batchId);
   }
 
   // Clean up old events (older than 5 minutes)
   cleanup(): void {
-    const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-    for (const [requestId, event] of this.events.entries()) {
+    const cutoff = Date.now() - EVENT_TTL;
+    for (const requestId of this.requestBatches.keys()) {
       // Extract timestamp from requestId (format: filename-timestamp-random)
       const parts = requestId.split('-');
       if (parts.length >= 2) {
         const timestamp = parseInt(parts[parts.length - 2]);
-        if (timestamp && timestamp < fiveMinutesAgo) {
+        if (timestamp && timestamp < cutoff) {
           this.events.delete(requestId);
+          this.requestBatches.delete(requestId);
         }
       }
     }
+    for (const [batchId, events] of this.history.entries()) {
+      const recent = events.filter(e => e.timestamp >= cutoff);
+      if (recent.length === 0) {
+        this.history.delete(batchId);
+      } else {
+        this.history.set(batchId, recent);
+      }
+    }
   }
 
-  // Clear all events for a filename
-  clearForFilename(filename: string): void {
+  // Clear all events for a filename within a batch
+  clearForFilename(batchId: string, filename: string): void {
     for (const [requestId, event] of this.events.entries()) {
-      if (event.filename === filename) {
+      if (event.filename === filename && this.requestBatches.get(requestId) === batchId) {
         this.events.delete(requestId);
       }
     }
@@ -89,4 +140,3 @@ if (typeof setInterval !== 'undefined') {
     retryTracker.cleanup();
   }, 60 * 1000);
 }
-
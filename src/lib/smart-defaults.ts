@@ -1,13 +1,14 @@
 // Smart defaults - auto-detect optimal settings based on file type and content
 
-import type { FormState } from './types';
+import type { FormState, Platform } from './types';
+import { PLATFORMS } from './platforms';
 
 /**
  * Detect optimal settings based on file extension and platform
  */
 export function getSmartDefaults(
   files: Array<{ name: string; ext?: string }>,
-  platform: 'general' | 'adobe' | 'shutterstock'
+  platform: Platform
 ): Partial<FormState> {
   if (files.length === 0) return {};
   
@@ -51,6 +52,13 @@ export function getSmartDefaults(
     defaults.keywordMode = 'fixed';
     defaults.keywordCount = 35;
     defaults.model = { provider: 'groq', preview: false };
+  } else {
+    // Other agencies: general defaults clamped to the agency's limits
+    const { limits } = PLATFORMS[platform];
+    defaults.titleLen = Math.min(100, limits.titleMax);
+    defaults.keywordMode = 'fixed';
+    defaults.keywordCount = Math.min(35, limits.keywordsMax);
+    defaults.model = { provider: 'groq', preview: false };
   }
   
   // Asset type specific adjustments
@@ -68,7 +76,7 @@ export function getSmartDefaults(
  * Suggest optimal settings based on historical performance
  */
 export function getOptimalSettings(
-  platform: 'general' | 'adobe' | 'shutterstock',
+  platform: Platform,
   assetType: FormState['assetType']
 ): Partial<FormState> {
   // These are based on best practices and can be adjusted based on analytics
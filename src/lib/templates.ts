@@ -95,8 +95,12 @@ export function createDefaultTemplates(): Template[] {
         suffix: '',
         negativeTitle: [],
         negativeKeywords: [],
+        language: 'en',
+        languageMode: 'native',
+        extraLanguages: [],
         singleMode: false,
         parallelMode: false,
+        reoptimize: false,
         videoHints: { style: [], tech: [] },
         isolatedOnTransparentBackground: false,
         isolatedOnWhiteBackground: false,
@@ -120,8 +124,12 @@ export function createDefaultTemplates(): Template[] {
         suffix: '',
         negativeTitle: [],
         negativeKeywords: [],
+        language: 'en',
+        languageMode: 'native',
+        extraLanguages: [],
         singleMode: false,
         parallelMode: false,
+        reoptimize: false,
         videoHints: { style: [], tech: [] },
         isolatedOnTransparentBackground: false,
         isolatedOnWhiteBackground: false,
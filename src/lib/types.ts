@@ -1,8 +1,22 @@
 ﻿import { z } from 'zod';
 
-export const PlatformEnum = z.enum(['general', 'adobe', 'shutterstock']);
+export const PlatformEnum = z.enum([
+  'general',
+  'adobe',
+  'shutterstock',
+  'freepik',
+  'dreamstime',
+  '123rf',
+  'depositphotos',
+  'alamy',
+  'pond5',
+  'vecteezy'
+]);
 export const AssetTypeEnum = z.enum(['auto','photo','illustration','vector','3d','icon','video']);
 
+// AI providers (implementations registered in lib/providers)
+export const ProviderEnum = z.enum(['gemini','mistral','groq','openai','mock']); // openai = any OpenAI-compatible server; mock = offline, deterministic
+
 // Model selection enums
 export const GeminiModelEnum = z.enum([
   'gemini-2.5-flash',
@@ -20,10 +34,39 @@ export const GroqModelEnum = z.enum([
   'meta-llama/llama-4-scout-17b-16e-instruct'
 ]);
 
+// Metadata languages (stopwords, stemming and prompt names in lib/languages)
+export const LanguageEnum = z.enum(['en','de','es','fr','it','pt','nl','ja']);
+// native = the model writes in the target language; translate = write English, then translate it
+export const LanguageModeEnum = z.enum(['native','translate']);
+
+export type Platform = z.infer<typeof PlatformEnum>;
+export type Language = z.infer<typeof LanguageEnum>;
+export type LanguageMode = z.infer<typeof LanguageModeEnum>;
+export type Provider = z.infer<typeof ProviderEnum>;
 export type GeminiModel = z.infer<typeof GeminiModelEnum>;
 export type MistralModel = z.infer<typeof MistralModelEnum>;
 export type GroqModel = z.infer<typeof GroqModelEnum>;
 
+// Tokens the provider reported for one generation
+export type TokenUsage = { inputTokens: number; outputTokens: number };
+
+// One platform validation rule hit for a generated row (see lib/validation-rules.ts)
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+export type ValidationIssue = {
+  ruleId: string;
+  severity: ValidationSeverity;
+  message: string;
+  fixApplied: boolean;    // the rule's auto-fix resolved it; the row already contains the fixed metadata
+};
+
+// User-managed term lists (see lib/dictionaries.ts); merged with the built-in lists
+export const CustomDictionariesSchema = z.object({
+  trademarks: z.array(z.string().max(100)).max(5000).default([]),
+  banned: z.array(z.string().max(100)).max(5000).default([]),
+  whitelist: z.array(z.string().max(100)).max(5000).default([])  // exceptions that are never flagged
+});
+export type CustomDictionaries = z.infer<typeof CustomDictionariesSchema>;
+
 export const FileSchema = z.object({
   name: z.string(),
   url: z.string().url(),
@@ -36,7 +79,7 @@ export const FormSchema = z.object({
   // UI-only: which advanced tab the user is viewing. Used to disable generation while in Text Prompt preview.
   uiTab: z.enum(['metadata','prompt']).optional().default('metadata'),
   platform: PlatformEnum,
-  model: z.object({ provider: z.enum(['gemini','mistral','groq']), preview: z.boolean().optional() }),
+  model: z.object({ provider: ProviderEnum, preview: z.boolean().optional() }),
   titleLen: z.number().min(20).max(200),
   descLen: z.literal(150),
   keywordMode: z.enum(['auto','fixed']).optional().default('fixed'),
@@ -46,8 +89,18 @@ export const FormSchema = z.object({
   suffix: z.string().optional(),
   negativeTitle: z.array(z.string()).optional().default([]),
   negativeKeywords: z.array(z.string()).optional().default([]),
+  // Metadata language, how it is produced, and extra languages translated alongside (one CSV each)
+  language: LanguageEnum.optional().default('en'),
+  languageMode: LanguageModeEnum.optional().default('native'),
+  extraLanguages: z.array(LanguageEnum).optional().default([]),
   singleMode: z.boolean().optional().default(false),
   parallelMode: z.boolean().optional().default(false),
+  // Parallel mode: provider whose keys take over once every key of the selected provider is tripped
+  failoverProvider: ProviderEnum.optional(),
+  // Hard cost cap (USD) for one run; processing stops once provider-reported spend reaches it
+  budgetUsd: z.number().positive().optional(),
+  // Send metadata already embedded in uploaded files to the model as context to improve, not replace
+  reoptimize: z.boolean().optional().default(false),
   videoHints: z.object({ style: z.array(z.string()).optional(), tech: z.array(z.string()).optional() }).optional(),
   isolatedOnTransparentBackground: z.boolean().optional().default(false),
   isolatedOnWhiteBackground: z.boolean().optional().default(false),
@@ -55,10 +108,64 @@ export const FormSchema = z.object({
   isIllustration: z.boolean().optional().default(false),
   geminiModel: GeminiModelEnum.optional(),
   mistralModel: MistralModelEnum.optional(),
-  groqModel: GroqModelEnum.optional()
+  groqModel: GroqModelEnum.optional(),
+  // OpenAI-compatible provider (Ollama, LM Studio, vLLM, ...): free-form endpoint and model name
+  openaiBaseUrl: z.string().optional(),
+  openaiModel: z.string().optional()
 });
 
 export type FormState = z.infer<typeof FormSchema>;
 
+// POST /api/generate body (also what POST /api/jobs enqueues)
+export const GenerateRequestSchema = z.object({
+  platform: PlatformEnum,
+  titleLen: z.number().min(20).max(200),
+  descLen: z.literal(150),
+  keywordMode: z.enum(['auto','fixed']).optional().default('fixed'),
+  keywordCount: z.number().min(5).max(49),
+  assetType: z.enum(['auto','photo','illustration','vector','3d','icon','video']),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  negativeTitle: z.array(z.string()).optional().default([]),
+  negativeKeywords: z.array(z.string()).optional().default([]),
+  dictionary: CustomDictionariesSchema.optional(), // Custom trademark/banned lists and whitelist
+  language: LanguageEnum.optional().default('en'),
+  languageMode: LanguageModeEnum.optional().default('native'),
+  extraLanguages: z.array(LanguageEnum).max(7).optional().default([]), // Translated copies returned in row.translations
+  model: z.object({ provider: ProviderEnum, preview: z.boolean().optional() }),
+  geminiModel: GeminiModelEnum.optional(),
+  mistralModel: MistralModelEnum.optional(),
+  groqModel: GroqModelEnum.optional(),
+  openaiBaseUrl: z.string().optional(),
+  openaiModel: z.string().optional(),
+  files: z.array(z.object({ 
+    name: z.string(), 
+    type: z.string(), 
+    url: z.string(), 
+    ext: z.string().optional(),
+    imageData: z.string().optional(), // Base64 image data from client
+    // Metadata already embedded in the file (re-optimize mode)
+    existingMetadata: z.object({
+      title: z.string(),
+      description: z.string(),
+      keywords: z.array(z.string())
+    }).optional()
+  })),
+  videoHints: z.object({ style: z.array(z.string()).optional(), tech: z.array(z.string()).optional() }).optional(),
+  singleMode: z.boolean().optional(),
+  isolatedOnTransparentBackground: z.boolean().optional().default(false),
+  isolatedOnWhiteBackground: z.boolean().optional().default(false),
+  isVector: z.boolean().optional().default(false),
+  isIllustration: z.boolean().optional().default(false),
+  budgetUsd: z.number().positive().optional(), // Files are skipped once the batch's spend reaches it
+  budgetSpentUsd: z.number().nonnegative().optional(), // Batch spend before this request (the client sends one file per request)
+  forceRegenerate: z.boolean().optional(), // Skip the generation cache and always call the model
+  promptVersion: z.string().max(100).optional(), // Prompt builder to use (see PROMPT_BUILDERS); set by /api/eval
+  userId: z.string().optional(), // Firebase user ID for tracking
+  userDisplayName: z.string().optional(), // User display name
+  userEmail: z.string().optional(), // User email
+  userPhotoURL: z.string().optional(), // User photo URL
+  retryBatchId: z.string().max(100).optional() // Scopes retry events to the caller's /api/retry-events stream
+});
 
-
+export type GenerateRequest = z.infer<typeof GenerateRequestSchema>;
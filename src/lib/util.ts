@@ -1,9 +1,34 @@
 // src/lib/util.ts
+import type { Platform } from './types';
+import { TermDictionary, TITLE_FILLER_TERMS, KEYWORD_FILLER_TERMS } from './dictionaries';
+import { PLATFORMS } from './platforms';
+import { keywordKey } from './languages';
+
 export const clamp = (n: number, min: number, max: number) =>
   Math.min(max, Math.max(min, n));
 
 export const dedupe = <T,>(arr: T[]) => Array.from(new Set(arr));
 
+/**
+ * Wait ms milliseconds; rejects with the signal's AbortError as soon as it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
 export const sanitizeWords = (words: string[]) =>
   dedupe(words.map(w => String(w).trim().toLowerCase()).filter(Boolean));
 
@@ -69,6 +94,38 @@ export const truncateByChars = (s: string, max: number, flexibleLimit?: number,
   return truncated.trimEnd() + '…';
 };
 
+/** Strict title cap that tries to keep a clean ending within the max length. */
+export function strictTrimTitleToMax(input: string, max: number): string {
+  let t = String(input || '').trim().replace(/\s+/g, ' ');
+  if (t.length <= max) return t;
+
+  const slice = t.slice(0, max).trimEnd();
+
+  // Prefer ending at a sentence boundary within the limit.
+  for (let i = slice.length; i >= Math.max(0, Math.floor(max * 0.7)); i--) {
+    const c = slice[i - 1];
+    if (c === '.' || c === '!' || c === '?') {
+      return slice.slice(0, i).trimEnd();
+    }
+  }
+
+  // Otherwise, end at the last word boundary.
+  const lastSpace = slice.lastIndexOf(' ');
+  t = (lastSpace > Math.floor(max * 0.6) ? slice.slice(0, lastSpace) : slice).trimEnd();
+
+  // Cleanup: remove trailing punctuation and dangling connector words.
+  for (let i = 0; i < 5; i++) {
+    const before = t;
+    t = t.replace(/[,\-–—:;]+$/g, '').trimEnd();
+    t = t.replace(/\b(by|with|and|or|of|to|for|from|in|on|at|into|as)$/i, '').trimEnd();
+    if (t === before) break;
+  }
+
+  // Final safety: ensure we don't exceed max after trimming (shouldn't happen, but keep safe).
+  if (t.length > max) t = t.slice(0, max).trimEnd();
+  return t;
+}
+
 // Junk tokens that must NOT become subject hints
 const STOP = new Set([
   'generated','generate','image','img','photo','photograph','picture','wallpaper',
@@ -242,15 +299,17 @@ export interface TitleQualityScore {
 }
 
 const GENERIC_WORDS = new Set(['design', 'graphic', 'image', 'photo', 'picture', 'element', 'item', 'object', 'thing']);
-// Minimal banned words - only AI model names
-const BANNED_IN_TITLE = new Set(['gemini', 'mistral']);
+// Built-in trademark/banned lists for the quality scores (created on first use - dictionaries.ts
+// imports this module, so its exports must not be touched at load time)
+let builtinTerms: TermDictionary | undefined;
+const builtinDictionary = () => (builtinTerms ??= new TermDictionary());
 
 export function scoreTitleQuality(
   title: string, 
   filename: string, 
   expectedLength: number,
   hasImage: boolean,
-  platform?: 'general' | 'adobe' | 'shutterstock'
+  platform?: Platform
 ): TitleQualityScore {
   const issues: string[] = [];
   const strengths: string[] = [];
@@ -279,11 +338,9 @@ export function scoreTitleQuality(
   
   // Check for banned words
   const titleLower = title.toLowerCase();
-  for (const banned of BANNED_IN_TITLE) {
-    if (titleLower.includes(banned)) {
-      issues.push(`Contains banned word: "${banned}"`);
-      score -= 10;
-    }
+  for (const banned of builtinDictionary().find('banned', title)) {
+    issues.push(`Contains banned word: "${banned}"`);
+    score -= 10;
   }
   
   // Check for generic words (too many = bad)
@@ -345,16 +402,8 @@ export function scoreTitleQuality(
       }
     }
     
-    // Check for third-party IP (basic brand detection)
-    const COMMON_BRANDS = new Set([
-      'apple', 'google', 'microsoft', 'amazon', 'facebook', 'meta', 'twitter', 'x', 'instagram',
-      'youtube', 'netflix', 'disney', 'nike', 'adidas', 'coca-cola', 'pepsi', 'starbucks',
-      'mcdonalds', 'burger king', 'toyota', 'honda', 'ford', 'tesla', 'bmw', 'mercedes',
-      'samsung', 'sony', 'nintendo', 'playstation', 'xbox', 'iphone', 'ipad', 'android',
-      'windows', 'macos', 'linux', 'adobe', 'photoshop', 'illustrator'
-    ]);
-    const titleWordsForIP = titleLower.split(/\W+/).filter(w => w.length > 2);
-    const foundBrands = titleWordsForIP.filter(w => COMMON_BRANDS.has(w));
+    // Check for third-party IP (brand detection)
+    const foundBrands = builtinDictionary().find('trademarks', title);
     if (foundBrands.length > 0) {
       issues.push(`Adobe Stock: Title contains third-party IP/brand names: ${foundBrands.join(', ')} (prohibited)`);
       score -= 25;
@@ -400,12 +449,11 @@ export interface KeywordQualityScore {
   strengths: string[];
 }
 
-const BANNED_KEYWORDS = new Set(['professional', 'high quality', 'stock', 'commercial', 'royalty free', 'royalty-free', 'image', 'photo', 'photograph', 'picture', 'generated', 'gemini', 'mistral']);
-
 export function scoreKeywordQuality(
   keywords: string[],
   expectedCount: number,
-  title?: string
+  title?: string,
+  platform?: Platform
 ): KeywordQualityScore {
   const issues: string[] = [];
   const strengths: string[] = [];
@@ -433,8 +481,24 @@ export function scoreKeywordQuality(
     strengths.push('No duplicate keywords');
   }
   
+  // Singular/plural pairs ("flower", "flowers") waste a slot unless the platform keeps both
+  const allowPlurals = platform ? PLATFORMS[platform].allowPluralVariants ?? false : false;
+  const seenKeys = new Map<string, string>();
+  const pairs: string[] = [];
+  for (const k of new Set(lowerKeywords)) {
+    const key = keywordKey(k, 'en', allowPlurals);
+    const other = seenKeys.get(key);
+    if (other) pairs.push(`${other}/${k}`);
+    else seenKeys.set(key, k);
+  }
+  if (pairs.length > 0) {
+    issues.push(`Singular/plural duplicates: ${pairs.join(', ')}`);
+    score -= 5;
+  }
+  
   // Check for banned keywords
-  const bannedFound = keywords.filter(k => BANNED_KEYWORDS.has(k.toLowerCase()));
+  const filler = new Set([...TITLE_FILLER_TERMS, ...KEYWORD_FILLER_TERMS]);
+  const bannedFound = keywords.filter(k => filler.has(k.toLowerCase()) || builtinDictionary().has('banned', k));
   if (bannedFound.length > 0) {
     issues.push(`Banned keywords: ${bannedFound.join(', ')}`);
     score -= 15;
@@ -460,8 +524,8 @@ export function scoreKeywordQuality(
       .replace(/[^\w\s]/g, ' ')
       .split(/\s+/)
       .filter(w => w.length >= 3);
-    const keywordSet = new Set(lowerKeywords);
-    const matchingTitleWords = titleWords.filter(w => keywordSet.has(w));
+    const keywordSet = new Set(lowerKeywords.map(k => keywordKey(k)));
+    const matchingTitleWords = titleWords.filter(w => keywordSet.has(keywordKey(w)));
     if (matchingTitleWords.length > 0) {
       strengths.push(`Title words in keywords (${matchingTitleWords.length})`);
     } else if (titleWords.length > 0) {
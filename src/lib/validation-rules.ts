@@ -0,0 +1,403 @@
+// Platform validation rules - each platform declares the checks its metadata must pass.
+// A rule has a severity and may carry an auto-fix; rules run in order, so later rules see
+// metadata already fixed by earlier ones. Used by /api/generate and the evaluation harness.
+
+import { isFilenameBased, strictTrimTitleToMax } from './util';
+import { PLATFORMS } from './platforms';
+import { TermDictionary } from './dictionaries';
+import { LANGUAGES, splitWords, keywordKey } from './languages';
+import type { Language, Platform, ValidationIssue, ValidationSeverity } from './types';
+
+export type Metadata = {
+  title: string;
+  description: string;
+  keywords: string[];
+};
+
+export type RuleContext = {
+  filename: string;
+  hasImage: boolean;
+  expectedKeywordCount?: number;      // fixed keyword mode only
+  limits: { titleMax: number; descMax: number; keywordsMax: number };
+  dictionary: TermDictionary;         // built-in + custom trademark/banned lists
+  language?: Language;                // metadata language (default English)
+  allowPluralVariants?: boolean;      // platform keeps "flower" and "flowers" as separate keywords
+};
+
+export interface ValidationRule {
+  id: string;
+  severity: ValidationSeverity;
+  // Issue message, or undefined when the metadata passes
+  check: (meta: Metadata, ctx: RuleContext) => string | undefined;
+  // Auto-fix; only kept when the fixed metadata passes the check
+  fix?: (meta: Metadata, ctx: RuleContext) => Metadata;
+}
+
+// Style reference patterns
+export const STYLE_REF_PATTERNS = [
+  /in the style of/i,
+  /inspired by/i,
+  /influenced by/i,
+  /similar to/i,
+  /like\s+(?:the\s+)?(?:movie|film|comic|book|game|franchise)/i,
+  /drawing on/i,
+  /in the tradition of/i
+];
+
+// Generic keywords that shouldn't dominate first 10
+export const GENERIC_KEYWORDS = new Set([
+  'design', 'graphic', 'element', 'item', 'object', 'thing', 'image', 'photo', 'picture',
+  'illustration', 'vector', 'icon', 'symbol', 'pattern', 'background', 'texture'
+]);
+
+const isPersonName = (k: string) => /^[A-Z][a-z]+\s+[A-Z][a-z]+$/.test(k);
+
+// Keywords with case-insensitive duplicates (or duplicate stems) removed, first occurrence wins
+function dedupeBy(keywords: string[], keyOf: (k: string) => string): string[] {
+  const seen = new Set<string>();
+  return keywords.filter(k => {
+    const key = keyOf(k);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function duplicatesBy(keywords: string[], keyOf: (k: string) => string): string[] {
+  const seen = new Set<string>();
+  return keywords.filter(k => {
+    const key = keyOf(k);
+    if (!seen.has(key)) {
+      seen.add(key);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Significant title words missing from the keywords (none for unspaced languages, whose titles don't split into words)
+function titleWordsMissingFromKeywords(meta: Metadata, language: Language = 'en'): { significant: string[]; missing: string[] } {
+  const { spaced, stopwords, stem } = LANGUAGES[language];
+  if (!spaced) return { significant: [], missing: [] };
+  const significant = Array.from(new Set(splitWords(meta.title).filter(w => w.length > 2 && !stopwords.has(w))));
+  const keywordStems = new Set(meta.keywords.flatMap(k => splitWords(k)).map(stem));
+  return { significant, missing: significant.filter(w => !keywordStems.has(stem(w))) };
+}
+
+// ---- Rules ----
+
+const titleRequired: ValidationRule = {
+  id: 'title-required',
+  severity: 'error',
+  check: ({ title }) => {
+    if (!title || title.trim().length === 0) return 'Title is empty';
+    if (title.length < 5) return `Title too short: ${title.length} chars (min 5)`;
+  }
+};
+
+const titleLength: ValidationRule = {
+  id: 'title-length',
+  severity: 'error',
+  check: ({ title }, { limits }) =>
+    title.length > limits.titleMax ? `Title too long: ${title.length} chars (max ${limits.titleMax})` : undefined,
+  fix: (meta, { limits }) => ({ ...meta, title: strictTrimTitleToMax(meta.title, limits.titleMax) })
+};
+
+const titleRecommendedLength = (max: number): ValidationRule => ({
+  id: 'title-recommended-length',
+  severity: 'warning',
+  check: ({ title }) =>
+    title.length > max
+      ? `Title exceeds the recommended ${max} characters (${title.length} chars). Shorter titles perform better in search.`
+      : undefined
+});
+
+const keywordListTitle: ValidationRule = {
+  id: 'keyword-list-title',
+  severity: 'warning',
+  check: ({ title }) => {
+    const commaCount = (title.match(/,/g) || []).length;
+    const semicolonCount = (title.match(/;/g) || []).length;
+    if (commaCount > 3 || semicolonCount > 1) {
+      return 'Title appears to be a keyword list (too many commas/semicolons). Use a descriptive phrase with no more than 3 commas and at most 1 semicolon.';
+    }
+  }
+};
+
+const forbiddenTerms: ValidationRule = {
+  id: 'forbidden-terms',
+  severity: 'error',
+  check: ({ title, description, keywords }, { dictionary }) => {
+    const found = Array.from(new Set(
+      [title, description, ...keywords].flatMap(text => dictionary.find('banned', text))
+    ));
+    return found.length > 0 ? `Contains banned words: ${found.join(', ')}` : undefined;
+  },
+  fix: (meta, { dictionary }) => ({
+    ...meta,
+    title: dictionary.remove(['banned'], meta.title),
+    description: dictionary.remove(['banned'], meta.description),
+    keywords: dictionary.filterKeywords(meta.keywords, ['banned'])
+  })
+};
+
+const styleReferences: ValidationRule = {
+  id: 'style-references',
+  severity: 'error',
+  check: ({ title }) =>
+    STYLE_REF_PATTERNS.some(p => p.test(title))
+      ? 'Title contains a style reference (e.g. "in the style of", "inspired by"). Referencing other creative works is prohibited.'
+      : undefined,
+  fix: meta => ({
+    ...meta,
+    title: STYLE_REF_PATTERNS.reduce((t, p) => t.replace(p, ''), meta.title).replace(/\s+/g, ' ').trim()
+  })
+};
+
+// Brand names in the title are left for review - dropping words could change its meaning
+const trademarkTitle: ValidationRule = {
+  id: 'trademark-title',
+  severity: 'error',
+  check: ({ title, description }, { dictionary }) => {
+    const found = Array.from(new Set([...dictionary.find('trademarks', title), ...dictionary.find('trademarks', description)]));
+    return found.length > 0 ? `Title or description contains third-party IP/brand names: ${found.join(', ')}` : undefined;
+  }
+};
+
+const trademarkKeywords: ValidationRule = {
+  id: 'trademark-keywords',
+  severity: 'error',
+  check: ({ keywords }, { dictionary }) => {
+    const found = keywords.filter(k => dictionary.has('trademarks', k));
+    return found.length > 0 ? `Keywords contain third-party IP/brand names: ${found.join(', ')}` : undefined;
+  },
+  fix: (meta, { dictionary }) => ({ ...meta, keywords: dictionary.filterKeywords(meta.keywords, ['trademarks']) })
+};
+
+// Simple heuristic: several capitalized words in the middle of a sentence might be names
+const personNamesTitle: ValidationRule = {
+  id: 'person-names-title',
+  severity: 'warning',
+  check: ({ title }) => {
+    const capitalizedWords = title.split(/\s+/).filter(w => /^[A-Z][a-z]+$/.test(w) && w.length > 3);
+    if (capitalizedWords.length > 2 && !/^[A-Z]/.test(title)) {
+      return 'Title may contain person/artist names. Names of real people, artists or fictional characters are prohibited.';
+    }
+  }
+};
+
+const personNamesKeywords: ValidationRule = {
+  id: 'person-names-keywords',
+  severity: 'error',
+  check: ({ keywords }) => {
+    const found = keywords.filter(isPersonName);
+    return found.length > 0 ? `Keywords may contain person names: ${found.join(', ')}` : undefined;
+  },
+  fix: meta => ({ ...meta, keywords: meta.keywords.filter(k => !isPersonName(k)) })
+};
+
+const descriptionLength: ValidationRule = {
+  id: 'description-length',
+  severity: 'error',
+  check: ({ description }, { limits }) => {
+    if (!description || description.trim().length === 0) return 'Description is empty';
+    if (description.length > limits.descMax) return `Description too long: ${description.length} chars (max ${limits.descMax})`;
+  },
+  fix: (meta, { limits }) => ({ ...meta, description: strictTrimTitleToMax(meta.description, limits.descMax) })
+};
+
+const keywordCount: ValidationRule = {
+  id: 'keyword-count',
+  severity: 'error',
+  check: ({ keywords }, { expectedKeywordCount, limits }) => {
+    if (keywords.length > limits.keywordsMax) return `Too many keywords: ${keywords.length} (max ${limits.keywordsMax})`;
+    if (typeof expectedKeywordCount === 'number' && keywords.length !== expectedKeywordCount) {
+      return `Keyword count mismatch: ${keywords.length} (expected ${expectedKeywordCount})`;
+    }
+  },
+  // Only an excess can be fixed; missing keywords need a regeneration
+  fix: (meta, { expectedKeywordCount, limits }) => ({
+    ...meta,
+    keywords: meta.keywords.slice(0, Math.min(expectedKeywordCount ?? limits.keywordsMax, limits.keywordsMax))
+  })
+};
+
+const duplicateKeywords: ValidationRule = {
+  id: 'duplicate-keywords',
+  severity: 'error',
+  check: ({ keywords }) => {
+    const duplicates = duplicatesBy(keywords, k => k.toLowerCase());
+    return duplicates.length > 0 ? `Duplicate keywords found: ${Array.from(new Set(duplicates)).join(', ')}` : undefined;
+  },
+  fix: meta => ({ ...meta, keywords: dedupeBy(meta.keywords, k => k.toLowerCase()) })
+};
+
+const duplicateStems: ValidationRule = {
+  id: 'duplicate-stems',
+  severity: 'warning',
+  check: ({ keywords }, { language, allowPluralVariants }) => {
+    const duplicates = duplicatesBy(keywords, k => keywordKey(k, language, allowPluralVariants));
+    return duplicates.length > 0 ? `Keywords repeat the same word in another form: ${duplicates.join(', ')}` : undefined;
+  },
+  fix: (meta, { language, allowPluralVariants }) => ({
+    ...meta,
+    keywords: dedupeBy(meta.keywords, k => keywordKey(k, language, allowPluralVariants))
+  })
+};
+
+// Title words should also be keywords - buyers search the keyword field
+const titleKeywordOverlap = (minShare: number): ValidationRule => ({
+  id: 'title-keyword-overlap',
+  severity: 'warning',
+  check: (meta, { language }) => {
+    const { significant, missing } = titleWordsMissingFromKeywords(meta, language);
+    if (significant.length === 0 || (significant.length - missing.length) / significant.length >= minShare) return undefined;
+    return `Only ${significant.length - missing.length} of ${significant.length} title words appear in the keywords (missing: ${missing.join(', ')})`;
+  },
+  // Append missing title words (never banned or brand terms) while there is room under the keyword limit
+  fix: (meta, { expectedKeywordCount, limits, dictionary, language }) => {
+    const room = Math.max(0, (expectedKeywordCount ?? limits.keywordsMax) - meta.keywords.length);
+    const addable = dictionary.filterKeywords(titleWordsMissingFromKeywords(meta, language).missing);
+    return { ...meta, keywords: [...meta.keywords, ...addable.slice(0, room)] };
+  }
+});
+
+const combinedPhrases: ValidationRule = {
+  id: 'combined-phrases',
+  severity: 'warning',
+  check: ({ keywords }) => {
+    const found = keywords.filter(k => k.trim().split(/\s+/).length >= 3);
+    return found.length > 0
+      ? `Found combined phrases in keywords (should be split): ${found.slice(0, 3).join(', ')}. Use individual words, not combined descriptors.`
+      : undefined;
+  }
+};
+
+const genericLeadKeywords: ValidationRule = {
+  id: 'generic-lead-keywords',
+  severity: 'warning',
+  check: ({ keywords }) => {
+    const genericCount = keywords.slice(0, 10).filter(k => GENERIC_KEYWORDS.has(k.toLowerCase())).length;
+    return genericCount > 3
+      ? `First 10 keywords contain too many generic terms (${genericCount}). The first keywords matter most - use specific, descriptive terms.`
+      : undefined;
+  }
+};
+
+// Keywords written in a script the metadata language doesn't use (accented Latin is fine)
+const mixedLanguages: ValidationRule = {
+  id: 'mixed-languages',
+  severity: 'warning',
+  check: ({ keywords }, { language = 'en' }) => {
+    const { label, foreignLetter } = LANGUAGES[language];
+    const foreign = keywords.filter(k => foreignLetter.test(k));
+    return foreign.length > 0
+      ? `Keywords appear to contain mixed languages (not ${label}: ${foreign.slice(0, 3).join(', ')}). All metadata should be in one language.`
+      : undefined;
+  }
+};
+
+const filenameTitle: ValidationRule = {
+  id: 'filename-title',
+  severity: 'error',
+  check: ({ title }, { filename, hasImage }) =>
+    hasImage && title && isFilenameBased(title, filename)
+      ? 'Title appears filename-based despite image being provided'
+      : undefined
+};
+
+/**
+ * Same rule with a different severity (for platforms that are stricter or more lenient)
+ */
+export function withSeverity(rule: ValidationRule, severity: ValidationSeverity): ValidationRule {
+  return { ...rule, severity };
+}
+
+// Checks every platform gets
+const BASE_RULES: ValidationRule[] = [
+  forbiddenTerms,
+  titleRequired,
+  titleLength,
+  descriptionLength,
+  duplicateKeywords,
+  keywordCount,
+  filenameTitle
+];
+
+// Agencies that reject trademarks in keywords but don't publish detailed title rules
+const TRADEMARK_RULES: ValidationRule[] = [...BASE_RULES, trademarkTitle, trademarkKeywords, duplicateStems];
+
+export const PLATFORM_RULES: Record<Platform, ValidationRule[]> = {
+  general: [
+    ...BASE_RULES,
+    withSeverity(trademarkTitle, 'warning'),
+    withSeverity(trademarkKeywords, 'warning'),
+    duplicateStems
+  ],
+  adobe: [
+    ...BASE_RULES,
+    styleReferences,
+    titleRecommendedLength(70),
+    keywordListTitle,
+    trademarkTitle,
+    trademarkKeywords,
+    personNamesTitle,
+    personNamesKeywords,
+    combinedPhrases,
+    duplicateStems,
+    genericLeadKeywords,
+    mixedLanguages,
+    titleKeywordOverlap(0.5)
+  ],
+  shutterstock: [
+    ...TRADEMARK_RULES,
+    keywordListTitle,
+    personNamesKeywords,
+    titleKeywordOverlap(0.5)
+  ],
+  freepik: TRADEMARK_RULES,
+  dreamstime: [...TRADEMARK_RULES, titleKeywordOverlap(0.5)],
+  '123rf': TRADEMARK_RULES,
+  depositphotos: TRADEMARK_RULES,
+  alamy: [...TRADEMARK_RULES, withSeverity(titleRecommendedLength(100), 'info')],
+  pond5: TRADEMARK_RULES,
+  vecteezy: TRADEMARK_RULES
+};
+
+/**
+ * Run a platform's rules over generated metadata.
+ * Returns the (auto-fixed) metadata and one issue per failed rule; pass autoFix: false to only report.
+ */
+export function validateMetadata(
+  platform: Platform,
+  meta: Metadata,
+  ctx: Omit<RuleContext, 'limits' | 'dictionary'> & Partial<Pick<RuleContext, 'limits' | 'dictionary'>>,
+  options: { autoFix?: boolean } = {}
+): { metadata: Metadata; issues: ValidationIssue[] } {
+  const autoFix = options.autoFix ?? true;
+  const context: RuleContext = {
+    ...ctx,
+    limits: ctx.limits ?? PLATFORMS[platform].limits,
+    allowPluralVariants: ctx.allowPluralVariants ?? PLATFORMS[platform].allowPluralVariants,
+    dictionary: ctx.dictionary ?? new TermDictionary()
+  };
+  const issues: ValidationIssue[] = [];
+  let current: Metadata = { ...meta, keywords: Array.isArray(meta.keywords) ? meta.keywords : [] };
+
+  for (const rule of PLATFORM_RULES[platform] ?? BASE_RULES) {
+    const message = rule.check(current, context);
+    if (!message) continue;
+
+    let fixApplied = false;
+    if (autoFix && rule.fix) {
+      const fixed = rule.fix(current, context);
+      if (!rule.check(fixed, context)) {
+        current = fixed;
+        fixApplied = true;
+      }
+    }
+    issues.push({ ruleId: rule.id, severity: rule.severity, message, fixApplied });
+  }
+
+  return { metadata: current, issues };
+}
@@ -0,0 +1,41 @@
+// XMP sidecar export - one .xmp file per asset for formats we can't (or shouldn't) rewrite
+
+import type { Row } from './csv';
+import { buildXmpPacket } from './embed-metadata';
+import { toVectorFormatRows } from './excel';
+
+export type Sidecar = { name: string; content: string };
+
+const VECTOR_FORMATS = ['ai', 'eps', 'svg'] as const;
+
+/**
+ * Sidecar filename for an asset: the full file name plus .xmp (photo.eps -> photo.eps.xmp), so
+ * assets sharing a base name (photo.jpg and photo.eps) each keep their own sidecar
+ */
+export function sidecarName(filename: string): string {
+  return `${filename}.xmp`;
+}
+
+/**
+ * Build .xmp sidecars for every completed row, plus the ai/eps/svg names of vector rows
+ * (the same fan-out as createVectorFormatExcel). A fan-out name that is also an uploaded file
+ * keeps that file's own metadata.
+ */
+export function rowsToSidecars(rows: Row[]): Sidecar[] {
+  const completed = rows.filter(r => !r.error && !r.cancelled);
+  const all = [
+    ...completed,
+    ...VECTOR_FORMATS.flatMap(format => toVectorFormatRows(completed, format))
+  ];
+
+  const byName = new Map<string, Sidecar>();
+  for (const r of all) {
+    const name = sidecarName(r.filename);
+    if (byName.has(name)) continue;
+    byName.set(name, {
+      name,
+      content: buildXmpPacket({ title: r.title, description: r.description, keywords: r.keywords })
+    });
+  }
+  return Array.from(byName.values());
+}